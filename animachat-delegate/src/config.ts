@@ -2,7 +2,7 @@
  * Config loader - reads and validates delegate configuration from YAML.
  */
 
-import { readFileSync, existsSync } from 'fs';
+import { readFileSync, existsSync, watchFile, unwatchFile, type Stats } from 'fs';
 import { resolve } from 'path';
 import YAML from 'yaml';
 import { DelegateConfigSchema, type DelegateConfig } from './types.js';
@@ -56,6 +56,27 @@ export function loadConfig(configPath: string): DelegateConfig {
   return result.data;
 }
 
+/**
+ * Watch a config file and call onChange with the re-validated config after each edit.
+ * Polls the file, so editors that replace it on save are picked up too.
+ * Invalid edits are logged and ignored. Returns a function that stops watching.
+ */
+export function watchConfig(configPath: string, onChange: (config: DelegateConfig) => void): () => void {
+  const resolved = resolve(configPath);
+
+  const listener = (current: Stats, previous: Stats) => {
+    if (current.mtimeMs === previous.mtimeMs) return;
+    try {
+      onChange(loadConfig(resolved));
+    } catch (error) {
+      console.error(`[Config] Ignoring config change: ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  watchFile(resolved, { interval: 1000 }, listener);
+  return () => unwatchFile(resolved, listener);
+}
+
 /**
  * Find config file from common locations.
  */
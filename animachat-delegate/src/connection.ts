@@ -7,7 +7,25 @@
 
 import WebSocket from 'ws';
 import { EventEmitter } from 'events';
-import { ServerMessageSchema, type ServerMessage, type ToolCallRequest } from './types.js';
+import {
+  CLOSE_DISCONNECTED_BY_USER,
+  CLOSE_SUPERSEDED,
+  ServerMessageSchema,
+  type PromptDefinition,
+  type PromptGetRequest,
+  type PromptMessage,
+  type ResourceContent,
+  type ResourceDefinition,
+  type ResourceReadRequest,
+  type ServerMessage,
+  type ToolCallRequest,
+  type ToolCallCancel,
+  type ToolCallProgress,
+  type ToolResultContent,
+} from './types.js';
+
+/** Responses kept while disconnected; beyond this the oldest are dropped */
+const MAX_QUEUED_RESPONSES = 100;
 
 // =============================================================================
 // Types
@@ -18,6 +36,8 @@ export interface ConnectionOptions {
   token: string;
   delegateId: string;
   capabilities: string[];
+  /** Ask the server to qualify our tool names with the delegate id (default: false) */
+  namespaceTools?: boolean;
   /** Reconnect on disconnect (default: true) */
   autoReconnect?: boolean;
   /** Heartbeat interval in ms (default: 30000) */
@@ -33,6 +53,9 @@ interface ConnectionEvents {
   disconnected: (code: number, reason: string) => void;
   reconnecting: (attempt: number) => void;
   tool_call_request: (request: ToolCallRequest) => void;
+  tool_call_cancel: (cancel: ToolCallCancel) => void;
+  resource_read_request: (request: ResourceReadRequest) => void;
+  prompt_get_request: (request: PromptGetRequest) => void;
   trigger_inference_result: (result: ServerMessage) => void;
   tool_manifest_ack: (data: { toolCount: number; tools: string[] }) => void;
   error: (error: Error) => void;
@@ -53,6 +76,8 @@ export class DelegateConnection extends EventEmitter {
   private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
   private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
   private intentionalClose = false;
+  /** Tool call responses that could not be sent while disconnected, oldest first */
+  private outbox: Array<Record<string, unknown>> = [];
 
   constructor(options: ConnectionOptions) {
     super();
@@ -60,6 +85,7 @@ export class DelegateConnection extends EventEmitter {
       autoReconnect: true,
       heartbeatInterval: 30000,
       maxReconnectAttempts: Infinity,
+      namespaceTools: false,
       ...options,
     };
   }
@@ -110,26 +136,109 @@ export class DelegateConnection extends EventEmitter {
     this.send({
       type: 'tool_manifest',
       delegateId: this.options.delegateId,
+      namespaced: this.options.namespaceTools,
       tools,
     });
     console.log(`[Connection] Sent tool manifest: ${tools.length} tools (${tools.map(t => t.name).join(', ')})`);
   }
 
+  /**
+   * Advertise the resources our MCP servers list.
+   */
+  sendResourceManifest(resources: ResourceDefinition[]): void {
+    this.send({
+      type: 'resource_manifest',
+      delegateId: this.options.delegateId,
+      resources,
+    });
+    console.log(`[Connection] Sent resource manifest: ${resources.length} resources`);
+  }
+
+  /**
+   * Advertise the prompt templates our MCP servers list.
+   */
+  sendPromptManifest(prompts: PromptDefinition[]): void {
+    this.send({
+      type: 'prompt_manifest',
+      delegateId: this.options.delegateId,
+      prompts,
+    });
+    console.log(`[Connection] Sent prompt manifest: ${prompts.length} prompts`);
+  }
+
+  /**
+   * Answer a resource_read_request with the resource contents or an error.
+   */
+  sendResourceReadResponse(requestId: string, result: { contents: ResourceContent[] } | { error: string }): void {
+    this.send({
+      type: 'resource_read_response',
+      requestId,
+      ...result,
+    });
+  }
+
+  /**
+   * Answer a prompt_get_request with the rendered messages or an error.
+   */
+  sendPromptGetResponse(
+    requestId: string,
+    result: { description?: string; messages: PromptMessage[] } | { error: string }
+  ): void {
+    this.send({
+      type: 'prompt_get_response',
+      requestId,
+      ...result,
+    });
+  }
+
+  /**
+   * Send progress of a running tool call to the server.
+   */
+  sendToolCallProgress(requestId: string, toolUseId: string, progress: ToolCallProgress): void {
+    this.send({
+      type: 'tool_call_progress',
+      requestId,
+      toolUseId,
+      ...progress,
+    });
+  }
+
+  /**
+   * Confirm that a tool call request arrived, so the server won't redeliver it.
+   */
+  sendToolCallAck(requestId: string): void {
+    this.send({ type: 'tool_call_ack', requestId });
+  }
+
   /**
    * Send tool call response back to server.
+   * While disconnected the response is queued and sent after reconnecting,
+   * since the server keeps waiting for it.
    */
   sendToolCallResponse(
     requestId: string,
     toolUseId: string,
-    content: string | unknown[],
+    content: ToolResultContent,
     isError = false
   ): void {
-    this.send({
+    const message = {
       type: 'tool_call_response',
       requestId,
       toolUseId,
       result: { content, isError },
-    });
+    };
+
+    if (this.state === 'connected' && this.ws?.readyState === WebSocket.OPEN) {
+      this.ws.send(JSON.stringify(message));
+      return;
+    }
+
+    this.outbox.push(message);
+    if (this.outbox.length > MAX_QUEUED_RESPONSES) {
+      const dropped = this.outbox.shift();
+      console.warn(`[Connection] Response queue full, dropped response to ${dropped?.requestId}`);
+    }
+    console.log(`[Connection] Not connected, queued response to ${requestId} (${this.outbox.length} queued)`);
   }
 
   /**
@@ -142,6 +251,12 @@ export class DelegateConnection extends EventEmitter {
     participantId?: string;
     context: Record<string, unknown>;
     systemMessage?: string;
+    deliveryId?: string;
+    debounceSeconds?: number;
+    parentBranchId?: string;
+    bookmark?: string;
+    speaker?: string;
+    responder?: string;
   }): void {
     this.send({
       type: 'trigger_inference',
@@ -158,9 +273,10 @@ export class DelegateConnection extends EventEmitter {
     return new Promise((resolve, reject) => {
       this.setState('connecting');
 
-      const { serverUrl, token, delegateId } = this.options;
+      const { serverUrl, token, delegateId, capabilities } = this.options;
       const separator = serverUrl.includes('?') ? '&' : '?';
-      const url = `${serverUrl}${separator}token=${encodeURIComponent(token)}&role=delegate&delegateId=${encodeURIComponent(delegateId)}`;
+      // Credentials go in the first message, not the URL (which ends up in access logs)
+      const url = `${serverUrl}${separator}role=delegate`;
 
       console.log(`[Connection] Connecting to ${serverUrl} as delegate "${delegateId}"...`);
 
@@ -183,6 +299,13 @@ export class DelegateConnection extends EventEmitter {
 
       this.ws.on('open', () => {
         this.setState('authenticating');
+        this.ws?.send(JSON.stringify({
+          type: 'delegate_auth',
+          version: '1.0',
+          token,
+          delegateId,
+          capabilities,
+        }));
         console.log('[Connection] WebSocket opened, waiting for auth result...');
       });
 
@@ -207,6 +330,8 @@ export class DelegateConnection extends EventEmitter {
               this.setState('connected');
               this.startHeartbeat();
               console.log(`[Connection] Authenticated! userId=${msg.userId}, session=${msg.sessionId}`);
+              // Before the manifest, so the server settles these calls instead of re-sending them
+              this.flushOutbox();
               this.emit('connected', msg.sessionId, msg.userId);
               resolve();
             } else {
@@ -238,6 +363,16 @@ export class DelegateConnection extends EventEmitter {
         this.emit('disconnected', code, reasonStr);
         console.log(`[Connection] Disconnected: ${code} ${reasonStr}`);
 
+        if (code === CLOSE_DISCONNECTED_BY_USER) {
+          console.log('[Connection] Disconnected from the server UI, not reconnecting. Restart the delegate to reconnect.');
+          return;
+        }
+        if (code === CLOSE_SUPERSEDED) {
+          // Reconnecting would in turn replace the other connection, and so on
+          console.log('[Connection] Another connection took over this delegate id, not reconnecting. Give each delegate its own id.');
+          return;
+        }
+
         if (!this.intentionalClose && this.options.autoReconnect) {
           this.scheduleReconnect();
         }
@@ -273,6 +408,18 @@ export class DelegateConnection extends EventEmitter {
         this.emit('tool_call_request', msg);
         break;
 
+      case 'tool_call_cancel':
+        this.emit('tool_call_cancel', msg);
+        break;
+
+      case 'resource_read_request':
+        this.emit('resource_read_request', msg);
+        break;
+
+      case 'prompt_get_request':
+        this.emit('prompt_get_request', msg);
+        break;
+
       case 'trigger_inference_result':
         this.emit('trigger_inference_result', msg);
         break;
@@ -292,6 +439,14 @@ export class DelegateConnection extends EventEmitter {
     }
   }
 
+  private flushOutbox(): void {
+    if (this.outbox.length === 0) return;
+    console.log(`[Connection] Sending ${this.outbox.length} queued tool call response(s)`);
+    while (this.outbox.length > 0) {
+      this.ws?.send(JSON.stringify(this.outbox.shift()));
+    }
+  }
+
   // --------------------------------------------------------------------------
   // Heartbeat
   // --------------------------------------------------------------------------
@@ -9,14 +9,22 @@
  * Usage:
  *   animachat-delegate --config delegate.yaml
  *   animachat-delegate --server wss://animachat.example.com --token $TOKEN
+ *
+ * Edits to mcp_servers in the config file are applied while running.
  */
 
 import { Command } from 'commander';
-import { findConfigPath, loadConfig } from './config.js';
+import { findConfigPath, loadConfig, watchConfig } from './config.js';
 import { DelegateConnection } from './connection.js';
 import { McpHostManager } from './mcp-host.js';
 import { WebhookServer } from './webhook-server.js';
-import type { ToolCallRequest } from './types.js';
+import type {
+  PromptGetRequest,
+  ResourceReadRequest,
+  ToolCallCancel,
+  ToolCallRequest,
+  ToolResultContent,
+} from './types.js';
 
 // =============================================================================
 // CLI
@@ -30,6 +38,7 @@ const program = new Command()
   .option('-s, --server <url>', 'Server WebSocket URL (overrides config)')
   .option('-t, --token <token>', 'Auth token (overrides config)')
   .option('-d, --delegate-id <id>', 'Delegate ID (overrides config)')
+  .option('--no-watch', 'Do not reload MCP servers when the config file changes')
   .parse();
 
 const opts = program.opts();
@@ -55,7 +64,7 @@ async function main(): Promise<void> {
   console.log(`[Delegate] Webhooks: ${config.webhooks.enabled ? `enabled (port ${config.webhooks.port})` : 'disabled'}`);
 
   // ---- MCP Host Manager ----
-  const mcpHost = new McpHostManager();
+  const mcpHost = new McpHostManager({ namespaceTools: config.delegate.namespace_tools });
   await mcpHost.startAll(config.mcp_servers);
   const tools = mcpHost.getAllTools();
   console.log(`[Delegate] Tools available: ${tools.map(t => t.name).join(', ') || '(none)'}`);
@@ -66,9 +75,10 @@ async function main(): Promise<void> {
     token: config.server.token,
     delegateId: config.delegate.id,
     capabilities: config.delegate.capabilities,
+    namespaceTools: config.delegate.namespace_tools,
   });
 
-  // Send tool manifest on connect (and reconnect)
+  // Send tool, resource and prompt manifests on connect (and reconnect)
   connection.on('connected', (_sessionId: string, _userId: string) => {
     const currentTools = mcpHost.getAllTools();
     if (currentTools.length > 0) {
@@ -76,13 +86,59 @@ async function main(): Promise<void> {
     } else {
       console.log('[Delegate] No tools to advertise');
     }
+
+    const resources = mcpHost.getAllResources();
+    if (resources.length > 0) connection.sendResourceManifest(resources);
+    const prompts = mcpHost.getAllPrompts();
+    if (prompts.length > 0) connection.sendPromptManifest(prompts);
   });
 
+  // In-flight tool calls by requestId, so the server can cancel them
+  const inFlightCalls = new Map<string, AbortController>();
+
   // Handle tool call requests from the server
   connection.on('tool_call_request', async (request: ToolCallRequest) => {
-    console.log(`[Delegate] Tool call: ${request.tool.name} (request: ${request.requestId})`);
+    try {
+      connection.sendToolCallAck(request.requestId);
+    } catch {
+      // Without the ack the server redelivers the request after reconnecting
+    }
+
+    // Redelivered after a reconnect while still running: the result is sent when it finishes
+    if (inFlightCalls.has(request.requestId)) {
+      console.log(`[Delegate] Tool call ${request.requestId} is already running`);
+      return;
+    }
+
+    console.log(
+      `[Delegate] Tool call: ${request.tool.name} (request: ${request.requestId}, ` +
+      `conversation: ${request.conversationId || 'none'})`
+    );
+
+    const controller = new AbortController();
+    inFlightCalls.set(request.requestId, controller);
+
+    const result = await mcpHost.callTool(request.tool.name, request.tool.input, {
+      conversationId: request.conversationId,
+      messageId: request.messageId,
+      branchId: request.branchId,
+      participantId: request.participantId,
+      triggeredByUserId: request.triggeredByUserId,
+    }, {
+      signal: controller.signal,
+      timeoutMs: request.timeout,
+      onProgress: (progress) => {
+        try {
+          connection.sendToolCallProgress(request.requestId, request.tool.id, progress);
+        } catch {
+          // Progress is best-effort; the result is sent (or fails) on its own
+        }
+      },
+    });
+    inFlightCalls.delete(request.requestId);
 
-    const result = await mcpHost.callTool(request.tool.name, request.tool.input);
+    // The server stopped waiting for cancelled calls
+    if (controller.signal.aborted) return;
 
     connection.sendToolCallResponse(
       request.requestId,
@@ -93,10 +149,68 @@ async function main(): Promise<void> {
 
     console.log(
       `[Delegate] Tool result sent: ${request.tool.name} ` +
-      `(${result.isError ? 'error' : 'ok'}, ${result.content.length} chars)`
+      `(${result.isError ? 'error' : 'ok'}, ${describeResult(result.content)})`
     );
   });
 
+  // Stop a tool call the server no longer needs (generation stopped or timed out)
+  connection.on('tool_call_cancel', (cancel: ToolCallCancel) => {
+    const controller = inFlightCalls.get(cancel.requestId);
+    if (!controller) return;
+    console.log(`[Delegate] Cancelling tool call ${cancel.requestId}${cancel.reason ? `: ${cancel.reason}` : ''}`);
+    controller.abort(cancel.reason);
+  });
+
+  // Re-advertise everything whenever MCP servers are added, removed, restarted or respawned
+  mcpHost.on('servers_changed', () => {
+    if (!connection.isConnected) return;
+    try {
+      connection.sendToolManifest(mcpHost.getAllTools());
+      connection.sendResourceManifest(mcpHost.getAllResources());
+      connection.sendPromptManifest(mcpHost.getAllPrompts());
+    } catch (error) {
+      console.error('[Delegate] Failed to send manifests:', error instanceof Error ? error.message : error);
+    }
+  });
+
+  // Resource reads and prompt renders requested by users in the conversation UI.
+  // The connection may drop while they run; the server then times the request out.
+  const sendReply = (what: string, send: () => void) => {
+    if (!connection.isConnected) {
+      console.warn(`[Delegate] Dropping ${what} response: not connected`);
+      return;
+    }
+    try {
+      send();
+    } catch (error) {
+      console.error(`[Delegate] Failed to send ${what} response:`, error instanceof Error ? error.message : error);
+    }
+  };
+
+  connection.on('resource_read_request', async (request: ResourceReadRequest) => {
+    let result: Parameters<DelegateConnection['sendResourceReadResponse']>[1];
+    try {
+      result = { contents: await mcpHost.readResource(request.server, request.uri) };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Delegate] Reading ${request.uri} from "${request.server}" failed:`, message);
+      result = { error: message };
+    }
+    sendReply(`resource ${request.uri}`, () => connection.sendResourceReadResponse(request.requestId, result));
+  });
+
+  connection.on('prompt_get_request', async (request: PromptGetRequest) => {
+    let result: Parameters<DelegateConnection['sendPromptGetResponse']>[1];
+    try {
+      result = await mcpHost.getPrompt(request.server, request.name, request.arguments);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[Delegate] Prompt "${request.name}" from "${request.server}" failed:`, message);
+      result = { error: message };
+    }
+    sendReply(`prompt "${request.name}"`, () => connection.sendPromptGetResponse(request.requestId, result));
+  });
+
   connection.on('error', (error: Error) => {
     console.error('[Delegate] Connection error:', error.message);
   });
@@ -112,6 +226,19 @@ async function main(): Promise<void> {
   // Connect to server
   await connection.connect();
 
+  // ---- Config Reload ----
+  // Only mcp_servers is applied live; other settings take effect on restart.
+  // Reloads run one at a time so a burst of saves can't interleave.
+  let reloading = Promise.resolve();
+  const stopWatching = opts.watch
+    ? watchConfig(configPath, (next) => {
+        console.log('[Delegate] Config changed, reloading MCP servers');
+        reloading = reloading
+          .then(() => mcpHost.applyConfig(next.mcp_servers))
+          .catch(error => console.error('[Delegate] Config reload failed:', error));
+      })
+    : undefined;
+
   // ---- Webhook Server ----
   let webhookServer: WebhookServer | null = null;
   if (config.webhooks.enabled && config.webhooks.endpoints.length > 0) {
@@ -128,6 +255,7 @@ async function main(): Promise<void> {
 
     console.log(`\n[Delegate] ${signal} received, shutting down...`);
 
+    stopWatching?.();
     webhookServer?.stop();
     connection.disconnect();
     await mcpHost.stopAll();
@@ -142,6 +270,12 @@ async function main(): Promise<void> {
   console.log('[Delegate] Running. Press Ctrl+C to stop.');
 }
 
+/** Short description of a tool result for logging */
+function describeResult(content: ToolResultContent): string {
+  if (typeof content === 'string') return `${content.length} chars`;
+  return content.map(part => part.type).join(', ');
+}
+
 // =============================================================================
 // Entry
 // =============================================================================
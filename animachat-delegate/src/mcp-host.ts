@@ -1,13 +1,54 @@
 /**
  * MCP Host Manager
  *
- * Spawns and manages MCP server subprocesses via stdio transport.
+ * Spawns and manages MCP server subprocesses via stdio transport, and connects
+ * to remote MCP servers over Streamable HTTP or SSE.
  * Collects tool definitions from all servers and routes tool calls.
+ * Resources and prompt templates are listed too, for users to attach and insert.
+ * Image and embedded-resource results are passed through, not flattened to text.
+ * Each call carries the calling conversation in its _meta ("animachat/conversationId", ...).
+ * Calls can be cancelled with an AbortSignal, which cancels the MCP request,
+ * and report MCP progress notifications through a callback.
+ *
+ * Tools are advertised under their own names unless namespacing is enabled,
+ * in which case they become "<server>__<tool>". Without namespacing, a tool
+ * whose name is already taken by another server is still advertised, but
+ * under its qualified name rather than shadowing the first one.
+ *
+ * Servers can be added, removed and restarted at runtime (applyConfig), and a
+ * server that fails to start or whose subprocess exits unexpectedly is
+ * respawned with backoff. Every change to the set of running servers emits
+ * 'servers_changed'.
  */
 
+import { EventEmitter } from 'events';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import type { McpServerConfig, ToolDefinition } from './types.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { Tool as McpTool } from '@modelcontextprotocol/sdk/types.js';
+import {
+  TOOL_NAMESPACE_SEPARATOR,
+  type McpServerConfig,
+  type PromptDefinition,
+  type PromptMessage,
+  type ResourceContent,
+  type ResourceDefinition,
+  type ToolDefinition,
+  type ToolExecutionConfig,
+  type ToolExecutionPolicy,
+  type ToolResultContent,
+  type ToolCallProgress,
+  type ToolCallRequest,
+  type ToolResultContentPart,
+} from './types.js';
+
+// Respawn backoff: 1s, 2s, 4s, ... max 60s
+const RESPAWN_BASE_DELAY_MS = 1000;
+const RESPAWN_MAX_DELAY_MS = 60000;
+// A server that ran this long before exiting starts its backoff over
+const RESPAWN_STABLE_MS = 60000;
 
 // =============================================================================
 // Types
@@ -16,23 +57,73 @@ import type { McpServerConfig, ToolDefinition } from './types.js';
 interface McpServer {
   name: string;
   client: Client;
-  transport: StdioClientTransport;
+  transport: Transport;
+  /** Tools as listed by the MCP server */
+  mcpTools: McpTool[];
+  /** Tools as advertised (after namespacing and conflict resolution) */
   tools: ToolDefinition[];
+  resources: ResourceDefinition[];
+  prompts: PromptDefinition[];
+  requireApproval?: boolean | string[];
+  /** Server-wide execution defaults */
+  execution: ToolExecutionConfig;
+  /** Per-tool execution overrides, keyed by MCP tool name */
+  toolExecution: Record<string, ToolExecutionConfig>;
+  startedAt: number;
+  /** Set when we close the client ourselves, so the exit is not treated as a crash */
+  stopping: boolean;
+}
+
+/** The conversation a tool call is made from, as sent by the server */
+export type ToolCallOrigin = Pick<
+  ToolCallRequest,
+  'conversationId' | 'messageId' | 'branchId' | 'participantId' | 'triggeredByUserId'
+>;
+
+export interface ToolCallOptions {
+  /** Cancels the MCP request */
+  signal?: AbortSignal;
+  /** MCP request timeout (reset by each progress notification) */
+  timeoutMs?: number;
+  /** Called for each MCP progress notification */
+  onProgress?: (progress: ToolCallProgress) => void;
+}
+
+export interface McpHostOptions {
+  /** Advertise every tool as "<server>__<tool>" (default: false) */
+  namespaceTools?: boolean;
+}
+
+/** Where an advertised tool name routes to */
+interface ToolRoute {
+  server: string;
+  /** The tool's name on its MCP server */
+  name: string;
 }
 
 // =============================================================================
 // McpHostManager
 // =============================================================================
 
-export class McpHostManager {
+export class McpHostManager extends EventEmitter {
   private servers: Map<string, McpServer> = new Map();
-  private toolToServer: Map<string, string> = new Map();
+  private toolToServer: Map<string, ToolRoute> = new Map();
+  /** Configured servers, in config order (the order tool names are claimed in) */
+  private configs: McpServerConfig[] = [];
+  private respawnTimers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private respawnAttempts: Map<string, number> = new Map();
+
+  constructor(private options: McpHostOptions = {}) {
+    super();
+  }
 
   /**
    * Spawn all configured MCP servers and collect their tools.
-   * Individual server failures are logged but don't prevent others from starting.
+   * Individual server failures are logged and retried with backoff, like crashes;
+   * they don't prevent others from starting.
    */
   async startAll(configs: McpServerConfig[]): Promise<void> {
+    this.configs = configs;
     if (configs.length === 0) {
       console.log('[McpHost] No MCP servers configured');
       return;
@@ -49,8 +140,10 @@ export class McpHostManager {
       const config = configs[i];
       if (result.status === 'rejected') {
         console.error(`[McpHost] Failed to start "${config.name}":`, result.reason);
+        this.scheduleRespawn(config.name);
       }
     }
+    this.rebuildTools();
 
     const started = [...this.servers.values()];
     const totalTools = started.reduce((sum, s) => sum + s.tools.length, 0);
@@ -63,76 +156,184 @@ export class McpHostManager {
    * Stop all running MCP servers gracefully.
    */
   async stopAll(): Promise<void> {
+    for (const timer of this.respawnTimers.values()) clearTimeout(timer);
+    this.respawnTimers.clear();
     if (this.servers.size === 0) return;
 
     console.log(`[McpHost] Stopping ${this.servers.size} MCP server(s)...`);
 
-    const results = await Promise.allSettled(
-      [...this.servers.values()].map(async (server) => {
-        try {
-          await server.client.close();
-          console.log(`[McpHost] Stopped "${server.name}"`);
-        } catch (error) {
-          console.warn(`[McpHost] Error stopping "${server.name}":`, error);
-        }
-      })
-    );
+    await Promise.allSettled([...this.servers.keys()].map(name => this.stopServer(name)));
 
     this.servers.clear();
     this.toolToServer.clear();
   }
 
+  /**
+   * Bring the running servers in line with a new config: stop removed servers,
+   * start added ones and restart those whose config changed.
+   * Emits 'servers_changed' if anything was started or stopped.
+   */
+  async applyConfig(configs: McpServerConfig[]): Promise<void> {
+    const previous = new Map(this.configs.map(config => [config.name, config]));
+    const next = new Map(configs.map(config => [config.name, config]));
+    this.configs = configs;
+
+    const removed = [...previous.keys()].filter(name => !next.has(name));
+    const added = [...next.keys()].filter(name => !previous.has(name));
+    const changed = [...next.keys()].filter(name =>
+      previous.has(name) && JSON.stringify(previous.get(name)) !== JSON.stringify(next.get(name))
+    );
+    if (removed.length + added.length + changed.length === 0) {
+      console.log('[McpHost] MCP server config unchanged');
+      return;
+    }
+
+    console.log(
+      `[McpHost] Applying config: ${added.length} added, ${removed.length} removed, ${changed.length} changed`
+    );
+
+    await Promise.allSettled([...removed, ...changed].map(name => this.stopServer(name)));
+    const starting = [...added, ...changed];
+    const results = await Promise.allSettled(
+      starting.map(name => this.spawnServer(next.get(name)!))
+    );
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.error(`[McpHost] Failed to start "${starting[i]}":`, result.reason);
+        this.scheduleRespawn(starting[i]);
+      }
+    });
+
+    this.rebuildTools();
+    this.emit('servers_changed');
+  }
+
+  /**
+   * Restart a single configured server (e.g. after it misbehaved).
+   */
+  async restartServer(name: string): Promise<void> {
+    const config = this.configs.find(c => c.name === name);
+    if (!config) throw new Error(`Unknown MCP server: ${name}`);
+
+    await this.stopServer(name);
+    try {
+      await this.spawnServer(config);
+    } catch (error) {
+      this.scheduleRespawn(name);
+      throw error;
+    } finally {
+      this.rebuildTools();
+      this.emit('servers_changed');
+    }
+  }
+
   /**
    * Get all tools aggregated from all running MCP servers.
    */
   getAllTools(): ToolDefinition[] {
     const tools: ToolDefinition[] = [];
-    for (const server of this.servers.values()) {
-      tools.push(...server.tools);
+    for (const config of this.configs) {
+      tools.push(...(this.servers.get(config.name)?.tools ?? []));
     }
     return tools;
   }
 
+  /**
+   * Get all resources listed by running MCP servers.
+   */
+  getAllResources(): ResourceDefinition[] {
+    return this.configs.flatMap(config => this.servers.get(config.name)?.resources ?? []);
+  }
+
+  /**
+   * Get all prompt templates listed by running MCP servers.
+   */
+  getAllPrompts(): PromptDefinition[] {
+    return this.configs.flatMap(config => this.servers.get(config.name)?.prompts ?? []);
+  }
+
+  /**
+   * Read a resource from an MCP server. Throws if the server is not running or the read fails.
+   */
+  async readResource(serverName: string, uri: string): Promise<ResourceContent[]> {
+    const server = this.requireServer(serverName);
+    const result = await server.client.readResource({ uri });
+    return result.contents.map(content => ({
+      uri: content.uri,
+      mimeType: content.mimeType,
+      ...('text' in content ? { text: content.text as string } : { data: content.blob as string }),
+    }));
+  }
+
+  /**
+   * Render a prompt template. Non-text message content is flattened to text.
+   */
+  async getPrompt(
+    serverName: string,
+    name: string,
+    args: Record<string, string>
+  ): Promise<{ description?: string; messages: PromptMessage[] }> {
+    const server = this.requireServer(serverName);
+    const result = await server.client.getPrompt({ name, arguments: args });
+    return {
+      description: result.description,
+      messages: result.messages.map(message => ({
+        role: message.role,
+        text: promptContentText(message.content),
+      })),
+    };
+  }
+
   /**
    * Call a tool by name, routing to the correct MCP server.
    */
   async callTool(
     name: string,
-    args: Record<string, unknown>
-  ): Promise<{ content: string; isError: boolean }> {
-    const serverName = this.toolToServer.get(name);
-    if (!serverName) {
+    args: Record<string, unknown>,
+    origin?: ToolCallOrigin,
+    options: ToolCallOptions = {}
+  ): Promise<{ content: ToolResultContent; isError: boolean }> {
+    const { signal, timeoutMs, onProgress } = options;
+    const route = this.toolToServer.get(name);
+    if (!route) {
       return { content: `Unknown tool: ${name}`, isError: true };
     }
 
-    const server = this.servers.get(serverName);
+    const server = this.servers.get(route.server);
     if (!server) {
-      return { content: `MCP server "${serverName}" is not running`, isError: true };
+      return { content: `MCP server "${route.server}" is not running`, isError: true };
     }
 
     try {
-      const result = await server.client.callTool({ name, arguments: args });
-
-      // Extract text content from the result
-      const textParts: string[] = [];
-      if (Array.isArray(result.content)) {
-        for (const block of result.content) {
-          if (block.type === 'text' && typeof block.text === 'string') {
-            textParts.push(block.text);
-          } else if (block.type === 'image') {
-            textParts.push('[image]');
-          } else if (block.type === 'resource') {
-            textParts.push(`[resource: ${(block as any).uri || 'unknown'}]`);
-          }
-        }
-      }
+      // Aborting the signal sends notifications/cancelled to the MCP server.
+      // Progress notifications keep the request alive past its timeout.
+      const result = await server.client.callTool({
+        name: route.name,
+        arguments: args,
+        ...(origin && { _meta: originMeta(origin) }),
+      }, undefined, {
+        signal,
+        timeout: timeoutMs,
+        resetTimeoutOnProgress: true,
+        onprogress: onProgress && ((progress) => {
+          onProgress({
+            message: progress.message,
+            percentage: progress.total ? Math.round((progress.progress / progress.total) * 100) : undefined,
+          });
+        }),
+      });
+      const parts = Array.isArray(result.content) ? toResultParts(result.content) : [];
 
       return {
-        content: textParts.join('\n') || '(empty result)',
+        content: collapseTextParts(parts),
         isError: result.isError === true,
       };
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
+      if (signal?.aborted) {
+        console.log(`[McpHost] Tool call "${name}" cancelled`);
+        return { content: `Tool call cancelled: ${message}`, isError: true };
+      }
       console.error(`[McpHost] Tool call "${name}" failed:`, message);
       return { content: `Tool execution error: ${message}`, isError: true };
     }
@@ -142,15 +343,16 @@ export class McpHostManager {
   // Private
   // --------------------------------------------------------------------------
 
+  /**
+   * Spawn (or connect to) a server and list its tools. Callers rebuild the tool routes afterwards.
+   */
   private async spawnServer(config: McpServerConfig): Promise<void> {
-    console.log(`[McpHost] Starting "${config.name}" (${config.command} ${config.args.join(' ')})...`);
-
-    const transport = new StdioClientTransport({
-      command: config.command,
-      args: config.args,
-      env: config.env ? { ...process.env, ...config.env } as Record<string, string> : undefined,
-    });
+    const target = config.url
+      ? `${config.transport ?? 'http'} ${config.url}`
+      : `${config.command} ${config.args.join(' ')}`;
+    console.log(`[McpHost] Starting "${config.name}" (${target})...`);
 
+    const transport = this.createTransport(config);
     const client = new Client(
       { name: `animachat-delegate:${config.name}`, version: '1.0.0' },
       { capabilities: {} }
@@ -162,38 +364,309 @@ export class McpHostManager {
       name: config.name,
       client,
       transport,
+      mcpTools: [],
       tools: [],
+      resources: [],
+      prompts: [],
+      requireApproval: config.require_approval,
+      execution: {
+        timeout_ms: config.timeout_ms,
+        max_retries: config.max_retries,
+        idempotent: config.idempotent,
+      },
+      toolExecution: config.tools ?? {},
+      startedAt: Date.now(),
+      stopping: false,
     };
 
-    // Collect tools
-    await this.collectTools(server);
+    // Collect tools, plus resources and prompts if the server offers them
+    try {
+      server.mcpTools = (await client.listTools()).tools;
+      await this.collectResourcesAndPrompts(server);
+    } catch (error) {
+      await client.close().catch(() => {});
+      throw error;
+    }
 
+    client.onclose = () => this.handleServerExit(server);
     this.servers.set(config.name, server);
-    console.log(`[McpHost] "${config.name}" started with ${server.tools.length} tools`);
+    console.log(`[McpHost] "${config.name}" started with ${server.mcpTools.length} tools`);
   }
 
-  private async collectTools(server: McpServer): Promise<void> {
-    const result = await server.client.listTools();
+  private createTransport(config: McpServerConfig): Transport {
+    if (!config.url) {
+      return new StdioClientTransport({
+        command: config.command!,
+        args: config.args,
+        env: config.env ? { ...process.env, ...config.env } as Record<string, string> : undefined,
+      });
+    }
 
-    server.tools = result.tools.map((tool) => ({
-      name: tool.name,
-      description: tool.description || '',
-      inputSchema: {
-        type: 'object' as const,
-        properties: (tool.inputSchema as any)?.properties ?? {},
-        required: (tool.inputSchema as any)?.required,
-      },
-    }));
+    const headers: Record<string, string> = { ...config.headers };
+    if (config.token_env) {
+      const token = process.env[config.token_env];
+      if (!token) throw new Error(`Environment variable ${config.token_env} is not set`);
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const url = new URL(config.url);
+    const requestInit: RequestInit = { headers };
+    return config.transport === 'sse'
+      ? new SSEClientTransport(url, { requestInit })
+      : new StreamableHTTPClientTransport(url, { requestInit });
+  }
+
+  private requireServer(name: string): McpServer {
+    const server = this.servers.get(name);
+    if (!server) throw new Error(`MCP server "${name}" is not running`);
+    return server;
+  }
+
+  private async collectResourcesAndPrompts(server: McpServer): Promise<void> {
+    const capabilities = server.client.getServerCapabilities();
+
+    if (capabilities?.resources) {
+      const { resources } = await server.client.listResources();
+      server.resources = resources.map(resource => ({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+        server: server.name,
+      }));
+    }
+
+    if (capabilities?.prompts) {
+      const { prompts } = await server.client.listPrompts();
+      server.prompts = prompts.map(prompt => ({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: (prompt.arguments ?? []).map(arg => ({
+          name: arg.name,
+          description: arg.description,
+          required: arg.required,
+        })),
+        server: server.name,
+      }));
+    }
+  }
+
+  /**
+   * Stop a running server (if any) and cancel a pending respawn.
+   */
+  private async stopServer(name: string): Promise<void> {
+    const timer = this.respawnTimers.get(name);
+    if (timer) clearTimeout(timer);
+    this.respawnTimers.delete(name);
+    this.respawnAttempts.delete(name);
+
+    const server = this.servers.get(name);
+    if (!server) return;
+
+    server.stopping = true;
+    this.servers.delete(name);
+    try {
+      await server.client.close();
+      console.log(`[McpHost] Stopped "${name}"`);
+    } catch (error) {
+      console.warn(`[McpHost] Error stopping "${name}":`, error);
+    }
+  }
 
-    // Build tool → server mapping
-    for (const tool of server.tools) {
-      if (this.toolToServer.has(tool.name)) {
+  /**
+   * The server's subprocess exited without being stopped: withdraw its tools
+   * and respawn it with backoff.
+   */
+  private handleServerExit(server: McpServer): void {
+    if (server.stopping || this.servers.get(server.name) !== server) return;
+
+    console.warn(`[McpHost] "${server.name}" stopped unexpectedly`);
+    this.servers.delete(server.name);
+    if (Date.now() - server.startedAt >= RESPAWN_STABLE_MS) {
+      this.respawnAttempts.delete(server.name);
+    }
+
+    this.rebuildTools();
+    this.emit('servers_changed');
+    this.scheduleRespawn(server.name);
+  }
+
+  private scheduleRespawn(name: string): void {
+    if (!this.configs.some(c => c.name === name) || this.respawnTimers.has(name)) return;
+
+    const attempt = (this.respawnAttempts.get(name) ?? 0) + 1;
+    this.respawnAttempts.set(name, attempt);
+    const delay = Math.min(RESPAWN_BASE_DELAY_MS * Math.pow(2, attempt - 1), RESPAWN_MAX_DELAY_MS);
+    console.log(`[McpHost] Respawning "${name}" in ${delay}ms (attempt ${attempt})...`);
+
+    this.respawnTimers.set(name, setTimeout(async () => {
+      this.respawnTimers.delete(name);
+      // Removed from the config (or already restarted) while we were waiting
+      const config = this.configs.find(c => c.name === name);
+      if (!config || this.servers.has(name)) return;
+
+      try {
+        await this.spawnServer(config);
+        this.rebuildTools();
+        this.emit('servers_changed');
+      } catch (error) {
+        console.error(`[McpHost] Respawn of "${name}" failed:`, error instanceof Error ? error.message : error);
+        this.scheduleRespawn(name);
+      }
+    }, delay));
+  }
+
+  /**
+   * Recompute advertised tool names and routes for all running servers.
+   * Servers claim names in config order, so restarting one never renames another's tools.
+   */
+  private rebuildTools(): void {
+    this.toolToServer.clear();
+    for (const config of this.configs) {
+      const server = this.servers.get(config.name);
+      if (server) this.collectTools(server);
+    }
+  }
+
+  private collectTools(server: McpServer): void {
+    server.tools = [];
+    for (const tool of server.mcpTools) {
+      const qualifiedName = this.qualifyToolName(server.name, tool.name);
+      let advertisedName = this.options.namespaceTools ? qualifiedName : tool.name;
+
+      // Never shadow another server's tool: fall back to the qualified name
+      const existing = this.toolToServer.get(advertisedName);
+      if (existing && existing.server !== server.name) {
+        if (advertisedName === qualifiedName || this.toolToServer.has(qualifiedName)) {
+          console.warn(`[McpHost] Skipping "${tool.name}" from "${server.name}": "${advertisedName}" is already taken`);
+          continue;
+        }
         console.warn(
           `[McpHost] Tool name conflict: "${tool.name}" from "${server.name}" ` +
-          `shadows existing tool from "${this.toolToServer.get(tool.name)}"`
+          `is also provided by "${existing.server}", advertising it as "${qualifiedName}"`
         );
+        advertisedName = qualifiedName;
       }
-      this.toolToServer.set(tool.name, server.name);
+
+      server.tools.push({
+        name: advertisedName,
+        description: tool.description || '',
+        inputSchema: {
+          type: 'object' as const,
+          properties: (tool.inputSchema as any)?.properties ?? {},
+          required: (tool.inputSchema as any)?.required,
+        },
+        server: server.name,
+        ...(advertisedName !== tool.name && { originalName: tool.name }),
+        ...(this.toolRequiresApproval(server, tool.name) && { requiresApproval: true }),
+        execution: this.toolExecutionPolicy(server, tool.name),
+      });
+      this.toolToServer.set(advertisedName, { server: server.name, name: tool.name });
+    }
+  }
+
+  private qualifyToolName(serverName: string, toolName: string): string {
+    const namespace = serverName.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return `${namespace}${TOOL_NAMESPACE_SEPARATOR}${toolName}`;
+  }
+
+  /**
+   * Timeout/retry settings advertised for a tool: per-tool config over server defaults.
+   */
+  private toolExecutionPolicy(server: McpServer, toolName: string): ToolExecutionPolicy | undefined {
+    const config = { ...server.execution, ...server.toolExecution[toolName] };
+    const policy: ToolExecutionPolicy = {
+      timeoutMs: config.timeout_ms,
+      maxRetries: config.max_retries,
+      idempotent: config.idempotent,
+    };
+    return Object.values(policy).some(value => value !== undefined) ? policy : undefined;
+  }
+
+  private toolRequiresApproval(server: McpServer, toolName: string): boolean {
+    if (Array.isArray(server.requireApproval)) {
+      return server.requireApproval.includes(toolName);
+    }
+    return server.requireApproval === true;
+  }
+}
+
+// =============================================================================
+// Request Metadata
+// =============================================================================
+
+/**
+ * MCP request _meta describing the calling conversation, so servers can keep
+ * per-conversation working directories and logs. Keys use the "animachat/" prefix.
+ */
+function originMeta(origin: ToolCallOrigin): Record<string, string> {
+  const meta: Record<string, string> = {};
+  for (const [key, value] of Object.entries(origin)) {
+    if (value) meta[`animachat/${key}`] = value;
+  }
+  return meta;
+}
+
+// =============================================================================
+// Result Conversion
+// =============================================================================
+
+/** Text of a prompt message's content (images and binary resources become placeholders) */
+function promptContentText(content: { type: string; [key: string]: unknown }): string {
+  switch (content.type) {
+    case 'text':
+      return content.text as string;
+    case 'resource': {
+      const resource = content.resource as { uri: string; text?: string };
+      return resource.text ?? `[resource: ${resource.uri}]`;
     }
+    default:
+      return `[${content.type}]`;
+  }
+}
+
+/**
+ * Convert MCP content blocks to protocol result parts.
+ * Images and embedded resources are kept intact; unsupported blocks become text notes.
+ */
+function toResultParts(blocks: unknown[]): ToolResultContentPart[] {
+  const parts: ToolResultContentPart[] = [];
+  for (const raw of blocks) {
+    const block = raw as Record<string, any>;
+    switch (block.type) {
+      case 'text':
+        if (typeof block.text === 'string') parts.push({ type: 'text', text: block.text });
+        break;
+      case 'image':
+        parts.push({ type: 'image', mimeType: block.mimeType || 'image/png', data: block.data });
+        break;
+      case 'resource': {
+        const resource = block.resource || {};
+        parts.push({
+          type: 'resource',
+          uri: resource.uri || 'unknown',
+          mimeType: resource.mimeType,
+          text: typeof resource.text === 'string' ? resource.text : undefined,
+          data: typeof resource.blob === 'string' ? resource.blob : undefined,
+        });
+        break;
+      }
+      case 'resource_link':
+        parts.push({ type: 'text', text: `[resource: ${block.uri}]` });
+        break;
+      default:
+        parts.push({ type: 'text', text: `[unsupported ${block.type} content]` });
+    }
+  }
+  return parts;
+}
+
+/**
+ * Text-only results are sent as a single string, as before.
+ */
+function collapseTextParts(parts: ToolResultContentPart[]): ToolResultContent {
+  if (parts.every(part => part.type === 'text')) {
+    return parts.map(part => (part as { text: string }).text).join('\n') || '(empty result)';
   }
+  return parts;
 }
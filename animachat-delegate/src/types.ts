@@ -9,6 +9,29 @@ import { z } from 'zod';
 // Tool Definition
 // =============================================================================
 
+/**
+ * Joins namespace segments in qualified tool names (e.g. "filesystem__read_file").
+ * Provider APIs only accept [a-zA-Z0-9_-] in tool names, so "." can't be used.
+ */
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+/** Close code the server uses when the user disconnects us from the UI: don't reconnect */
+export const CLOSE_DISCONNECTED_BY_USER = 4001;
+
+/** Close code the server uses when another connection took over our delegate id: don't reconnect */
+export const CLOSE_SUPERSEDED = 4002;
+
+/**
+ * How the server should run a tool: per-attempt timeout, and how often an
+ * idempotent call may be re-sent after the delegate reconnects.
+ */
+export const ToolExecutionPolicySchema = z.object({
+  timeoutMs: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0).optional(),
+  // Safe to run again if the first attempt's outcome was lost
+  idempotent: z.boolean().optional(),
+});
+
 export const ToolDefinitionSchema = z.object({
   name: z.string(),
   description: z.string(),
@@ -17,10 +40,103 @@ export const ToolDefinitionSchema = z.object({
     properties: z.record(z.unknown()),
     required: z.array(z.string()).optional(),
   }),
+  // Delegate-side hint: the server must get human approval before each call
+  requiresApproval: z.boolean().optional(),
+  // Set when the advertised name was qualified: the MCP server's own tool name
+  originalName: z.string().optional(),
+  // The MCP server that provides this tool
+  server: z.string().optional(),
+  execution: ToolExecutionPolicySchema.optional(),
 });
 
+export type ToolExecutionPolicy = z.infer<typeof ToolExecutionPolicySchema>;
 export type ToolDefinition = z.infer<typeof ToolDefinitionSchema>;
 
+// =============================================================================
+// Tool Results
+// =============================================================================
+
+/**
+ * Structured tool result content. Results that are plain text are sent as a
+ * string; results with images or embedded resources are sent as a list of parts.
+ * Binary data is base64-encoded.
+ */
+export const ToolResultContentPartSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal('image'),
+    mimeType: z.string(),
+    data: z.string(),
+  }),
+  z.object({
+    type: z.literal('resource'),
+    uri: z.string(),
+    mimeType: z.string().optional(),
+    // Exactly one of text (text resources) or data (binary resources, base64)
+    text: z.string().optional(),
+    data: z.string().optional(),
+  }),
+]);
+
+export type ToolResultContentPart = z.infer<typeof ToolResultContentPartSchema>;
+export type ToolResultContent = string | ToolResultContentPart[];
+
+/** Progress of a running tool call (from MCP progress notifications) */
+export interface ToolCallProgress {
+  /** Latest status or partial output from the tool */
+  message?: string;
+  /** 0-100, when the MCP server reports a total */
+  percentage?: number;
+}
+
+// =============================================================================
+// Resources and Prompts
+// =============================================================================
+
+/** A resource listed by an MCP server, advertised so users can attach it to messages */
+export const ResourceDefinitionSchema = z.object({
+  uri: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+  // The MCP server that provides this resource
+  server: z.string(),
+});
+
+/** A prompt template listed by an MCP server */
+export const PromptDefinitionSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  arguments: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+  })).default([]),
+  server: z.string(),
+});
+
+/** Contents of a resource that was read: text, or base64 data for binary resources */
+export const ResourceContentSchema = z.object({
+  uri: z.string(),
+  mimeType: z.string().optional(),
+  text: z.string().optional(),
+  data: z.string().optional(),
+});
+
+/** A rendered prompt message (non-text content is flattened to text) */
+export const PromptMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  text: z.string(),
+});
+
+export type ResourceDefinition = z.infer<typeof ResourceDefinitionSchema>;
+export type PromptDefinition = z.infer<typeof PromptDefinitionSchema>;
+export type ResourceContent = z.infer<typeof ResourceContentSchema>;
+export type PromptMessage = z.infer<typeof PromptMessageSchema>;
+
 // =============================================================================
 // Server → Delegate Messages
 // =============================================================================
@@ -36,8 +152,12 @@ export const DelegateAuthResultSchema = z.object({
 export const ToolCallRequestSchema = z.object({
   type: z.literal('tool_call_request'),
   requestId: z.string(),
+  // Where the call comes from (forwarded to MCP servers in the request _meta)
   conversationId: z.string(),
   messageId: z.string().optional(),
+  branchId: z.string().optional(),
+  participantId: z.string().optional(),
+  triggeredByUserId: z.string().optional(),
   tool: z.object({
     id: z.string(),
     name: z.string(),
@@ -46,6 +166,29 @@ export const ToolCallRequestSchema = z.object({
   timeout: z.number().default(30000),
 });
 
+export const ToolCallCancelSchema = z.object({
+  type: z.literal('tool_call_cancel'),
+  requestId: z.string(),
+  reason: z.string().optional(),
+});
+
+// Read a resource from one of our MCP servers (a user is attaching it to a message)
+export const ResourceReadRequestSchema = z.object({
+  type: z.literal('resource_read_request'),
+  requestId: z.string(),
+  server: z.string(),
+  uri: z.string(),
+});
+
+// Render a prompt template from one of our MCP servers
+export const PromptGetRequestSchema = z.object({
+  type: z.literal('prompt_get_request'),
+  requestId: z.string(),
+  server: z.string(),
+  name: z.string(),
+  arguments: z.record(z.string()).default({}),
+});
+
 export const TriggerInferenceResultSchema = z.object({
   type: z.literal('trigger_inference_result'),
   triggerId: z.string(),
@@ -54,6 +197,10 @@ export const TriggerInferenceResultSchema = z.object({
   messageId: z.string().optional(),
   response: z.string().optional(),
   error: z.string().optional(),
+  // A redelivery of an earlier webhook, answered with that one's result
+  duplicate: z.boolean().optional(),
+  // Debounced into a later trigger, which reports the shared result
+  coalescedInto: z.string().optional(),
 });
 
 export const PongSchema = z.object({
@@ -71,6 +218,9 @@ export const ToolManifestAckSchema = z.object({
 export const ServerMessageSchema = z.discriminatedUnion('type', [
   DelegateAuthResultSchema,
   ToolCallRequestSchema,
+  ToolCallCancelSchema,
+  ResourceReadRequestSchema,
+  PromptGetRequestSchema,
   TriggerInferenceResultSchema,
   PongSchema,
   ToolManifestAckSchema,
@@ -78,6 +228,9 @@ export const ServerMessageSchema = z.discriminatedUnion('type', [
 
 export type DelegateAuthResult = z.infer<typeof DelegateAuthResultSchema>;
 export type ToolCallRequest = z.infer<typeof ToolCallRequestSchema>;
+export type ToolCallCancel = z.infer<typeof ToolCallCancelSchema>;
+export type ResourceReadRequest = z.infer<typeof ResourceReadRequestSchema>;
+export type PromptGetRequest = z.infer<typeof PromptGetRequestSchema>;
 export type TriggerInferenceResult = z.infer<typeof TriggerInferenceResultSchema>;
 export type ServerMessage = z.infer<typeof ServerMessageSchema>;
 
@@ -85,19 +238,105 @@ export type ServerMessage = z.infer<typeof ServerMessageSchema>;
 // Config Schema
 // =============================================================================
 
+// Execution settings for a tool (or, at server level, defaults for all its tools)
+export const ToolExecutionConfigSchema = z.object({
+  timeout_ms: z.number().int().positive().optional(),
+  max_retries: z.number().int().min(0).optional(),
+  idempotent: z.boolean().optional(),
+});
+
 export const McpServerConfigSchema = z.object({
   name: z.string(),
-  command: z.string(),
+  // Local server: spawned as a subprocess, spoken to over stdio
+  command: z.string().optional(),
   args: z.array(z.string()).default([]),
   env: z.record(z.string()).optional(),
+  // Remote server: reached over Streamable HTTP (default) or the older SSE transport
+  url: z.string().url().optional(),
+  transport: z.enum(['http', 'sse']).optional(),
+  headers: z.record(z.string()).optional(),
+  // Environment variable holding a bearer token for the remote server
+  token_env: z.string().optional(),
+  // true = every tool from this server needs approval, or a list of tool names
+  require_approval: z.union([z.boolean(), z.array(z.string())]).optional(),
+  // Defaults for every tool from this server...
+  ...ToolExecutionConfigSchema.shape,
+  // ...overridden per tool, keyed by the MCP tool name
+  tools: z.record(ToolExecutionConfigSchema).optional(),
+}).refine(config => !config.command !== !config.url, {
+  message: 'Set either command (local server) or url (remote server)',
+});
+
+// Fields to pull out of the webhook payload: name -> JSONPath-style path ($.pull_request.title)
+const WebhookFieldMapSchema = z.record(z.string());
+
+export const WebhookRuleSchema = z.object({
+  // Events this rule handles, as "event" or "event.action" (pull_request.opened); any when absent
+  events: z.array(z.string()).optional(),
+  // Branch globs (release/*) matched against the pushed branch or the PR/MR target branch
+  branches: z.array(z.string()).optional(),
+  // Extra fields and the trigger message for events this rule handles
+  fields: WebhookFieldMapSchema.optional(),
+  template: z.string().optional(),
+  // Where events this rule handles go, overriding the endpoint's
+  responder: z.string().optional(),
+  speaker: z.string().optional(),
+  bookmark: z.string().optional(),
+});
+
+// Generic HMAC signature check: HMAC of the raw body with the endpoint secret, sent in a header
+export const WebhookSignatureSchema = z.object({
+  header: z.string(), // e.g. X-Signature
+  algorithm: z.enum(['sha1', 'sha256', 'sha512']).default('sha256'),
+  encoding: z.enum(['hex', 'base64']).default('hex'),
+  prefix: z.string().default(''), // e.g. "sha256="
+});
+
+// Where to post the model's response to a webhook trigger
+export const WebhookReplySchema = z.object({
+  // comment: on the PR/MR (or pushed commit); status: commit status; slack: Slack message
+  type: z.enum(['comment', 'status', 'slack']),
+  // Environment variable holding the API token (slack: a bot token for chat.postMessage;
+  // without one the slash command's response_url is used)
+  token_env: z.string().optional(),
+  // API base URL, when it can't be derived from the payload
+  api_url: z.string().optional(),
+  // Text to post; {{response}} is the model's reply (default: the reply as is)
+  template: z.string().optional(),
+  // status: name of the check shown on the commit
+  context: z.string().default('animachat'),
+  // slack: channel to post to (default: the slash command's channel)
+  channel: z.string().optional(),
 });
 
 export const WebhookEndpointSchema = z.object({
+  // gitlab, github, gitea, forgejo, bitbucket, slack, or any name for a generic endpoint
   source: z.string(),
   path: z.string(),
   secret: z.string().optional(),
+  // Verify with this scheme instead of the source's built-in one (required for generic sources)
+  signature: WebhookSignatureSchema.optional(),
+  // Accept requests without a secret to check them against
+  allow_unsigned: z.boolean().default(false),
   conversation_id: z.string().optional(),
   participant_id: z.string().optional(),
+  // Assistant participant (name or id) that responds; overrides participant_id
+  responder: z.string().optional(),
+  // User participant (name or id) the event is posted as, e.g. a "GitLab" participant
+  speaker: z.string().optional(),
+  // Post under the branch with this bookmark (label or id), or under this branch id,
+  // instead of at the end of the conversation's active path
+  bookmark: z.string().optional(),
+  parent_branch_id: z.string().optional(),
+  // Defaults for all rules (or all events when there are no rules)
+  fields: WebhookFieldMapSchema.default({}),
+  template: z.string().optional(),
+  // The first matching rule handles an event; events no rule matches are ignored
+  rules: z.array(WebhookRuleSchema).optional(),
+  // Post the model's response back to where the event came from
+  reply: z.array(WebhookReplySchema).default([]),
+  // Coalesce events arriving within this many seconds into one message
+  debounce_seconds: z.number().min(0).max(300).optional(),
 });
 
 export const DelegateConfigSchema = z.object({
@@ -108,6 +347,9 @@ export const DelegateConfigSchema = z.object({
   delegate: z.object({
     id: z.string(),
     capabilities: z.array(z.string()).default(['mcp_host']),
+    // Prefix tools with their MCP server name here and with the delegate id on the server,
+    // e.g. "laptop__filesystem__read_file". Use when several delegates expose the same tools.
+    namespace_tools: z.boolean().default(false),
   }),
   mcp_servers: z.array(McpServerConfigSchema).default([]),
   webhooks: z.object({
@@ -117,6 +359,10 @@ export const DelegateConfigSchema = z.object({
   }).default({ enabled: false, port: 8080, endpoints: [] }),
 });
 
+export type ToolExecutionConfig = z.infer<typeof ToolExecutionConfigSchema>;
 export type McpServerConfig = z.infer<typeof McpServerConfigSchema>;
+export type WebhookSignature = z.infer<typeof WebhookSignatureSchema>;
+export type WebhookReply = z.infer<typeof WebhookReplySchema>;
+export type WebhookRule = z.infer<typeof WebhookRuleSchema>;
 export type WebhookEndpoint = z.infer<typeof WebhookEndpointSchema>;
 export type DelegateConfig = z.infer<typeof DelegateConfigSchema>;
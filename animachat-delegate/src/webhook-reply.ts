@@ -0,0 +1,288 @@
+/**
+ * Webhook Replies
+ *
+ * Posts the model's response to a webhook trigger back where the event came
+ * from: a comment on the pull/merge request (or pushed commit), a commit
+ * status, or a Slack message.
+ *
+ * Targets (repository, PR number, commit) are read from the original payload.
+ * Self-hosted GitLab/Gitea/Forgejo API URLs are derived from the repository URL
+ * unless api_url is set. Since the payload then decides where the token goes,
+ * such replies are refused on unsigned endpoints (see payloadChosenDestination).
+ */
+
+import type { WebhookReply } from './types.js';
+import { pick } from './webhook-template.js';
+
+const GITHUB_API_URL = 'https://api.github.com';
+const BITBUCKET_API_URL = 'https://api.bitbucket.org/2.0';
+const SLACK_API_URL = 'https://slack.com/api';
+
+/** GitHub rejects longer status descriptions */
+const MAX_STATUS_DESCRIPTION = 140;
+
+export type ReplyStatus = 'pending' | 'success' | 'error';
+
+/** The event a reply belongs to */
+export interface ReplyTarget {
+  source: string;
+  payload: Record<string, unknown>;
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+/**
+ * Post text as a comment: on the pull/merge request, or on the pushed commit.
+ */
+export async function postComment(reply: WebhookReply, target: ReplyTarget, text: string): Promise<void> {
+  const token = requireToken(reply);
+  const { source, payload } = target;
+
+  switch (source) {
+    case 'github':
+    case 'gitea':
+    case 'forgejo': {
+      const api = apiUrl(reply, target);
+      const repo = pick(payload, 'repository', 'full_name');
+      const number = pick(payload, 'pull_request', 'number') ?? pick(payload, 'issue', 'number');
+      if (number !== undefined) {
+        await request('POST', `${api}/repos/${repo}/issues/${number}/comments`, authHeaders(source, token), { body: text });
+        return;
+      }
+      if (source === 'github' && typeof payload.after === 'string') {
+        await request('POST', `${api}/repos/${repo}/commits/${payload.after}/comments`, authHeaders(source, token), { body: text });
+        return;
+      }
+      break;
+    }
+
+    case 'gitlab': {
+      const api = apiUrl(reply, target);
+      const projectId = pick(payload, 'project', 'id');
+      const mrIid = pick(payload, 'object_attributes', 'iid');
+      if (payload.object_kind === 'merge_request' && mrIid !== undefined) {
+        await request('POST', `${api}/projects/${projectId}/merge_requests/${mrIid}/notes`, authHeaders(source, token), { body: text });
+        return;
+      }
+      const sha = commitSha(target);
+      if (sha) {
+        await request('POST', `${api}/projects/${projectId}/repository/commits/${sha}/comments`, authHeaders(source, token), { note: text });
+        return;
+      }
+      break;
+    }
+
+    case 'bitbucket': {
+      const api = apiUrl(reply, target);
+      const repo = pick(payload, 'repository', 'full_name');
+      const prId = pick(payload, 'pullrequest', 'id');
+      const path = prId !== undefined
+        ? `pullrequests/${prId}/comments`
+        : commitSha(target) ? `commit/${commitSha(target)}/comments` : undefined;
+      if (path) {
+        await request('POST', `${api}/repositories/${repo}/${path}`, authHeaders(source, token), { content: { raw: text } });
+        return;
+      }
+      break;
+    }
+  }
+
+  throw new Error(`Nothing to comment on for this ${source} event`);
+}
+
+/**
+ * Set a commit status on the pushed commit or the pull/merge request's head.
+ */
+export async function setCommitStatus(
+  reply: WebhookReply,
+  target: ReplyTarget,
+  status: ReplyStatus,
+  description: string
+): Promise<void> {
+  const token = requireToken(reply);
+  const { source, payload } = target;
+  const sha = commitSha(target);
+  if (!sha) {
+    throw new Error(`No commit to set a status on for this ${source} event`);
+  }
+  description = firstLine(description, MAX_STATUS_DESCRIPTION);
+
+  switch (source) {
+    case 'github':
+    case 'gitea':
+    case 'forgejo': {
+      const repo = pick(payload, 'repository', 'full_name');
+      await request('POST', `${apiUrl(reply, target)}/repos/${repo}/statuses/${sha}`, authHeaders(source, token), {
+        state: status,
+        description,
+        context: reply.context,
+      });
+      return;
+    }
+
+    case 'gitlab': {
+      const projectId = pick(payload, 'project', 'id');
+      const states: Record<ReplyStatus, string> = { pending: 'running', success: 'success', error: 'failed' };
+      await request('POST', `${apiUrl(reply, target)}/projects/${projectId}/statuses/${sha}`, authHeaders(source, token), {
+        state: states[status],
+        name: reply.context,
+        description,
+      });
+      return;
+    }
+
+    case 'bitbucket': {
+      const repo = pick(payload, 'repository', 'full_name');
+      const states: Record<ReplyStatus, string> = { pending: 'INPROGRESS', success: 'SUCCESSFUL', error: 'FAILED' };
+      await request('POST', `${apiUrl(reply, target)}/repositories/${repo}/commit/${sha}/statuses/build`, authHeaders(source, token), {
+        key: reply.context,
+        name: reply.context,
+        state: states[status],
+        description,
+        // Required by Bitbucket; link to the repository
+        url: pick(payload, 'repository', 'links', 'html', 'href'),
+      });
+      return;
+    }
+  }
+
+  throw new Error(`Commit statuses are not supported for ${source}`);
+}
+
+/**
+ * Post text to Slack: with a bot token to a channel (chat.postMessage),
+ * or otherwise to the slash command's response_url.
+ */
+export async function postSlackMessage(reply: WebhookReply, target: ReplyTarget, text: string): Promise<void> {
+  const { payload } = target;
+
+  if (reply.token_env) {
+    const channel = reply.channel ?? payload.channel_id;
+    if (!channel) {
+      throw new Error('No Slack channel to post to (set channel)');
+    }
+    const result = await request('POST', `${SLACK_API_URL}/chat.postMessage`, { Authorization: `Bearer ${requireToken(reply)}` }, {
+      channel,
+      text,
+    }) as { ok?: boolean; error?: string };
+    // Slack answers 200 with ok: false on errors
+    if (!result?.ok) {
+      throw new Error(`Slack chat.postMessage failed: ${result?.error || 'unknown error'}`);
+    }
+    return;
+  }
+
+  if (typeof payload.response_url !== 'string') {
+    throw new Error('No response_url in the Slack payload (set token_env and channel to post with a bot token)');
+  }
+  await request('POST', payload.response_url, {}, { response_type: 'in_channel', text });
+}
+
+/**
+ * Where a reply goes when the payload decides it (a self-hosted API host, a
+ * Slack response_url or channel), or undefined when the configuration fixes it.
+ * Unsigned requests must not choose where tokens and responses are sent.
+ */
+export function payloadChosenDestination(reply: WebhookReply, source: string): string | undefined {
+  if (reply.type === 'slack') {
+    if (!reply.token_env) return 'the response_url in the payload';
+    return reply.channel ? undefined : 'the channel_id in the payload';
+  }
+  if (reply.api_url || source === 'github' || source === 'bitbucket') return undefined;
+  return source === 'gitlab'
+    ? 'the host of project.web_url in the payload'
+    : 'the host of repository.html_url in the payload';
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function requireToken(reply: WebhookReply): string {
+  const token = reply.token_env ? process.env[reply.token_env] : undefined;
+  if (!token) {
+    throw new Error(reply.token_env ? `Environment variable ${reply.token_env} is not set` : 'token_env is required');
+  }
+  return token;
+}
+
+function authHeaders(source: string, token: string): Record<string, string> {
+  switch (source) {
+    case 'gitlab':
+      return { 'PRIVATE-TOKEN': token };
+    case 'gitea':
+    case 'forgejo':
+      return { Authorization: `token ${token}` };
+    case 'github':
+      return { Authorization: `Bearer ${token}`, Accept: 'application/vnd.github+json' };
+    default:
+      return { Authorization: `Bearer ${token}` };
+  }
+}
+
+function apiUrl(reply: WebhookReply, target: ReplyTarget): string {
+  if (reply.api_url) return reply.api_url.replace(/\/+$/, '');
+
+  const { source, payload } = target;
+  switch (source) {
+    case 'github':
+      return GITHUB_API_URL;
+    case 'bitbucket':
+      return BITBUCKET_API_URL;
+    case 'gitlab':
+      return `${originOf(pick(payload, 'project', 'web_url'))}/api/v4`;
+    default:
+      return `${originOf(pick(payload, 'repository', 'html_url'))}/api/v1`;
+  }
+}
+
+function originOf(url: unknown): string {
+  if (typeof url !== 'string') {
+    throw new Error('Cannot derive the API URL from the payload (set api_url)');
+  }
+  return new URL(url).origin;
+}
+
+/** The pushed commit, or the head commit of the pull/merge request */
+function commitSha(target: ReplyTarget): string | undefined {
+  const { payload } = target;
+  const sha =
+    pick(payload, 'pull_request', 'head', 'sha') ??
+    pick(payload, 'object_attributes', 'last_commit', 'id') ??
+    pick(payload, 'pullrequest', 'source', 'commit', 'hash') ??
+    pick((pick(payload, 'push', 'changes') as unknown[] | undefined)?.[0], 'new', 'target', 'hash') ??
+    payload.checkout_sha ??
+    payload.after;
+  // A deleted branch reports an all-zero "after" commit
+  return typeof sha === 'string' && !/^0+$/.test(sha) ? sha : undefined;
+}
+
+/** First non-empty line, cut to max characters */
+function firstLine(text: string, max: number): string {
+  const line = text.split('\n').find(l => l.trim()) ?? '';
+  return line.length > max ? `${line.slice(0, max - 1)}…` : line;
+}
+
+async function request(
+  method: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown
+): Promise<unknown> {
+  const response = await fetch(url, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'User-Agent': 'animachat-delegate', ...headers },
+    body: JSON.stringify(body),
+  });
+  const text = await response.text();
+  if (!response.ok) {
+    throw new Error(`${method} ${new URL(url).pathname} failed: ${response.status} ${text.slice(0, 200)}`);
+  }
+  try {
+    return text ? JSON.parse(text) : undefined;
+  } catch {
+    return text;
+  }
+}
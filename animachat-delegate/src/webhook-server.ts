@@ -1,25 +1,98 @@
 /**
  * Webhook Server
  *
- * Express HTTP server that receives external events (GitLab, GitHub, etc.)
- * and forwards them as trigger_inference messages to the Animachat server.
+ * Express HTTP server that receives external events (GitLab, GitHub, Gitea/Forgejo,
+ * Bitbucket, Slack slash commands, etc.) and forwards them as trigger_inference
+ * messages to the Animachat server.
  */
 
 import express from 'express';
+import type { IncomingMessage } from 'http';
 import { createHmac, timingSafeEqual } from 'crypto';
 import { randomUUID } from 'crypto';
 import type { DelegateConnection } from './connection.js';
-import type { WebhookEndpoint } from './types.js';
+import type { TriggerInferenceResult, WebhookEndpoint, WebhookReply, WebhookSignature } from './types.js';
+import {
+  postComment,
+  postSlackMessage,
+  setCommitStatus,
+  payloadChosenDestination,
+  type ReplyTarget,
+} from './webhook-reply.js';
+import {
+  compileTemplate,
+  extractFields,
+  parseFieldMap,
+  pick,
+  type CompiledTemplate,
+  type ParsedPath,
+} from './webhook-template.js';
+
+/** Sources with a built-in payload parser and signature check */
+const KNOWN_SOURCES = ['gitlab', 'github', 'gitea', 'forgejo', 'bitbucket', 'slack'];
+
+/** Slack requests older than this are rejected (replay protection) */
+const SLACK_MAX_AGE_SECONDS = 5 * 60;
+
+/** How long to wait for a trigger's result before giving up on its replies */
+const REPLY_TIMEOUT_MS = 30 * 60 * 1000;
+
+/** Headers identifying a delivery, the same when the sender retries it (first one present wins) */
+const DELIVERY_ID_HEADERS = [
+  'x-github-delivery',
+  'x-forgejo-delivery',
+  'x-gitea-delivery',
+  'x-gitlab-event-uuid',
+  'x-request-uuid', // Bitbucket
+  'webhook-id', // Standard Webhooks
+];
 
 // =============================================================================
 // Types
 // =============================================================================
 
+/** Request with the unparsed body kept for signature checks */
+interface RawBodyRequest extends IncomingMessage {
+  rawBody?: Buffer;
+}
+
 interface ParsedPayload {
+  /** Normalized event name (push, pull_request, merge_request, ...) */
+  event: string;
+  action?: string;
+  /** Pushed branch, or the target branch of a pull/merge request */
+  branch?: string;
   context: Record<string, unknown>;
+  /** Built-in trigger message, used when no template is configured */
   systemMessage: string;
 }
 
+/** An endpoint rule with its paths and template parsed */
+interface CompiledRule {
+  events?: string[];
+  branches?: RegExp[];
+  fields: Map<string, ParsedPath>;
+  template?: CompiledTemplate;
+  responder?: string;
+  speaker?: string;
+  bookmark?: string;
+}
+
+/** A reply action with its template parsed */
+interface CompiledReply {
+  reply: WebhookReply;
+  template?: CompiledTemplate;
+}
+
+/** A forwarded trigger whose result will be posted back */
+interface PendingReply {
+  endpoint: WebhookEndpoint;
+  replies: CompiledReply[];
+  target: ReplyTarget;
+  variables: Record<string, unknown>;
+  timeout: ReturnType<typeof setTimeout>;
+}
+
 // =============================================================================
 // WebhookServer
 // =============================================================================
@@ -28,12 +101,22 @@ export class WebhookServer {
   private app: express.Application;
   private httpServer: ReturnType<typeof this.app.listen> | null = null;
   private connection: DelegateConnection;
+  /** Triggers waiting for their result, keyed by triggerId */
+  private pendingReplies: Map<string, PendingReply> = new Map();
 
   constructor(connection: DelegateConnection) {
     this.connection = connection;
+    this.connection.on('trigger_inference_result', (msg) => {
+      if (msg.type === 'trigger_inference_result') this.handleTriggerResult(msg);
+    });
     this.app = express();
-    this.app.use(express.json({ limit: '1mb' }));
-    this.app.use(express.text({ type: 'text/*', limit: '1mb' }));
+    // Signatures are computed over the exact bytes received
+    const keepRawBody = (req: IncomingMessage, _res: unknown, buf: Buffer) => {
+      (req as RawBodyRequest).rawBody = buf;
+    };
+    this.app.use(express.json({ limit: '1mb', verify: keepRawBody }));
+    this.app.use(express.urlencoded({ extended: false, limit: '1mb', verify: keepRawBody }));
+    this.app.use(express.text({ type: 'text/*', limit: '1mb', verify: keepRawBody }));
   }
 
   /**
@@ -62,6 +145,8 @@ export class WebhookServer {
    * Stop the webhook server.
    */
   stop(): void {
+    for (const pending of this.pendingReplies.values()) clearTimeout(pending.timeout);
+    this.pendingReplies.clear();
     if (this.httpServer) {
       this.httpServer.close();
       this.httpServer = null;
@@ -74,13 +159,33 @@ export class WebhookServer {
   // --------------------------------------------------------------------------
 
   private registerEndpoint(endpoint: WebhookEndpoint): void {
+    const rules = compileRules(endpoint);
+    const replies = compileReplies(endpoint);
+
+    // Anyone can send an unsigned request, so it must not pick where replies go
+    if (!endpoint.secret && endpoint.allow_unsigned) {
+      for (const reply of endpoint.reply) {
+        const destination = payloadChosenDestination(reply, endpoint.source);
+        if (destination) {
+          const fix = reply.type === 'slack' ? 'token_env and channel' : 'api_url';
+          throw new Error(`Webhook ${endpoint.path}: the ${reply.type} reply would go to ${destination}, which unsigned requests control; set a secret or ${fix}`);
+        }
+      }
+    }
+
+    if (!endpoint.secret && !endpoint.allow_unsigned) {
+      console.warn(`[Webhooks] ${endpoint.path} has no secret and will reject every request (set allow_unsigned: true to accept unsigned requests)`);
+    } else if (endpoint.secret && !endpoint.signature && !KNOWN_SOURCES.includes(endpoint.source)) {
+      console.warn(`[Webhooks] ${endpoint.path}: source "${endpoint.source}" has no built-in signature check; configure "signature" or every request is rejected`);
+    }
+
     this.app.post(endpoint.path, (req, res) => {
       // Signature verification
       if (endpoint.secret) {
         const valid = this.verifySignature(
-          endpoint.source,
+          endpoint,
           endpoint.secret,
-          typeof req.body === 'string' ? req.body : JSON.stringify(req.body),
+          (req as RawBodyRequest).rawBody ?? Buffer.alloc(0),
           req.headers as Record<string, string>
         );
         if (!valid) {
@@ -88,12 +193,9 @@ export class WebhookServer {
           res.status(401).json({ error: 'Invalid signature' });
           return;
         }
-      }
-
-      // Check if delegate is connected
-      if (!this.connection.isConnected) {
-        console.warn(`[Webhooks] Received ${endpoint.source} event but not connected to server`);
-        res.status(503).json({ error: 'Delegate not connected' });
+      } else if (!endpoint.allow_unsigned) {
+        console.warn(`[Webhooks] Rejected unsigned ${endpoint.source} request to ${endpoint.path}`);
+        res.status(401).json({ error: 'Endpoint has no secret configured' });
         return;
       }
 
@@ -105,6 +207,34 @@ export class WebhookServer {
         req.headers as Record<string, string>
       );
 
+      // Pick the rule that handles this event
+      const rule = rules.find(r => matchesRule(r, parsed));
+      if (!rule) {
+        const eventName = parsed.action ? `${parsed.event}.${parsed.action}` : parsed.event;
+        console.log(`[Webhooks] Ignored ${endpoint.source} ${eventName}${parsed.branch ? ` on ${parsed.branch}` : ''}: no matching rule`);
+        this.respond(res, endpoint, { accepted: false, ignored: true }, `Nothing is set up for ${eventName}.`);
+        return;
+      }
+
+      // Check if delegate is connected
+      if (!this.connection.isConnected) {
+        console.warn(`[Webhooks] Received ${endpoint.source} event but not connected to server`);
+        res.status(503).json({ error: 'Delegate not connected' });
+        return;
+      }
+
+      // Configured fields are added to the context and available to the template
+      const context = { ...parsed.context, ...extractFields(body, rule.fields) };
+      const variables = {
+        ...context,
+        source: endpoint.source,
+        event: parsed.event,
+        action: parsed.action,
+        branch: parsed.branch,
+        payload: body,
+      };
+      const systemMessage = rule.template ? rule.template(variables) : parsed.systemMessage;
+
       // Send trigger
       const triggerId = randomUUID();
       this.connection.sendTriggerInference({
@@ -112,15 +242,112 @@ export class WebhookServer {
         source: `${endpoint.source}_webhook`,
         conversationId: endpoint.conversation_id,
         participantId: endpoint.participant_id,
-        context: parsed.context,
-        systemMessage: parsed.systemMessage,
+        context,
+        systemMessage,
+        deliveryId: deliveryIdOf(req.headers as Record<string, string>),
+        debounceSeconds: endpoint.debounce_seconds,
+        responder: rule.responder,
+        speaker: rule.speaker,
+        bookmark: rule.bookmark,
+        // A rule's bookmark takes the place of the endpoint's branch
+        parentBranchId: rule.bookmark ? undefined : endpoint.parent_branch_id,
       });
 
       console.log(`[Webhooks] Forwarded ${endpoint.source} event as trigger ${triggerId}`);
-      res.json({ accepted: true, triggerId });
+      this.respond(res, endpoint, { accepted: true, triggerId }, 'Sent to Animachat.');
+
+      if (replies.length > 0) {
+        this.awaitReplies(triggerId, {
+          endpoint,
+          replies,
+          target: { source: endpoint.source, payload: body },
+          variables,
+        });
+      }
     });
   }
 
+  // --------------------------------------------------------------------------
+  // Replies
+  // --------------------------------------------------------------------------
+
+  /**
+   * Remember a trigger's reply actions until its result arrives,
+   * and mark commit statuses as pending meanwhile.
+   */
+  private awaitReplies(triggerId: string, pending: Omit<PendingReply, 'timeout'>): void {
+    const timeout = setTimeout(() => {
+      this.handleTriggerResult({
+        type: 'trigger_inference_result',
+        triggerId,
+        success: false,
+        error: 'No response in time',
+      });
+    }, REPLY_TIMEOUT_MS);
+    this.pendingReplies.set(triggerId, { ...pending, timeout });
+
+    for (const { reply } of pending.replies) {
+      if (reply.type !== 'status') continue;
+      setCommitStatus(reply, pending.target, 'pending', 'Waiting for the model')
+        .catch(error => console.error(`[Webhooks] Setting pending status for ${triggerId} failed:`, error instanceof Error ? error.message : error));
+    }
+  }
+
+  /**
+   * Post a trigger's result with each of its endpoint's reply actions.
+   * Comments and Slack messages are only posted for successful responses,
+   * and only once: not for redeliveries or triggers coalesced into another.
+   */
+  private handleTriggerResult(result: TriggerInferenceResult): void {
+    const pending = this.pendingReplies.get(result.triggerId);
+    if (!pending) return;
+    clearTimeout(pending.timeout);
+    this.pendingReplies.delete(result.triggerId);
+
+    const response = result.response ?? '';
+    for (const { reply, template } of pending.replies) {
+      let action: Promise<void>;
+      if (reply.type === 'status') {
+        action = result.success
+          ? setCommitStatus(reply, pending.target, 'success', response || 'Done')
+          : setCommitStatus(reply, pending.target, 'error', result.error || 'Failed');
+      } else if (!result.success || !response) {
+        console.warn(`[Webhooks] No ${reply.type} reply for ${result.triggerId}: ${result.error || 'empty response'}`);
+        continue;
+      } else if (result.duplicate || result.coalescedInto) {
+        const reason = result.duplicate ? 'redelivery' : `coalesced into ${result.coalescedInto}`;
+        console.log(`[Webhooks] No ${reply.type} reply for ${result.triggerId} (${reason})`);
+        continue;
+      } else {
+        const text = template ? template({ ...pending.variables, response }) : response;
+        action = reply.type === 'slack'
+          ? postSlackMessage(reply, pending.target, text)
+          : postComment(reply, pending.target, text);
+      }
+
+      action
+        .then(() => console.log(`[Webhooks] Posted ${reply.type} reply for ${result.triggerId} (${pending.endpoint.source})`))
+        .catch(error => console.error(`[Webhooks] ${reply.type} reply for ${result.triggerId} failed:`, error instanceof Error ? error.message : error));
+    }
+  }
+
+  /**
+   * Answer the webhook. Slack shows the response to the user who ran the
+   * slash command, so it gets a short message instead of the raw result.
+   */
+  private respond(
+    res: express.Response,
+    endpoint: WebhookEndpoint,
+    result: Record<string, unknown>,
+    summary: string
+  ): void {
+    if (endpoint.source === 'slack') {
+      res.json({ response_type: 'ephemeral', text: summary });
+      return;
+    }
+    res.json(result);
+  }
+
   private parsePayload(
     source: string,
     body: Record<string, unknown>,
@@ -130,7 +357,17 @@ export class WebhookServer {
       case 'gitlab':
         return this.parseGitLabPayload(body, headers);
       case 'github':
-        return this.parseGitHubPayload(body, headers);
+        return this.parseGitHubPayload('GitHub', headers['x-github-event'] || 'unknown', body);
+      case 'gitea':
+      case 'forgejo': {
+        // Forgejo sends both header families; older Gitea and Gogs only their own
+        const eventType = headers['x-forgejo-event'] || headers['x-gitea-event'] || headers['x-gogs-event'] || 'unknown';
+        return this.parseGitHubPayload(source === 'forgejo' ? 'Forgejo' : 'Gitea', eventType, body);
+      }
+      case 'bitbucket':
+        return this.parseBitbucketPayload(body, headers);
+      case 'slack':
+        return this.parseSlackPayload(body);
       default:
         return this.parseGenericPayload(source, body);
     }
@@ -141,6 +378,8 @@ export class WebhookServer {
     headers: Record<string, string>
   ): ParsedPayload {
     const eventType = headers['x-gitlab-event'] || 'unknown';
+    // "Merge Request Hook" -> merge_request
+    const event = eventType.replace(/ Hook$/, '').toLowerCase().replace(/ /g, '_');
     const project = body.project as Record<string, unknown> | undefined;
     const projectName = project?.name || 'unknown';
 
@@ -155,6 +394,8 @@ export class WebhookServer {
       }));
 
       return {
+        event,
+        branch: ref,
         context: {
           event: 'push',
           project: projectName,
@@ -173,6 +414,9 @@ export class WebhookServer {
     if (eventType === 'Merge Request Hook') {
       const attrs = body.object_attributes as Record<string, unknown> || {};
       return {
+        event,
+        action: attrs.action as string | undefined,
+        branch: attrs.target_branch as string | undefined,
         context: {
           event: 'merge_request',
           project: projectName,
@@ -194,18 +438,23 @@ export class WebhookServer {
 
     // Fallback
     return {
+      event,
       context: { event: eventType, project: projectName, raw: body },
       systemMessage: `GitLab ${eventType} in ${projectName}. Analyze and respond.`,
     };
   }
 
+  /**
+   * GitHub payloads, and Gitea/Forgejo ones (which follow the same format).
+   */
   private parseGitHubPayload(
-    body: Record<string, unknown>,
-    headers: Record<string, string>
+    label: string,
+    eventType: string,
+    body: Record<string, unknown>
   ): ParsedPayload {
-    const eventType = headers['x-github-event'] || 'unknown';
     const repo = body.repository as Record<string, unknown> | undefined;
     const repoName = (repo?.full_name as string) || 'unknown';
+    const action = typeof body.action === 'string' ? body.action : undefined;
 
     // Push event
     if (eventType === 'push') {
@@ -218,15 +467,18 @@ export class WebhookServer {
       }));
 
       return {
+        event: eventType,
+        branch: ref,
         context: {
           event: 'push',
           repo: repoName,
           branch: ref,
           commits: commitSummaries,
-          pusher: (body.pusher as Record<string, unknown>)?.name || 'unknown',
+          // GitHub names the pusher, Gitea/Forgejo give their login
+          pusher: pick(body, 'pusher', 'name') || pick(body, 'pusher', 'login') || 'unknown',
         },
         systemMessage:
-          `GitHub push: ${commits.length} commit(s) to ${ref} in ${repoName}. ` +
+          `${label} push: ${commits.length} commit(s) to ${ref} in ${repoName}. ` +
           `Review the changes and provide feedback.`,
       };
     }
@@ -237,6 +489,9 @@ export class WebhookServer {
       const head = pr.head as Record<string, unknown> || {};
       const base = pr.base as Record<string, unknown> || {};
       return {
+        event: eventType,
+        action,
+        branch: base.ref as string | undefined,
         context: {
           event: 'pull_request',
           repo: repoName,
@@ -249,15 +504,115 @@ export class WebhookServer {
           author: (pr.user as Record<string, unknown>)?.login,
         },
         systemMessage:
-          `GitHub PR in ${repoName}: "${pr.title}" (${head.ref} → ${base.ref}). ` +
+          `${label} PR in ${repoName}: "${pr.title}" (${head.ref} → ${base.ref}). ` +
           `Action: ${body.action}. Review and provide feedback.`,
       };
     }
 
     // Fallback
     return {
+      event: eventType,
+      action,
       context: { event: eventType, repo: repoName, action: body.action, raw: body },
-      systemMessage: `GitHub ${eventType} in ${repoName}. Analyze and respond.`,
+      systemMessage: `${label} ${eventType} in ${repoName}. Analyze and respond.`,
+    };
+  }
+
+  /**
+   * Bitbucket Cloud payloads (event in X-Event-Key, e.g. repo:push, pullrequest:created).
+   */
+  private parseBitbucketPayload(
+    body: Record<string, unknown>,
+    headers: Record<string, string>
+  ): ParsedPayload {
+    const eventKey = headers['x-event-key'] || 'unknown';
+    const [category, action] = eventKey.split(':');
+    const repoName = (pick(body, 'repository', 'full_name') as string) || 'unknown';
+    const actor = (pick(body, 'actor', 'display_name') as string) || 'unknown';
+
+    // Push event (one change per pushed branch; the first is reported)
+    if (eventKey === 'repo:push') {
+      const changes = (pick(body, 'push', 'changes') as Array<Record<string, unknown>>) || [];
+      const branch = (pick(changes[0], 'new', 'name') as string) || '';
+      const commits = (pick(changes[0], 'commits') as Array<Record<string, unknown>>) || [];
+      const commitSummaries = commits.slice(0, 5).map(c => ({
+        id: (c.hash as string || '').substring(0, 8),
+        message: c.message,
+        author: pick(c, 'author', 'user', 'display_name') || pick(c, 'author', 'raw'),
+      }));
+
+      return {
+        event: 'push',
+        branch,
+        context: {
+          event: 'push',
+          repo: repoName,
+          branch,
+          commits: commitSummaries,
+          pusher: actor,
+        },
+        systemMessage:
+          `Bitbucket push: ${commits.length} commit(s) to ${branch} in ${repoName} by ${actor}. ` +
+          `Review the changes and provide feedback.`,
+      };
+    }
+
+    // Pull Request event
+    if (category === 'pullrequest') {
+      const pr = body.pullrequest as Record<string, unknown> || {};
+      const sourceBranch = pick(pr, 'source', 'branch', 'name') as string | undefined;
+      const targetBranch = pick(pr, 'destination', 'branch', 'name') as string | undefined;
+      return {
+        event: 'pull_request',
+        action,
+        branch: targetBranch,
+        context: {
+          event: 'pull_request',
+          repo: repoName,
+          action,
+          title: pr.title,
+          body: pr.description,
+          sourceBranch,
+          targetBranch,
+          url: pick(pr, 'links', 'html', 'href'),
+          author: pick(pr, 'author', 'display_name'),
+        },
+        systemMessage:
+          `Bitbucket PR in ${repoName}: "${pr.title}" (${sourceBranch} → ${targetBranch}). ` +
+          `Action: ${action}. Review and provide feedback.`,
+      };
+    }
+
+    // Fallback
+    return {
+      event: category,
+      action,
+      context: { event: eventKey, repo: repoName, actor, raw: body },
+      systemMessage: `Bitbucket ${eventKey} in ${repoName}. Analyze and respond.`,
+    };
+  }
+
+  /**
+   * Slack slash command (form-encoded: command, text, user_name, channel_name, ...).
+   * The command name without its slash is the action: slash_command.review
+   */
+  private parseSlackPayload(body: Record<string, unknown>): ParsedPayload {
+    const command = (body.command as string) || '';
+    const user = (body.user_name as string) || 'unknown';
+    const channel = (body.channel_name as string) || 'unknown';
+    return {
+      event: 'slash_command',
+      action: command.replace(/^\//, ''),
+      context: {
+        event: 'slash_command',
+        command,
+        text: body.text,
+        user,
+        userId: body.user_id,
+        channel,
+        team: body.team_domain,
+      },
+      systemMessage: `Slack ${command} from ${user} in #${channel}: ${body.text || '(no text)'}`,
     };
   }
 
@@ -266,6 +621,7 @@ export class WebhookServer {
     body: Record<string, unknown>
   ): ParsedPayload {
     return {
+      event: typeof body.event === 'string' ? body.event : 'unknown',
       context: { source, payload: body },
       systemMessage:
         `External event received from ${source}. ` +
@@ -273,38 +629,173 @@ export class WebhookServer {
     };
   }
 
+  /**
+   * Check a request against the endpoint secret, with the endpoint's signature
+   * scheme or the source's built-in one. Unknown sources without a scheme fail.
+   */
   private verifySignature(
-    source: string,
+    endpoint: WebhookEndpoint,
     secret: string,
-    body: string,
+    body: Buffer,
     headers: Record<string, string>
   ): boolean {
     try {
-      if (source === 'gitlab') {
-        // GitLab uses a simple token comparison via X-Gitlab-Token header
-        const token = headers['x-gitlab-token'];
-        if (!token) return false;
-        return token === secret;
+      if (endpoint.signature) {
+        return verifyHmacHeader(endpoint.signature, secret, body, headers);
       }
 
-      if (source === 'github') {
-        // GitHub uses HMAC-SHA256 via X-Hub-Signature-256 header
-        const signature = headers['x-hub-signature-256'];
-        if (!signature) return false;
+      switch (endpoint.source) {
+        case 'gitlab': {
+          // GitLab uses a simple token comparison via X-Gitlab-Token header
+          const token = headers['x-gitlab-token'];
+          return !!token && safeEqual(token, secret);
+        }
 
-        const expected = 'sha256=' + createHmac('sha256', secret).update(body).digest('hex');
-        const expectedBuf = Buffer.from(expected);
-        const signatureBuf = Buffer.from(signature);
+        case 'github':
+          // GitHub uses HMAC-SHA256 via X-Hub-Signature-256 header
+          return verifyHmacHeader(
+            { header: 'x-hub-signature-256', algorithm: 'sha256', encoding: 'hex', prefix: 'sha256=' },
+            secret, body, headers
+          );
+
+        case 'gitea':
+        case 'forgejo':
+          // Hex HMAC-SHA256 without prefix; Forgejo also sends the Gitea header
+          return verifyHmacHeader(
+            {
+              header: headers['x-forgejo-signature'] ? 'x-forgejo-signature' : 'x-gitea-signature',
+              algorithm: 'sha256',
+              encoding: 'hex',
+              prefix: '',
+            },
+            secret, body, headers
+          );
+
+        case 'bitbucket':
+          return verifyHmacHeader(
+            { header: 'x-hub-signature', algorithm: 'sha256', encoding: 'hex', prefix: 'sha256=' },
+            secret, body, headers
+          );
+
+        case 'slack': {
+          // HMAC-SHA256 of "v0:<timestamp>:<body>" with the app's signing secret
+          const timestamp = headers['x-slack-request-timestamp'];
+          const signature = headers['x-slack-signature'];
+          if (!timestamp || !signature) return false;
+          if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SLACK_MAX_AGE_SECONDS) return false;
+
+          const expected = 'v0=' + createHmac('sha256', secret)
+            .update(`v0:${timestamp}:`)
+            .update(body)
+            .digest('hex');
+          return safeEqual(signature, expected);
+        }
 
-        if (expectedBuf.length !== signatureBuf.length) return false;
-        return timingSafeEqual(expectedBuf, signatureBuf);
+        default:
+          return false;
       }
-
-      // For unknown sources, skip verification
-      return true;
     } catch (error) {
       console.error(`[Webhooks] Signature verification error:`, error);
       return false;
     }
   }
 }
+
+// =============================================================================
+// Signatures
+// =============================================================================
+
+function verifyHmacHeader(
+  scheme: WebhookSignature,
+  secret: string,
+  body: Buffer,
+  headers: Record<string, string>
+): boolean {
+  const signature = headers[scheme.header.toLowerCase()];
+  if (!signature) return false;
+
+  const expected = scheme.prefix + createHmac(scheme.algorithm, secret).update(body).digest(scheme.encoding);
+  return safeEqual(signature, expected);
+}
+
+function safeEqual(actual: string, expected: string): boolean {
+  const actualBuf = Buffer.from(actual);
+  const expectedBuf = Buffer.from(expected);
+  if (actualBuf.length !== expectedBuf.length) return false;
+  return timingSafeEqual(actualBuf, expectedBuf);
+}
+
+// =============================================================================
+// Deliveries
+// =============================================================================
+
+function deliveryIdOf(headers: Record<string, string>): string | undefined {
+  for (const header of DELIVERY_ID_HEADERS) {
+    if (headers[header]) return headers[header];
+  }
+  return undefined;
+}
+
+// =============================================================================
+// Rules
+// =============================================================================
+
+/**
+ * Parse an endpoint's rules up front, so bad paths or templates fail at startup.
+ * Without rules the endpoint handles every event with its own fields and template.
+ */
+function compileRules(endpoint: WebhookEndpoint): CompiledRule[] {
+  try {
+    const rules = endpoint.rules ?? [{}];
+    return rules.map(rule => {
+      const template = rule.template ?? endpoint.template;
+      return {
+        events: rule.events,
+        branches: rule.branches?.map(globToRegExp),
+        fields: parseFieldMap({ ...endpoint.fields, ...rule.fields }),
+        template: template !== undefined ? compileTemplate(template) : undefined,
+        responder: rule.responder ?? endpoint.responder,
+        speaker: rule.speaker ?? endpoint.speaker,
+        bookmark: rule.bookmark ?? endpoint.bookmark,
+      };
+    });
+  } catch (error) {
+    throw new Error(`Webhook ${endpoint.path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function compileReplies(endpoint: WebhookEndpoint): CompiledReply[] {
+  try {
+    return endpoint.reply.map(reply => ({
+      reply,
+      template: reply.template !== undefined ? compileTemplate(reply.template) : undefined,
+    }));
+  } catch (error) {
+    throw new Error(`Webhook ${endpoint.path} reply: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function matchesRule(rule: CompiledRule, parsed: ParsedPayload): boolean {
+  if (rule.events && !rule.events.some(pattern =>
+    pattern === '*' || pattern === parsed.event || pattern === `${parsed.event}.${parsed.action}`
+  )) {
+    return false;
+  }
+  if (rule.branches) {
+    const branch = parsed.branch;
+    if (branch === undefined || !rule.branches.some(re => re.test(branch))) return false;
+  }
+  return true;
+}
+
+/** "release/*" -> one path segment; "**" -> anything */
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split('**')
+    .map(part => part
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\?/g, '[^/]'))
+    .join('.*');
+  return new RegExp(`^${pattern}$`);
+}
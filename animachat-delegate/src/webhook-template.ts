@@ -0,0 +1,247 @@
+/**
+ * Webhook Templates
+ *
+ * Small helpers that let webhook endpoints be configured without code:
+ * JSONPath-style field extraction from payloads, and Handlebars-like
+ * templates for the trigger message.
+ *
+ * Paths:     $.pull_request.title, $.commits[0].message, $.commits[*].id, $['x-key']
+ * Templates: {{title}}, {{payload.repository.name}}, {{#if draft}}...{{else}}...{{/if}},
+ *            {{#each commits}}- {{message}} ({{@index}}){{/each}}
+ *
+ * Output is plain text (no HTML escaping).
+ */
+
+// =============================================================================
+// Field Extraction
+// =============================================================================
+
+type PathSegment = { key: string } | { index: number } | { wildcard: true };
+
+export interface ParsedPath {
+  source: string;
+  segments: PathSegment[];
+}
+
+const SEGMENT_PATTERN = /\.([A-Za-z_$][\w$-]*)|\[(\d+)\]|\['([^']*)'\]|\["([^"]*)"\]|\[\*\]|\.\*/y;
+
+/**
+ * Parse a JSONPath-style expression. Throws on syntax errors.
+ */
+export function parsePath(source: string): ParsedPath {
+  if (!source.startsWith('$')) {
+    throw new Error(`Path must start with "$": ${source}`);
+  }
+
+  const segments: PathSegment[] = [];
+  let position = 1;
+  while (position < source.length) {
+    SEGMENT_PATTERN.lastIndex = position;
+    const match = SEGMENT_PATTERN.exec(source);
+    if (!match) {
+      throw new Error(`Invalid path "${source}" at position ${position}`);
+    }
+    const [, name, index, single, double] = match;
+    if (name !== undefined) segments.push({ key: name });
+    else if (index !== undefined) segments.push({ index: Number(index) });
+    else if (single !== undefined) segments.push({ key: single });
+    else if (double !== undefined) segments.push({ key: double });
+    else segments.push({ wildcard: true });
+    position = SEGMENT_PATTERN.lastIndex;
+  }
+
+  return { source, segments };
+}
+
+/**
+ * Evaluate a parsed path. Paths with a wildcard return an array of matches;
+ * others return the single value (undefined when missing).
+ */
+export function evaluatePath(root: unknown, path: ParsedPath): unknown {
+  let values: unknown[] = [root];
+  let multiple = false;
+
+  for (const segment of path.segments) {
+    const next: unknown[] = [];
+    for (const value of values) {
+      if (value === null || typeof value !== 'object') continue;
+      if ('wildcard' in segment) {
+        next.push(...(Array.isArray(value) ? value : Object.values(value)));
+      } else if ('index' in segment) {
+        if (Array.isArray(value) && segment.index < value.length) next.push(value[segment.index]);
+      } else if (Object.prototype.hasOwnProperty.call(value, segment.key)) {
+        next.push((value as Record<string, unknown>)[segment.key]);
+      }
+    }
+    if ('wildcard' in segment) multiple = true;
+    values = next;
+  }
+
+  return multiple ? values : values[0];
+}
+
+/** Read a nested property of an untyped payload (undefined if any step is missing) */
+export function pick(value: unknown, ...keys: string[]): unknown {
+  let current = value;
+  for (const key of keys) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+/**
+ * Parse a map of field name -> path. Throws on the first invalid path.
+ */
+export function parseFieldMap(fields: Record<string, string>): Map<string, ParsedPath> {
+  const parsed = new Map<string, ParsedPath>();
+  for (const [name, path] of Object.entries(fields)) {
+    parsed.set(name, parsePath(path));
+  }
+  return parsed;
+}
+
+/**
+ * Extract every field of a parsed field map from a payload.
+ */
+export function extractFields(payload: unknown, fields: Map<string, ParsedPath>): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  for (const [name, path] of fields) {
+    result[name] = evaluatePath(payload, path);
+  }
+  return result;
+}
+
+// =============================================================================
+// Templates
+// =============================================================================
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'value'; path: string }
+  | { type: 'if'; path: string; then: TemplateNode[]; else: TemplateNode[] }
+  | { type: 'each'; path: string; body: TemplateNode[] };
+
+type BlockNode = Extract<TemplateNode, { type: 'if' | 'each' }>;
+
+/** One level of the lookup scope: the template variables, or the current item of an each block */
+interface Frame {
+  value: unknown;
+  index?: number;
+}
+
+export type CompiledTemplate = (variables: Record<string, unknown>) => string;
+
+/**
+ * Compile a template. Throws on unbalanced or unknown block tags.
+ */
+export function compileTemplate(source: string): CompiledTemplate {
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; children: TemplateNode[] }> = [];
+  let children = root;
+  let last = 0;
+
+  for (const match of source.matchAll(/\{\{(.*?)\}\}/gs)) {
+    const start = match.index ?? 0;
+    if (start > last) children.push({ type: 'text', text: source.slice(last, start) });
+    last = start + match[0].length;
+
+    const tag = match[1].trim();
+    const block = /^#(if|each)\s+(\S+)$/.exec(tag);
+
+    if (block) {
+      const node: BlockNode = block[1] === 'if'
+        ? { type: 'if', path: block[2], then: [], else: [] }
+        : { type: 'each', path: block[2], body: [] };
+      children.push(node);
+      children = node.type === 'if' ? node.then : node.body;
+      stack.push({ node, children });
+    } else if (tag === 'else') {
+      const top = stack[stack.length - 1];
+      if (!top || top.node.type !== 'if') {
+        throw new Error('{{else}} outside of {{#if}}');
+      }
+      children = top.children = top.node.else;
+    } else if (tag === '/if' || tag === '/each') {
+      const top = stack.pop();
+      if (!top || `/${top.node.type}` !== tag) {
+        throw new Error(`Unexpected {{${tag}}}`);
+      }
+      children = stack.length > 0 ? stack[stack.length - 1].children : root;
+    } else if (tag.startsWith('#') || tag.startsWith('/') || tag === '') {
+      throw new Error(`Unknown template tag {{${tag}}}`);
+    } else {
+      children.push({ type: 'value', path: tag });
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new Error(`Unclosed {{#${stack[stack.length - 1].node.type}}}`);
+  }
+  if (last < source.length) root.push({ type: 'text', text: source.slice(last) });
+
+  return (variables) => renderNodes(root, [{ value: variables }]);
+}
+
+function renderNodes(nodes: TemplateNode[], frames: Frame[]): string {
+  let output = '';
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.text;
+        break;
+
+      case 'value':
+        output += formatValue(lookup(node.path, frames));
+        break;
+
+      case 'if':
+        output += renderNodes(isTruthy(lookup(node.path, frames)) ? node.then : node.else, frames);
+        break;
+
+      case 'each': {
+        const items = lookup(node.path, frames);
+        if (!Array.isArray(items)) break;
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, [{ value: item, index }, ...frames]);
+        });
+        break;
+      }
+    }
+  }
+  return output;
+}
+
+/**
+ * Resolve a dotted path: "this" and "@index" refer to the current each item;
+ * other names are looked up from the innermost scope outwards.
+ */
+function lookup(path: string, frames: Frame[]): unknown {
+  if (path === '@index') return frames[0].index;
+
+  const [head, ...rest] = path.split('.');
+  let value: unknown;
+  if (head === 'this') {
+    value = frames[0].value;
+  } else {
+    const frame = frames.find(f => f.value !== null && typeof f.value === 'object' && head in f.value);
+    if (!frame) return undefined;
+    value = (frame.value as Record<string, unknown>)[head];
+  }
+
+  for (const key of rest) {
+    if (value === null || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function isTruthy(value: unknown): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -1,4 +1,4 @@
-import { User, Conversation, Message, MessageBranch, Participant, ApiKey, Bookmark, UserDefinedModel, GrantInfo, GrantCapability, UserGrantSummary, GrantUsageDetails, Invite, getValidatedModelDefaults } from '@deprecated-claude/shared';
+import { User, Conversation, Message, MessageBranch, Participant, ApiKey, Bookmark, UserDefinedModel, GrantInfo, GrantCapability, UserGrantSummary, GrantUsageDetails, Invite, DelegateToken, TriggerSchedule, CreateTriggerScheduleRequest, UpdateTriggerScheduleRequest, ContextSummary, ToolCallLogEntry, ScratchpadNote, getValidatedModelDefaults } from '@deprecated-claude/shared';
 import { TotalsMetrics, TotalsMetricsSchema, ModelConversationMetrics, ModelConversationMetricsSchema } from '@deprecated-claude/shared';
 import { v4 as uuidv4 } from 'uuid';
 import bcrypt from 'bcrypt';
@@ -27,6 +27,7 @@ import {
   ForkHistoryBranchRequest
 } from '@deprecated-claude/shared';
 import { encryption } from '../utils/encryption.js';
+import { getTokenizer } from '../utils/tokenizer.js';
 
 // Metrics interface for tracking token usage
 export interface MetricsData {
@@ -43,6 +44,20 @@ export interface MetricsData {
   error?: string;    // Error message if failed
 }
 
+// Delegate token as stored: the public fields plus its owner and the hash of its secret
+export type DelegateTokenRecord = DelegateToken & {
+  userId: string;
+  tokenHash: string;
+};
+
+// Trigger schedule as stored: without the computed next run, plus the user it runs as
+export type TriggerScheduleRecord = Omit<TriggerSchedule, 'nextRunAt'> & {
+  userId: string;
+};
+
+// Delegate token uses are written to the event log at most this often per token
+const DELEGATE_TOKEN_USE_LOG_INTERVAL_MS = 60 * 60 * 1000;
+
 // Usage analytics types
 export interface UsageDataPoint {
   date: string;
@@ -102,6 +117,9 @@ export class Database {
   private participants: Map<string, Participant> = new Map(); // participantId -> Participant
   private conversationParticipants: Map<string, string[]> = new Map(); // conversationId -> participantIds
   private conversationMetrics: Map<string, MetricsData[]> = new Map(); // conversationId -> metrics
+  // conversationId -> `${branchId}:${tokenizer family}` -> token count of the branch content at that length
+  private conversationTreeTokens: Map<string, Map<string, { length: number; tokens: number }>> = new Map();
+  private conversationSummaries: Map<string, ContextSummary[]> = new Map(); // conversationId -> context summaries
 
   private userLastAccessedTimes: Map<string, Date> = new Map(); // userId -> last accessed time
   private conversationsLastAccessedTimes: Map<string, Date> = new Map(); // conversationId -> last accessed time
@@ -111,10 +129,15 @@ export class Database {
   
   private userModels: Map<string, UserDefinedModel> = new Map(); // modelId -> UserDefinedModel
   private userModelsByUser: Map<string, Set<string>> = new Map(); // userId -> modelIds
+  private disabledDelegateTools: Map<string, Set<string>> = new Map(); // userId -> `${delegateId}:${toolName}`
   private userGrantInfos: Map<string, GrantInfo[]> = new Map();
   private userGrantCapabilities: Map<string, GrantCapability[]> = new Map();
   private userGrantTotals: Map<string, Map<string, number>> = new Map();
   private invites: Map<string, Invite> = new Map(); // code -> Invite
+  private delegateTokens: Map<string, DelegateTokenRecord> = new Map(); // tokenId -> token
+  private delegateTokensByHash: Map<string, string> = new Map(); // tokenHash -> tokenId
+  private delegateTokenUseLoggedAt: Map<string, number> = new Map(); // tokenId -> when its last use was logged
+  private triggerSchedules: Map<string, TriggerScheduleRecord> = new Map(); // scheduleId -> schedule
 
   private eventStore: EventStore;
   // per user, contains conversation metadata events and participant events
@@ -289,6 +312,8 @@ export class Database {
     });
     this.conversationMessages.delete(conversationId);;
     this.conversationMetrics.delete(conversationId);
+    this.conversationTreeTokens.delete(conversationId);
+    this.conversationSummaries.delete(conversationId);
 
     // Clear cached UI state
     this.uiStateStore.clearCache(conversationId);
@@ -1231,6 +1256,97 @@ export class Database {
         break;
       }
 
+      case 'delegate_token_created': {
+        const { token } = event.data || {};
+        if (token && token.id) {
+          this.delegateTokens.set(token.id, token);
+          this.delegateTokensByHash.set(token.tokenHash, token.id);
+        }
+        break;
+      }
+
+      case 'delegate_token_revoked': {
+        const { tokenId, revokedAt } = event.data || {};
+        const token = this.delegateTokens.get(tokenId);
+        if (token) {
+          token.revokedAt = revokedAt;
+        }
+        break;
+      }
+
+      case 'delegate_token_used': {
+        const { tokenId, usedAt } = event.data || {};
+        const token = this.delegateTokens.get(tokenId);
+        if (token) {
+          token.lastUsedAt = usedAt;
+          this.delegateTokenUseLoggedAt.set(tokenId, new Date(usedAt).getTime());
+        }
+        break;
+      }
+
+      case 'trigger_schedule_created': {
+        const { schedule } = event.data || {};
+        if (schedule && schedule.id) {
+          this.triggerSchedules.set(schedule.id, schedule);
+        }
+        break;
+      }
+
+      case 'trigger_schedule_updated': {
+        const { scheduleId, updates } = event.data || {};
+        const schedule = this.triggerSchedules.get(scheduleId);
+        if (schedule) {
+          this.applyTriggerScheduleUpdates(schedule, updates);
+        }
+        break;
+      }
+
+      case 'trigger_schedule_deleted': {
+        const { scheduleId } = event.data || {};
+        this.triggerSchedules.delete(scheduleId);
+        break;
+      }
+
+      case 'trigger_schedule_ran': {
+        const { scheduleId, ranAt, error } = event.data || {};
+        const schedule = this.triggerSchedules.get(scheduleId);
+        if (schedule) {
+          schedule.lastRunAt = ranAt;
+          schedule.lastError = error;
+        }
+        break;
+      }
+
+      // Context summary events (per-conversation)
+      case 'context_summary_created': {
+        const { summary } = event.data || {};
+        if (summary && summary.id) {
+          const summaries = this.conversationSummaries.get(summary.conversationId) || [];
+          summaries.push(summary);
+          this.conversationSummaries.set(summary.conversationId, summaries);
+        }
+        break;
+      }
+
+      case 'context_summary_updated': {
+        const { conversationId, summaryId, content, editedAt } = event.data || {};
+        const summary = this.conversationSummaries.get(conversationId)?.find(s => s.id === summaryId);
+        if (summary) {
+          summary.content = content;
+          summary.editedAt = editedAt;
+        }
+        break;
+      }
+
+      case 'context_summary_deleted': {
+        const { conversationId, summaryId } = event.data || {};
+        const summaries = this.conversationSummaries.get(conversationId);
+        if (summaries) {
+          this.conversationSummaries.set(conversationId, summaries.filter(s => s.id !== summaryId));
+        }
+        break;
+      }
+
       case 'metrics_added': {
         const { conversationId, metrics } = event.data;
         if (!this.conversationMetrics.has(conversationId)) {
@@ -1329,6 +1445,18 @@ export class Database {
         break;
       }
 
+      case 'delegate_tool_toggled': {
+        const { userId, delegateId, toolName, enabled } = event.data;
+        const disabled = this.disabledDelegateTools.get(userId) || new Set();
+        if (enabled) {
+          disabled.delete(`${delegateId}:${toolName}`);
+        } else {
+          disabled.add(`${delegateId}:${toolName}`);
+        }
+        this.disabledDelegateTools.set(userId, disabled);
+        break;
+      }
+
       // Email verification events
       case 'email_verified':
       case 'email_verified_manually': {
@@ -3726,6 +3854,54 @@ export class Database {
     return [];
   }
 
+  /**
+   * Append an entry to a conversation's tool call log.
+   * Entries are write-once audit records: they are never replayed into memory,
+   * edited, or removed along with the message they belong to.
+   */
+  async addToolCallLogEntry(conversationId: string, conversationOwnerUserId: string, entry: ToolCallLogEntry): Promise<void> {
+    const conversation = await this.tryLoadAndVerifyConversation(conversationId, conversationOwnerUserId);
+    if (!conversation) return;
+
+    await this.logConversationEvent(conversationId, 'tool_call_logged', entry);
+  }
+
+  /**
+   * Get the tool call log for a conversation, oldest first
+   */
+  async getToolCallLog(conversationId: string, conversationOwnerUserId: string): Promise<ToolCallLogEntry[]> {
+    await this.loadUser(conversationOwnerUserId);
+    await this.loadConversation(conversationId, conversationOwnerUserId);
+
+    const events = await this.conversationEventStore.loadEvents(conversationId);
+    return events
+      .filter(event => event.type === 'tool_call_logged')
+      .map(event => event.data as ToolCallLogEntry);
+  }
+
+  /**
+   * Append a note to a conversation's scratchpad (written by the model via a server tool)
+   */
+  async appendScratchpadNote(conversationId: string, conversationOwnerUserId: string, note: ScratchpadNote): Promise<void> {
+    const conversation = await this.tryLoadAndVerifyConversation(conversationId, conversationOwnerUserId);
+    if (!conversation) return;
+
+    await this.logConversationEvent(conversationId, 'scratchpad_note_added', note);
+  }
+
+  /**
+   * Get a conversation's scratchpad notes, oldest first
+   */
+  async getScratchpadNotes(conversationId: string, conversationOwnerUserId: string): Promise<ScratchpadNote[]> {
+    await this.loadUser(conversationOwnerUserId);
+    await this.loadConversation(conversationId, conversationOwnerUserId);
+
+    const events = await this.conversationEventStore.loadEvents(conversationId);
+    return events
+      .filter(event => event.type === 'scratchpad_note_added')
+      .map(event => event.data as ScratchpadNote);
+  }
+
   /**
    * Get event history for a conversation
    */
@@ -3769,6 +3945,10 @@ export class Database {
       if (event.type === 'active_branch_changed') return false;
       // message_order_changed events are internal bookkeeping
       if (event.type === 'message_order_changed') return false;
+      // Tool call log entries have their own panel (getToolCallLog); scratchpad notes are model-only
+      if (event.type === 'tool_call_logged' || event.type === 'scratchpad_note_added') return false;
+      // Context summaries have their own panel (getContextSummaries)
+      if (event.type.startsWith('context_summary_')) return false;
       return true;
     });
 
@@ -4324,11 +4504,26 @@ export class Database {
     }
     
     // Calculate total tree size: all content in all branches of all messages
+    // Branches without a model (user messages) are counted for the first assistant's model
+    const defaultModel = participants.find(p => p.type === 'assistant' && p.model)?.model;
+    let treeTokens = this.conversationTreeTokens.get(conversationId);
+    if (!treeTokens) {
+      treeTokens = new Map();
+      this.conversationTreeTokens.set(conversationId, treeTokens);
+    }
     let totalTreeTokens = 0;
     let totalBranches = 0;
     for (const message of messages) {
       for (const branch of message.branches) {
-        const branchTokens = Math.ceil(branch.content.length / 4);
+        // Counts are kept per branch, so only new and edited branches are tokenized
+        const tokenizer = getTokenizer(branch.model || defaultModel);
+        const key = `${branch.id}:${tokenizer.family}`;
+        let counted = treeTokens.get(key);
+        if (!counted || counted.length !== branch.content.length) {
+          counted = { length: branch.content.length, tokens: tokenizer.countTokens(branch.content) };
+          treeTokens.set(key, counted);
+        }
+        const branchTokens = counted.tokens;
         totalTreeTokens += branchTokens;
         totalBranches++;
       }
@@ -4931,6 +5126,254 @@ export class Database {
     return true;
   }
 
+  // ============================================================================
+  // Delegate Tool Settings
+  // ============================================================================
+
+  /**
+   * Switch one of a delegate's tools on or off for the user (kept across reconnects).
+   */
+  async setDelegateToolEnabled(userId: string, delegateId: string, toolName: string, enabled: boolean): Promise<void> {
+    await this.loadUser(userId);
+    const disabled = this.disabledDelegateTools.get(userId) || new Set();
+    if (enabled) {
+      disabled.delete(`${delegateId}:${toolName}`);
+    } else {
+      disabled.add(`${delegateId}:${toolName}`);
+    }
+    this.disabledDelegateTools.set(userId, disabled);
+
+    await this.logUserEvent(userId, 'delegate_tool_toggled', { userId, delegateId, toolName, enabled });
+  }
+
+  /**
+   * Names of the delegate's tools the user switched off.
+   */
+  async getDisabledDelegateTools(userId: string, delegateId: string): Promise<string[]> {
+    await this.loadUser(userId);
+    const prefix = `${delegateId}:`;
+    return Array.from(this.disabledDelegateTools.get(userId) || [])
+      .filter(key => key.startsWith(prefix))
+      .map(key => key.slice(prefix.length));
+  }
+
+  // ============================================================================
+  // Delegate Tokens
+  // ============================================================================
+
+  /**
+   * Create a delegate token. Only the hash of the secret is kept.
+   */
+  async createDelegateToken(
+    userId: string,
+    tokenHash: string,
+    name: string,
+    delegateId?: string,
+    expiresAt?: string
+  ): Promise<DelegateToken> {
+    const token: DelegateTokenRecord = {
+      id: uuidv4(),
+      userId,
+      tokenHash,
+      name,
+      delegateId,
+      createdAt: new Date().toISOString(),
+      expiresAt
+    };
+
+    this.delegateTokens.set(token.id, token);
+    this.delegateTokensByHash.set(tokenHash, token.id);
+    await this.logEvent('delegate_token_created', { token });
+
+    return this.toDelegateToken(token);
+  }
+
+  getDelegateTokens(userId: string): DelegateToken[] {
+    return Array.from(this.delegateTokens.values())
+      .filter(token => token.userId === userId)
+      .map(token => this.toDelegateToken(token));
+  }
+
+  findDelegateTokenByHash(tokenHash: string): DelegateTokenRecord | null {
+    const tokenId = this.delegateTokensByHash.get(tokenHash);
+    return tokenId ? this.delegateTokens.get(tokenId) || null : null;
+  }
+
+  /**
+   * Revoke one of the user's delegate tokens.
+   * @returns false if the token does not exist or belongs to another user
+   */
+  async revokeDelegateToken(userId: string, tokenId: string): Promise<boolean> {
+    const token = this.delegateTokens.get(tokenId);
+    if (!token || token.userId !== userId) return false;
+    if (token.revokedAt) return true;
+
+    token.revokedAt = new Date().toISOString();
+    await this.logEvent('delegate_token_revoked', { tokenId, revokedAt: token.revokedAt });
+    return true;
+  }
+
+  /**
+   * Record a token's use. Delegates reconnect often, so a use is only written to
+   * the event log once per DELEGATE_TOKEN_USE_LOG_INTERVAL_MS; lastUsedAt is always current.
+   */
+  async markDelegateTokenUsed(tokenId: string): Promise<void> {
+    const token = this.delegateTokens.get(tokenId);
+    if (!token) return;
+
+    const now = Date.now();
+    token.lastUsedAt = new Date(now).toISOString();
+    if (now - (this.delegateTokenUseLoggedAt.get(tokenId) ?? 0) < DELEGATE_TOKEN_USE_LOG_INTERVAL_MS) return;
+
+    this.delegateTokenUseLoggedAt.set(tokenId, now);
+    await this.logEvent('delegate_token_used', { tokenId, usedAt: token.lastUsedAt });
+  }
+
+  private toDelegateToken(token: DelegateTokenRecord): DelegateToken {
+    const { userId, tokenHash, ...rest } = token;
+    return rest;
+  }
+
+  // ============================================================================
+  // Trigger Schedules
+  // ============================================================================
+
+  /**
+   * Create a schedule that fires triggers into a conversation as the given user.
+   */
+  async createTriggerSchedule(
+    userId: string,
+    conversationId: string,
+    request: CreateTriggerScheduleRequest
+  ): Promise<TriggerScheduleRecord> {
+    const schedule: TriggerScheduleRecord = {
+      id: uuidv4(),
+      userId,
+      conversationId,
+      participantId: request.participantId,
+      name: request.name,
+      prompt: request.prompt,
+      cron: request.cron,
+      intervalMinutes: request.intervalMinutes,
+      timezone: request.timezone,
+      enabled: request.enabled,
+      createdAt: new Date().toISOString()
+    };
+
+    this.triggerSchedules.set(schedule.id, schedule);
+    await this.logEvent('trigger_schedule_created', { schedule });
+    return schedule;
+  }
+
+  getTriggerSchedule(scheduleId: string): TriggerScheduleRecord | null {
+    return this.triggerSchedules.get(scheduleId) || null;
+  }
+
+  getTriggerSchedules(conversationId: string): TriggerScheduleRecord[] {
+    return Array.from(this.triggerSchedules.values())
+      .filter(schedule => schedule.conversationId === conversationId);
+  }
+
+  getAllTriggerSchedules(): TriggerScheduleRecord[] {
+    return Array.from(this.triggerSchedules.values());
+  }
+
+  async updateTriggerSchedule(scheduleId: string, updates: UpdateTriggerScheduleRequest): Promise<TriggerScheduleRecord | null> {
+    const schedule = this.triggerSchedules.get(scheduleId);
+    if (!schedule) return null;
+
+    this.applyTriggerScheduleUpdates(schedule, updates);
+    await this.logEvent('trigger_schedule_updated', { scheduleId, updates });
+    return schedule;
+  }
+
+  async deleteTriggerSchedule(scheduleId: string): Promise<boolean> {
+    if (!this.triggerSchedules.delete(scheduleId)) return false;
+    await this.logEvent('trigger_schedule_deleted', { scheduleId });
+    return true;
+  }
+
+  /**
+   * Record that a schedule fired, with the error if its trigger failed.
+   */
+  async recordTriggerScheduleRun(scheduleId: string, ranAt: string, error?: string): Promise<void> {
+    const schedule = this.triggerSchedules.get(scheduleId);
+    if (!schedule) return;
+
+    schedule.lastRunAt = ranAt;
+    schedule.lastError = error;
+    await this.logEvent('trigger_schedule_ran', { scheduleId, ranAt, error });
+  }
+
+  // A schedule runs on either cron or intervalMinutes, so setting one clears the other
+  private applyTriggerScheduleUpdates(schedule: TriggerScheduleRecord, updates: UpdateTriggerScheduleRequest): void {
+    Object.assign(schedule, updates);
+    if (updates.participantId === null) delete schedule.participantId;
+    if (updates.cron) delete schedule.intervalMinutes;
+    if (updates.intervalMinutes) delete schedule.cron;
+  }
+
+  // ============================================================================
+  // Context Summaries
+  // ============================================================================
+
+  async createContextSummary(
+    conversationOwnerUserId: string,
+    summary: Omit<ContextSummary, 'id' | 'createdAt'>
+  ): Promise<ContextSummary> {
+    await this.loadConversation(summary.conversationId, conversationOwnerUserId);
+
+    const created: ContextSummary = {
+      ...summary,
+      id: uuidv4(),
+      createdAt: new Date().toISOString()
+    };
+
+    const summaries = this.conversationSummaries.get(created.conversationId) || [];
+    summaries.push(created);
+    this.conversationSummaries.set(created.conversationId, summaries);
+    await this.logConversationEvent(created.conversationId, 'context_summary_created', { summary: created });
+    return created;
+  }
+
+  async getContextSummary(conversationId: string, conversationOwnerUserId: string, summaryId: string): Promise<ContextSummary | null> {
+    const summaries = await this.getContextSummaries(conversationId, conversationOwnerUserId);
+    return summaries.find(summary => summary.id === summaryId) || null;
+  }
+
+  /**
+   * The conversation's summaries, newest first.
+   */
+  async getContextSummaries(conversationId: string, conversationOwnerUserId: string): Promise<ContextSummary[]> {
+    await this.loadConversation(conversationId, conversationOwnerUserId);
+    return [...(this.conversationSummaries.get(conversationId) || [])]
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async updateContextSummaryContent(
+    conversationId: string,
+    conversationOwnerUserId: string,
+    summaryId: string,
+    content: string
+  ): Promise<ContextSummary | null> {
+    const summary = await this.getContextSummary(conversationId, conversationOwnerUserId, summaryId);
+    if (!summary) return null;
+
+    summary.content = content;
+    summary.editedAt = new Date().toISOString();
+    await this.logConversationEvent(conversationId, 'context_summary_updated', { conversationId, summaryId, content, editedAt: summary.editedAt });
+    return summary;
+  }
+
+  async deleteContextSummary(conversationId: string, conversationOwnerUserId: string, summaryId: string): Promise<boolean> {
+    const summaries = await this.getContextSummaries(conversationId, conversationOwnerUserId);
+    if (!summaries.some(summary => summary.id === summaryId)) return false;
+
+    this.conversationSummaries.set(conversationId, summaries.filter(summary => summary.id !== summaryId));
+    await this.logConversationEvent(conversationId, 'context_summary_deleted', { conversationId, summaryId });
+    return true;
+  }
+
   // ============================================================================
   // Persona Methods
   // ============================================================================
@@ -2,30 +2,39 @@
  * Delegate WebSocket Handler
  *
  * Handles WebSocket connections from delegate apps.
- * Delegates connect with ?token=JWT&role=delegate&delegateId=xxx
+ * Delegates connect with ?role=delegate and authenticate with a delegate_auth
+ * message carrying a delegate token. The legacy ?token=JWT&delegateId=xxx
+ * query is still accepted.
  */
 
 import { WebSocket } from 'ws';
 import { IncomingMessage } from 'http';
-import { verifyToken } from '../middleware/auth.js';
+import { verifyToken, isDelegateTokenSecret, hashDelegateToken } from '../middleware/auth.js';
 import { Database } from '../database/index.js';
 import { delegateManager } from './delegate-manager.js';
-import { toolRegistry } from '../tools/tool-registry.js';
+import { toolRegistry, type ToolExecutionContext } from '../tools/tool-registry.js';
 import { triggerHandler } from './trigger-handler.js';
 import {
+  DelegateAuthMessageSchema,
   DelegateToServerMessageSchema,
   type ToolManifestMessage,
   type ToolCallResponseMessage,
   type TriggerInferenceMessage,
 } from './protocol.js';
 
+/** How long a delegate has to send delegate_auth after connecting */
+const AUTH_TIMEOUT_MS = 10000;
+
 interface DelegateWebSocket extends WebSocket {
   userId?: string;
   delegateId?: string;
   sessionId?: string;
-  isAlive?: boolean;
 }
 
+type DelegateAuthOutcome =
+  | { userId: string; tokenId?: string }
+  | { error: string };
+
 export function delegateWebsocketHandler(
   ws: DelegateWebSocket,
   req: IncomingMessage,
@@ -36,27 +45,122 @@ export function delegateWebsocketHandler(
   const token = url.searchParams.get('token');
   const delegateId = url.searchParams.get('delegateId');
 
-  if (!token || !delegateId) {
-    console.warn('[DelegateHandler] Missing token or delegateId');
-    ws.close(1008, 'Missing token or delegateId');
+  // Legacy: credentials in the query string
+  if (token) {
+    if (!delegateId) {
+      console.warn('[DelegateHandler] Missing delegateId');
+      ws.close(1008, 'Missing token or delegateId');
+      return;
+    }
+    const outcome = authenticateDelegate(token, delegateId, db);
+    if ('error' in outcome) {
+      rejectDelegate(ws, outcome.error);
+      return;
+    }
+    startSession(ws, db, outcome.userId, delegateId, [], outcome.tokenId);
     return;
   }
 
-  // Authenticate
+  // Otherwise the first message must be delegate_auth
+  const authTimeout = setTimeout(() => {
+    console.warn('[DelegateHandler] No delegate_auth received in time');
+    rejectDelegate(ws, 'Authentication timeout');
+  }, AUTH_TIMEOUT_MS);
+
+  ws.once('message', (data) => {
+    clearTimeout(authTimeout);
+
+    let raw: unknown;
+    try {
+      raw = JSON.parse(data.toString());
+    } catch {
+      raw = undefined;
+    }
+
+    const parsed = DelegateAuthMessageSchema.safeParse(raw);
+    if (!parsed.success) {
+      rejectDelegate(ws, 'Expected delegate_auth');
+      return;
+    }
+
+    const auth = parsed.data;
+    const outcome = authenticateDelegate(auth.token, auth.delegateId, db);
+    if ('error' in outcome) {
+      rejectDelegate(ws, outcome.error);
+      return;
+    }
+    startSession(ws, db, outcome.userId, auth.delegateId, auth.capabilities, outcome.tokenId);
+  });
+
+  ws.on('close', () => clearTimeout(authTimeout));
+}
+
+// =============================================================================
+// Authentication
+// =============================================================================
+
+/**
+ * Check a delegate's credentials: a delegate token (scoped, revocable),
+ * or the user's login JWT (deprecated).
+ */
+function authenticateDelegate(token: string, delegateId: string, db: Database): DelegateAuthOutcome {
+  if (isDelegateTokenSecret(token)) {
+    const record = db.findDelegateTokenByHash(hashDelegateToken(token));
+    if (!record) {
+      return { error: 'Invalid token' };
+    }
+    if (record.revokedAt) {
+      return { error: 'Token has been revoked' };
+    }
+    if (record.expiresAt && new Date(record.expiresAt) < new Date()) {
+      return { error: 'Token has expired' };
+    }
+    if (record.delegateId && record.delegateId !== delegateId) {
+      return { error: `Token is not valid for delegate "${delegateId}"` };
+    }
+
+    db.markDelegateTokenUsed(record.id)
+      .catch(error => console.error('[DelegateHandler] Failed to record token use:', error));
+    return { userId: record.userId, tokenId: record.id };
+  }
+
   const decoded = verifyToken(token);
   if (!decoded) {
-    console.warn('[DelegateHandler] Invalid token');
-    ws.close(1008, 'Authentication failed');
-    return;
+    return { error: 'Invalid or expired token' };
   }
+  console.warn(`[DelegateHandler] Delegate "${delegateId}" authenticated with a login token; create a delegate token in Settings → Delegates instead`);
+  return { userId: decoded.userId };
+}
 
-  const userId = decoded.userId;
+function rejectDelegate(ws: DelegateWebSocket, error: string): void {
+  console.warn(`[DelegateHandler] Authentication failed: ${error}`);
+  if (ws.readyState === WebSocket.OPEN) {
+    ws.send(JSON.stringify({
+      type: 'delegate_auth_result',
+      success: false,
+      error,
+    }));
+  }
+  ws.close(1008, 'Authentication failed');
+}
+
+// =============================================================================
+// Session
+// =============================================================================
+
+function startSession(
+  ws: DelegateWebSocket,
+  db: Database,
+  userId: string,
+  delegateId: string,
+  capabilities: string[],
+  tokenId?: string
+): void {
   ws.userId = userId;
   ws.delegateId = delegateId;
-  ws.isAlive = true;
 
   // Register delegate
-  const sessionId = delegateManager.registerDelegate(ws, userId, delegateId);
+  const sessionId = delegateManager.registerDelegate(ws, userId, delegateId, capabilities, tokenId);
   ws.sessionId = sessionId;
 
   // Send auth result
@@ -69,9 +173,14 @@ export function delegateWebsocketHandler(
 
   console.log(`[DelegateHandler] Delegate "${delegateId}" authenticated for user ${userId}`);
 
+  // Apply the tools the user switched off for this delegate
+  db.getDisabledDelegateTools(userId, delegateId)
+    .then(names => toolRegistry.setDisabledDelegateTools(userId, delegateId, names))
+    .catch(error => console.error(`[DelegateHandler] Failed to load tool settings for "${delegateId}":`, error));
+
   // Handle pong for heartbeat
   ws.on('pong', () => {
-    ws.isAlive = true;
+    delegateManager.touch(sessionId);
   });
 
   // Handle messages
@@ -92,6 +201,7 @@ export function delegateWebsocketHandler(
     }
 
     const msg = parsed.data;
+    delegateManager.touch(sessionId);
 
     switch (msg.type) {
       case 'tool_manifest':
@@ -99,7 +209,28 @@ export function delegateWebsocketHandler(
         break;
 
       case 'tool_call_response':
-        handleToolCallResponse(msg);
+        handleToolCallResponse(msg, sessionId);
+        break;
+
+      case 'tool_call_ack':
+        delegateManager.handleToolCallAck(sessionId, msg);
+        break;
+
+      case 'tool_call_progress':
+        delegateManager.handleToolCallProgress(sessionId, msg);
+        break;
+
+      case 'resource_manifest':
+        delegateManager.updateResources(sessionId, msg.resources);
+        break;
+
+      case 'prompt_manifest':
+        delegateManager.updatePrompts(sessionId, msg.prompts);
+        break;
+
+      case 'resource_read_response':
+      case 'prompt_get_response':
+        delegateManager.handleRequestResponse(sessionId, msg);
         break;
 
       case 'trigger_inference':
@@ -111,7 +242,7 @@ export function delegateWebsocketHandler(
         break;
 
       case 'delegate_auth':
-        // Already authenticated at connection time, ignore re-auth
+        // Already authenticated, ignore re-auth
         break;
 
       default:
@@ -123,11 +254,14 @@ export function delegateWebsocketHandler(
   ws.on('close', (code, reason) => {
     console.log(`[DelegateHandler] Delegate "${delegateId}" disconnected (code: ${code}, reason: ${reason.toString()})`);
 
-    // Unregister from delegate manager (fails pending calls)
+    // Unregister from delegate manager (pending calls wait for a reconnect)
     delegateManager.unregisterDelegate(sessionId);
 
-    // Unregister tools from registry
-    toolRegistry.unregisterDelegateTools(userId, delegateId);
+    // Unregister tools from registry, unless the delegate already reconnected
+    // (a half-open socket may only close after the new session registered its tools)
+    if (!delegateManager.findDelegate(userId, delegateId)) {
+      toolRegistry.unregisterDelegateTools(userId, delegateId);
+    }
   });
 
   ws.on('error', (error) => {
@@ -149,23 +283,31 @@ function handleToolManifest(
   console.log(`[DelegateHandler] Tool manifest from "${delegateId}": ${msg.tools.length} tools`);
 
   // Update tools in delegate manager
-  delegateManager.updateTools(sessionId, msg.tools as any);
+  delegateManager.updateTools(sessionId, msg.tools);
+
+  // Declared timeout/retry policy of each tool, by the name the delegate advertised
+  const policies = new Map(msg.tools.map(t => [t.name, t.execution ?? {}]));
 
   // Register tools in tool registry with delegate executor
   toolRegistry.registerDelegateTools(
     userId,
     delegateId,
     msg.tools as any,
-    async (toolName: string, input: Record<string, unknown>) => {
+    async (toolName: string, input: Record<string, unknown>, context: ToolExecutionContext) => {
       return delegateManager.executeToolOnDelegate(
         delegateId,
         userId,
         { id: '', name: toolName, input },
-        30000
+        policies.get(toolName),
+        context
       );
-    }
+    },
+    { namespaced: msg.namespaced }
   );
 
+  // Pick up calls that were interrupted by a disconnect
+  delegateManager.resumePendingCalls(sessionId);
+
   // Acknowledge manifest receipt
   ws.send(JSON.stringify({
     type: 'tool_manifest_ack',
@@ -174,8 +316,8 @@ function handleToolManifest(
   }));
 }
 
-function handleToolCallResponse(msg: ToolCallResponseMessage): void {
-  delegateManager.handleToolCallResponse(msg);
+async function handleToolCallResponse(msg: ToolCallResponseMessage, sessionId: string): Promise<void> {
+  await delegateManager.handleToolCallResponse(sessionId, msg);
 }
 
 async function handleTriggerInference(
@@ -7,8 +7,36 @@
 
 import { WebSocket } from 'ws';
 import { randomUUID } from 'crypto';
-import type { ToolCallRequestMessage, ToolCallResponseMessage } from './protocol.js';
-import type { ToolDefinition, ToolResult } from '../tools/tool-registry.js';
+import { DELEGATE_CLOSE_DISCONNECTED_BY_USER, DELEGATE_CLOSE_SUPERSEDED } from './protocol.js';
+import type {
+  PromptDefinition,
+  PromptGetRequestMessage,
+  PromptGetResponseMessage,
+  PromptMessage,
+  ResourceContent,
+  ResourceDefinition,
+  ResourceReadRequestMessage,
+  ResourceReadResponseMessage,
+  ToolCallAckMessage,
+  ToolCallCancelMessage,
+  ToolCallProgressMessage,
+  ToolCallRequestMessage,
+  ToolCallResponseMessage,
+  ToolDefinition,
+} from './protocol.js';
+import type {
+  ToolResult,
+  ToolExecutionContext,
+  ToolExecutionPolicy,
+  ToolProgress,
+} from '../tools/tool-registry.js';
+import { storeToolResultBinaries } from '../tools/tool-result-content.js';
+
+const DEFAULT_TOOL_TIMEOUT_MS = 30000;
+/** How long pending tool calls wait for a disconnected delegate to come back */
+const RECONNECT_GRACE_MS = 60000;
+/** How often delegates are pinged; one missed pong terminates the socket */
+const HEARTBEAT_INTERVAL_MS = 30000;
 
 // =============================================================================
 // Types
@@ -18,18 +46,49 @@ export interface ConnectedDelegate {
   delegateId: string;
   userId: string;
   ws: WebSocket;
+  /** Tools as advertised in the delegate's manifest */
   tools: ToolDefinition[];
+  /** Resources and prompt templates listed by the delegate's MCP servers */
+  resources: ResourceDefinition[];
+  prompts: PromptDefinition[];
   capabilities: string[];
   connectedAt: Date;
+  /** Last message or heartbeat received from the delegate */
+  lastSeenAt: Date;
+  /** Answered since the last heartbeat ping (half-open sockets stop answering) */
+  alive: boolean;
   sessionId: string;
+  /** Delegate token the session authenticated with (absent for a login JWT) */
+  tokenId?: string;
 }
 
 interface PendingToolCall {
   resolve: (result: ToolResult) => void;
   reject: (error: Error) => void;
   timeout: ReturnType<typeof setTimeout>;
+  /** Start a fresh timeout (progress from the delegate shows the call is alive) */
+  startTimeout: () => ReturnType<typeof setTimeout>;
+  onProgress?: (progress: ToolProgress) => void;
+  /** Connection the request was (last) sent on */
+  delegate: ConnectedDelegate;
   delegateId: string;
+  userId: string;
   toolName: string;
+  request: ToolCallRequestMessage;
+  /** The delegate confirmed it received the request (tool_call_ack) */
+  acknowledged: boolean;
+  /** Times a received request may still be re-sent after the delegate reconnects (idempotent tools) */
+  retriesLeft: number;
+  /** The delegate disconnected; the call waits (up to RECONNECT_GRACE_MS) for it to reconnect */
+  awaitingReconnect: boolean;
+}
+
+/** A resource read or prompt render waiting for the delegate's answer */
+interface PendingDelegateRequest {
+  resolve: (response: ResourceReadResponseMessage | PromptGetResponseMessage) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
+  sessionId: string;
 }
 
 // =============================================================================
@@ -43,6 +102,11 @@ class DelegateManager {
   /** Pending tool calls keyed by requestId */
   private pendingCalls: Map<string, PendingToolCall> = new Map();
 
+  /** Pending resource reads and prompt renders keyed by requestId */
+  private pendingRequests: Map<string, PendingDelegateRequest> = new Map();
+
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
   // --------------------------------------------------------------------------
   // Delegate Lifecycle
   // --------------------------------------------------------------------------
@@ -55,7 +119,8 @@ class DelegateManager {
     ws: WebSocket,
     userId: string,
     delegateId: string,
-    capabilities: string[] = []
+    capabilities: string[] = [],
+    tokenId?: string
   ): string {
     const sessionId = randomUUID();
 
@@ -64,11 +129,26 @@ class DelegateManager {
       userId,
       ws,
       tools: [],
+      resources: [],
+      prompts: [],
       capabilities,
       connectedAt: new Date(),
+      lastSeenAt: new Date(),
+      alive: true,
       sessionId,
+      tokenId,
     };
 
+    // A reconnect can arrive before the server notices the old socket is gone (half-open).
+    // Retire the old session now, so its pending calls wait for this one's manifest
+    // and its late close can't affect the new session.
+    for (const existing of this.getDelegatesForUser(userId)) {
+      if (existing.delegateId !== delegateId) continue;
+      console.log(`[DelegateManager] Delegate "${delegateId}" reconnected, closing its previous session ${existing.sessionId}`);
+      this.unregisterDelegate(existing.sessionId);
+      existing.ws.close(DELEGATE_CLOSE_SUPERSEDED, 'Replaced by a new connection');
+    }
+
     this.delegates.set(sessionId, delegate);
     console.log(`[DelegateManager] Delegate "${delegateId}" registered for user ${userId} (session: ${sessionId})`);
 
@@ -84,12 +164,101 @@ class DelegateManager {
 
     console.log(`[DelegateManager] Delegate "${delegate.delegateId}" disconnected (session: ${sessionId})`);
 
-    // Fail any pending tool calls for this delegate
-    this.failPendingCalls(delegate.delegateId);
+    // Pending tool calls wait for the delegate to reconnect
+    this.suspendPendingCalls(delegate);
+    this.failPendingRequests(sessionId, delegate.delegateId);
 
     this.delegates.delete(sessionId);
   }
 
+  /**
+   * Record that a delegate is alive (any message or heartbeat).
+   */
+  touch(sessionId: string): void {
+    const delegate = this.delegates.get(sessionId);
+    if (!delegate) return;
+    delegate.lastSeenAt = new Date();
+    delegate.alive = true;
+  }
+
+  /**
+   * Start pinging delegates, to find half-open sockets (e.g. after a network
+   * change) so their sessions close and pending calls wait for the reconnect.
+   */
+  startHeartbeat(): void {
+    if (this.heartbeatTimer) return;
+    this.heartbeatTimer = setInterval(() => this.performHeartbeat(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Ping every delegate and terminate those that did not answer the previous ping.
+   * Terminating closes the socket, which unregisters the session.
+   */
+  private performHeartbeat(): void {
+    for (const delegate of this.delegates.values()) {
+      if (!delegate.alive) {
+        console.log(`[DelegateManager] Terminating unresponsive delegate "${delegate.delegateId}" (session: ${delegate.sessionId})`);
+        delegate.ws.terminate();
+        continue;
+      }
+
+      delegate.alive = false;
+      try {
+        delegate.ws.ping();
+      } catch (error) {
+        console.error(`[DelegateManager] Failed to ping delegate "${delegate.delegateId}":`, error);
+      }
+    }
+  }
+
+  /**
+   * Close a user's delegate session at their request.
+   * The close code tells the delegate not to reconnect on its own.
+   * @returns false if the session does not exist or belongs to another user
+   */
+  disconnectDelegate(sessionId: string, userId: string): boolean {
+    const delegate = this.delegates.get(sessionId);
+    if (!delegate || delegate.userId !== userId) return false;
+
+    console.log(`[DelegateManager] Disconnecting delegate "${delegate.delegateId}" at user's request (session: ${sessionId})`);
+    delegate.ws.close(DELEGATE_CLOSE_DISCONNECTED_BY_USER, 'Disconnected by user');
+    return true;
+  }
+
+  /**
+   * Close every session that authenticated with a (now revoked) delegate token.
+   * @returns the number of sessions closed
+   */
+  disconnectTokenSessions(tokenId: string): number {
+    let count = 0;
+    for (const delegate of this.delegates.values()) {
+      if (delegate.tokenId !== tokenId) continue;
+      console.log(`[DelegateManager] Disconnecting delegate "${delegate.delegateId}": token revoked (session: ${delegate.sessionId})`);
+      delegate.ws.close(DELEGATE_CLOSE_DISCONNECTED_BY_USER, 'Token revoked');
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Number of tool calls waiting for a delegate session's answer.
+   */
+  getPendingCallCount(sessionId: string): number {
+    let count = 0;
+    for (const pending of this.pendingCalls.values()) {
+      if (pending.delegate.sessionId === sessionId && !pending.awaitingReconnect) count++;
+    }
+    return count;
+  }
+
   /**
    * Update the tool manifest for a delegate.
    */
@@ -104,6 +273,26 @@ class DelegateManager {
     console.log(`[DelegateManager] Delegate "${delegate.delegateId}" updated tools: ${tools.map(t => t.name).join(', ')}`);
   }
 
+  /**
+   * Update the resources a delegate's MCP servers list.
+   */
+  updateResources(sessionId: string, resources: ResourceDefinition[]): void {
+    const delegate = this.delegates.get(sessionId);
+    if (!delegate) return;
+    delegate.resources = resources;
+    console.log(`[DelegateManager] Delegate "${delegate.delegateId}" updated resources: ${resources.length}`);
+  }
+
+  /**
+   * Update the prompt templates a delegate's MCP servers list.
+   */
+  updatePrompts(sessionId: string, prompts: PromptDefinition[]): void {
+    const delegate = this.delegates.get(sessionId);
+    if (!delegate) return;
+    delegate.prompts = prompts;
+    console.log(`[DelegateManager] Delegate "${delegate.delegateId}" updated prompts: ${prompts.map(p => p.name).join(', ')}`);
+  }
+
   /**
    * Get a delegate by session ID.
    */
@@ -143,13 +332,25 @@ class DelegateManager {
   /**
    * Execute a tool call on a delegate.
    * Sends the request via WebSocket and waits for the response (with timeout).
+   * The calling conversation, message, branch and participant from the context
+   * are forwarded to the delegate. Aborting the context's signal (or timing out)
+   * stops waiting and tells the delegate to cancel the call.
+   * Progress updates are passed to context.onProgress and restart the timeout.
+   *
+   * The policy sets the timeout (default 30s). If the delegate disconnects, the
+   * call waits up to RECONNECT_GRACE_MS for the same delegate id to reconnect.
+   * Requests the delegate never acknowledged are then redelivered, as are calls
+   * to idempotent tools (up to maxRetries times); for other calls the server
+   * waits for the delegate's late response.
    */
   async executeToolOnDelegate(
     delegateId: string,
     userId: string,
     call: { id: string; name: string; input: Record<string, unknown> },
-    timeoutMs: number = 30000
+    policy: ToolExecutionPolicy = {},
+    context?: ToolExecutionContext
   ): Promise<ToolResult> {
+    const timeoutMs = policy.timeoutMs ?? DEFAULT_TOOL_TIMEOUT_MS;
     const delegate = this.findDelegate(userId, delegateId);
     if (!delegate) {
       return {
@@ -167,13 +368,26 @@ class DelegateManager {
       };
     }
 
+    const signal = context?.abortSignal;
+    if (signal?.aborted) {
+      return {
+        toolUseId: call.id,
+        content: 'Generation was aborted before the tool call was sent.',
+        isError: true,
+      };
+    }
+
     const requestId = randomUUID();
 
     // Send tool call request to delegate
     const request: ToolCallRequestMessage = {
       type: 'tool_call_request',
       requestId,
-      conversationId: '', // Will be set by caller if needed
+      conversationId: context?.conversationId ?? '',
+      messageId: context?.messageId,
+      branchId: context?.branchId,
+      participantId: context?.participantId,
+      triggeredByUserId: context?.triggeredByUserId,
       tool: {
         id: call.id,
         name: call.name,
@@ -182,24 +396,53 @@ class DelegateManager {
       timeout: timeoutMs,
     };
 
-    return new Promise<ToolResult>((resolve, reject) => {
+    return new Promise<ToolResult>((settle, reject) => {
+      const onAbort = () => {
+        const pending = this.pendingCalls.get(requestId);
+        if (!pending) return;
+        clearTimeout(pending.timeout);
+        this.pendingCalls.delete(requestId);
+        this.sendCancel(pending.delegate, requestId, 'Generation stopped');
+        resolve({
+          toolUseId: call.id,
+          content: `Tool call aborted (delegate: ${delegateId}, tool: ${call.name})`,
+          isError: true,
+        });
+      };
+      const resolve = (result: ToolResult) => {
+        signal?.removeEventListener('abort', onAbort);
+        settle(result);
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
       // Set up timeout
-      const timeout = setTimeout(() => {
+      const startTimeout = () => setTimeout(() => {
+        const pending = this.pendingCalls.get(requestId);
         this.pendingCalls.delete(requestId);
+        if (pending) this.sendCancel(pending.delegate, requestId, `Timed out after ${timeoutMs}ms`);
         resolve({
           toolUseId: call.id,
           content: `Tool call timed out after ${timeoutMs}ms (delegate: ${delegateId}, tool: ${call.name})`,
           isError: true,
         });
       }, timeoutMs);
+      const timeout = startTimeout();
 
       // Store pending call
       this.pendingCalls.set(requestId, {
         resolve,
         reject,
         timeout,
+        startTimeout,
+        onProgress: context?.onProgress,
+        delegate,
         delegateId,
+        userId,
         toolName: call.name,
+        request,
+        acknowledged: false,
+        retriesLeft: policy.idempotent ? policy.maxRetries ?? 1 : 0,
+        awaitingReconnect: false,
       });
 
       // Send request to delegate
@@ -219,9 +462,12 @@ class DelegateManager {
 
   /**
    * Handle a tool call response from a delegate.
+   * The response may arrive on a later session than the request (after a
+   * reconnect), but must come from the same user's delegate id.
+   * Images and binary resources in the result are moved to the BlobStore first.
    */
-  handleToolCallResponse(msg: ToolCallResponseMessage): void {
-    const pending = this.pendingCalls.get(msg.requestId);
+  async handleToolCallResponse(sessionId: string, msg: ToolCallResponseMessage): Promise<void> {
+    const pending = this.findPendingCall(sessionId, msg.requestId);
     if (!pending) {
       console.warn(`[DelegateManager] Received response for unknown requestId: ${msg.requestId}`);
       return;
@@ -232,28 +478,246 @@ class DelegateManager {
 
     pending.resolve({
       toolUseId: msg.toolUseId,
-      content: msg.result.content,
+      content: await storeToolResultBinaries(msg.result.content),
       isError: msg.result.isError,
     });
   }
 
   /**
-   * Fail all pending tool calls for a delegate (e.g., on disconnect).
+   * Record that a delegate received a tool call request.
    */
-  private failPendingCalls(delegateId: string): void {
+  handleToolCallAck(sessionId: string, msg: ToolCallAckMessage): void {
+    const pending = this.findPendingCall(sessionId, msg.requestId);
+    if (pending) pending.acknowledged = true;
+  }
+
+  /**
+   * Handle a progress update for a running tool call from a delegate.
+   */
+  handleToolCallProgress(sessionId: string, msg: ToolCallProgressMessage): void {
+    const pending = this.findPendingCall(sessionId, msg.requestId);
+    if (!pending) return;
+
+    clearTimeout(pending.timeout);
+    pending.timeout = pending.startTimeout();
+    pending.onProgress?.({ message: msg.message, percentage: msg.percentage });
+  }
+
+  /**
+   * A pending call, if it belongs to the delegate behind this session.
+   */
+  private findPendingCall(sessionId: string, requestId: string): PendingToolCall | undefined {
+    const delegate = this.delegates.get(sessionId);
+    const pending = this.pendingCalls.get(requestId);
+    if (!delegate || !pending) return undefined;
+    if (pending.userId !== delegate.userId || pending.delegateId !== delegate.delegateId) {
+      console.warn(`[DelegateManager] Delegate "${delegate.delegateId}" answered a call it was not sent: ${requestId}`);
+      return undefined;
+    }
+    return pending;
+  }
+
+  /**
+   * Tell a delegate to stop an in-flight tool call (best-effort).
+   */
+  private sendCancel(delegate: ConnectedDelegate, requestId: string, reason: string): void {
+    if (delegate.ws.readyState !== WebSocket.OPEN) return;
+    const cancel: ToolCallCancelMessage = { type: 'tool_call_cancel', requestId, reason };
+    try {
+      delegate.ws.send(JSON.stringify(cancel));
+      console.log(`[DelegateManager] Cancelled tool call ${requestId} on delegate "${delegate.delegateId}": ${reason}`);
+    } catch (error) {
+      console.warn(`[DelegateManager] Failed to send tool_call_cancel to "${delegate.delegateId}":`, error);
+    }
+  }
+
+  /**
+   * Resume calls that were waiting for this delegate to reconnect.
+   * Called once the reconnected delegate's tool manifest is registered;
+   * calls to tools it no longer provides are failed.
+   */
+  resumePendingCalls(sessionId: string): void {
+    const delegate = this.delegates.get(sessionId);
+    if (!delegate) return;
+
     for (const [requestId, pending] of this.pendingCalls) {
-      if (pending.delegateId === delegateId) {
+      if (!pending.awaitingReconnect) continue;
+      if (pending.userId !== delegate.userId || pending.delegateId !== delegate.delegateId) continue;
+
+      clearTimeout(pending.timeout);
+      if (!delegate.tools.some(t => t.name === pending.toolName)) {
+        this.pendingCalls.delete(requestId);
+        pending.resolve({
+          toolUseId: '',
+          content: `Delegate "${delegate.delegateId}" reconnected without tool "${pending.toolName}"`,
+          isError: true,
+        });
+        continue;
+      }
+
+      pending.delegate = delegate;
+      pending.awaitingReconnect = false;
+      pending.timeout = pending.startTimeout();
+
+      // A received call to a non-idempotent tool must not run twice: wait for its late response
+      if (pending.acknowledged && pending.retriesLeft <= 0) {
+        console.log(`[DelegateManager] Waiting for late response to tool call ${requestId} (${pending.toolName}) from "${delegate.delegateId}"`);
+        continue;
+      }
+
+      if (pending.acknowledged) pending.retriesLeft--;
+      try {
+        delegate.ws.send(JSON.stringify(pending.request));
+        console.log(`[DelegateManager] ${pending.acknowledged ? 'Retrying' : 'Redelivering'} tool call ${requestId} (${pending.toolName}) on reconnected delegate "${delegate.delegateId}"`);
+      } catch (error) {
         clearTimeout(pending.timeout);
         this.pendingCalls.delete(requestId);
         pending.resolve({
           toolUseId: '',
-          content: `Delegate "${delegateId}" disconnected during tool execution (tool: ${pending.toolName})`,
+          content: `Failed to re-send tool call to delegate "${delegate.delegateId}": ${error instanceof Error ? error.message : String(error)}`,
           isError: true,
         });
       }
     }
   }
 
+  /**
+   * Hold a disconnected delegate's pending tool calls for RECONNECT_GRACE_MS.
+   * They fail if the delegate does not reconnect (or answer) in time.
+   */
+  private suspendPendingCalls(delegate: ConnectedDelegate): void {
+    for (const [requestId, pending] of this.pendingCalls) {
+      if (pending.delegate !== delegate) continue;
+
+      clearTimeout(pending.timeout);
+      pending.awaitingReconnect = true;
+      pending.timeout = setTimeout(() => {
+        if (this.pendingCalls.get(requestId) !== pending) return;
+        this.pendingCalls.delete(requestId);
+        pending.resolve({
+          toolUseId: '',
+          content: `Delegate "${delegate.delegateId}" disconnected during tool execution and did not reconnect within ${RECONNECT_GRACE_MS / 1000}s (tool: ${pending.toolName})`,
+          isError: true,
+        });
+      }, RECONNECT_GRACE_MS);
+      console.log(`[DelegateManager] Tool call ${requestId} (${pending.toolName}) is waiting for "${delegate.delegateId}" to reconnect`);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Resources and Prompts
+  // --------------------------------------------------------------------------
+
+  /**
+   * Read a resource from one of a delegate's MCP servers.
+   * Throws if the delegate is not connected, times out, or reports an error.
+   */
+  async readResource(
+    userId: string,
+    delegateId: string,
+    server: string,
+    uri: string,
+    timeoutMs: number = DEFAULT_TOOL_TIMEOUT_MS
+  ): Promise<ResourceContent[]> {
+    const request: ResourceReadRequestMessage = {
+      type: 'resource_read_request',
+      requestId: randomUUID(),
+      server,
+      uri,
+    };
+    const response = await this.sendRequest(userId, delegateId, request, timeoutMs);
+    if (response.type !== 'resource_read_response' || response.error) {
+      throw new Error(response.error || 'Unexpected response from delegate');
+    }
+    return response.contents ?? [];
+  }
+
+  /**
+   * Render a prompt template from one of a delegate's MCP servers.
+   * Throws if the delegate is not connected, times out, or reports an error.
+   */
+  async getPrompt(
+    userId: string,
+    delegateId: string,
+    server: string,
+    name: string,
+    args: Record<string, string>,
+    timeoutMs: number = DEFAULT_TOOL_TIMEOUT_MS
+  ): Promise<{ description?: string; messages: PromptMessage[] }> {
+    const request: PromptGetRequestMessage = {
+      type: 'prompt_get_request',
+      requestId: randomUUID(),
+      server,
+      name,
+      arguments: args,
+    };
+    const response = await this.sendRequest(userId, delegateId, request, timeoutMs);
+    if (response.type !== 'prompt_get_response' || response.error) {
+      throw new Error(response.error || 'Unexpected response from delegate');
+    }
+    return { description: response.description, messages: response.messages ?? [] };
+  }
+
+  /**
+   * Handle the answer to a resource read or prompt render.
+   * Only the session the request was sent to may answer it.
+   */
+  handleRequestResponse(sessionId: string, msg: ResourceReadResponseMessage | PromptGetResponseMessage): void {
+    const pending = this.pendingRequests.get(msg.requestId);
+    if (!pending) {
+      console.warn(`[DelegateManager] Received ${msg.type} for unknown requestId: ${msg.requestId}`);
+      return;
+    }
+    if (pending.sessionId !== sessionId) {
+      console.warn(`[DelegateManager] Session ${sessionId} answered a request it was not sent: ${msg.requestId}`);
+      return;
+    }
+
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(msg.requestId);
+    pending.resolve(msg);
+  }
+
+  private sendRequest(
+    userId: string,
+    delegateId: string,
+    request: ResourceReadRequestMessage | PromptGetRequestMessage,
+    timeoutMs: number
+  ): Promise<ResourceReadResponseMessage | PromptGetResponseMessage> {
+    const delegate = this.findDelegate(userId, delegateId);
+    if (!delegate || delegate.ws.readyState !== WebSocket.OPEN) {
+      return Promise.reject(new Error(`Delegate "${delegateId}" is not connected.`));
+    }
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingRequests.delete(request.requestId);
+        reject(new Error(`Delegate "${delegateId}" did not answer within ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.pendingRequests.set(request.requestId, { resolve, reject, timeout, sessionId: delegate.sessionId });
+
+      try {
+        delegate.ws.send(JSON.stringify(request));
+      } catch (error) {
+        clearTimeout(timeout);
+        this.pendingRequests.delete(request.requestId);
+        reject(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  /**
+   * Reject resource reads and prompt renders sent to a delegate session that disconnected.
+   */
+  private failPendingRequests(sessionId: string, delegateId: string): void {
+    for (const [requestId, pending] of this.pendingRequests) {
+      if (pending.sessionId !== sessionId) continue;
+      clearTimeout(pending.timeout);
+      this.pendingRequests.delete(requestId);
+      pending.reject(new Error(`Delegate "${delegateId}" disconnected`));
+    }
+  }
+
   // --------------------------------------------------------------------------
   // Stats
   // --------------------------------------------------------------------------
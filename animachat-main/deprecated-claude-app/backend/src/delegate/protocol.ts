@@ -7,10 +7,24 @@
 
 import { z } from 'zod';
 
+/** WebSocket close code used when a user disconnects their delegate; the delegate must not reconnect */
+export const DELEGATE_CLOSE_DISCONNECTED_BY_USER = 4001;
+
+/** WebSocket close code for a session replaced by a newer connection with the same delegate id */
+export const DELEGATE_CLOSE_SUPERSEDED = 4002;
+
 // =============================================================================
 // Tool Definition Schema (Membrane-compatible)
 // =============================================================================
 
+/** Declared timeout and retry behaviour for a tool */
+export const ToolExecutionPolicySchema = z.object({
+  timeoutMs: z.number().int().positive().optional(),
+  maxRetries: z.number().int().min(0).optional(),
+  // Safe to re-send if the delegate disconnected before answering
+  idempotent: z.boolean().optional(),
+});
+
 export const ToolDefinitionSchema = z.object({
   name: z.string(),
   description: z.string(),
@@ -19,6 +33,78 @@ export const ToolDefinitionSchema = z.object({
     properties: z.record(z.unknown()),
     required: z.array(z.string()).optional(),
   }),
+  // Delegate-side hint: the server must get human approval before each call
+  requiresApproval: z.boolean().optional(),
+  // Set when the delegate qualified the name: the MCP server's own tool name
+  originalName: z.string().optional(),
+  // The MCP server on the delegate that provides this tool
+  server: z.string().optional(),
+  execution: ToolExecutionPolicySchema.optional(),
+});
+
+// =============================================================================
+// Tool Result Content
+// =============================================================================
+
+/**
+ * Parts of a structured tool result (images and embedded MCP resources).
+ * Plain-text results are sent as a string instead. Binary data is base64.
+ */
+export const ToolResultContentPartSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('text'),
+    text: z.string(),
+  }),
+  z.object({
+    type: z.literal('image'),
+    mimeType: z.string(),
+    data: z.string(),
+  }),
+  z.object({
+    type: z.literal('resource'),
+    uri: z.string(),
+    mimeType: z.string().optional(),
+    text: z.string().optional(),
+    data: z.string().optional(),
+  }),
+]);
+
+// =============================================================================
+// Resources and Prompts
+// =============================================================================
+
+/** A resource listed by one of the delegate's MCP servers */
+export const ResourceDefinitionSchema = z.object({
+  uri: z.string(),
+  name: z.string(),
+  description: z.string().optional(),
+  mimeType: z.string().optional(),
+  server: z.string(),
+});
+
+/** A prompt template listed by one of the delegate's MCP servers */
+export const PromptDefinitionSchema = z.object({
+  name: z.string(),
+  description: z.string().optional(),
+  arguments: z.array(z.object({
+    name: z.string(),
+    description: z.string().optional(),
+    required: z.boolean().optional(),
+  })).default([]),
+  server: z.string(),
+});
+
+/** Contents of a resource that was read (binary data is base64) */
+export const ResourceContentSchema = z.object({
+  uri: z.string(),
+  mimeType: z.string().optional(),
+  text: z.string().optional(),
+  data: z.string().optional(),
+});
+
+export const PromptMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  text: z.string(),
 });
 
 // =============================================================================
@@ -36,19 +122,66 @@ export const DelegateAuthMessageSchema = z.object({
 export const ToolManifestMessageSchema = z.object({
   type: z.literal('tool_manifest'),
   delegateId: z.string(),
+  // Qualify these tools with the delegate id in the registry ("laptop__read_file")
+  namespaced: z.boolean().default(false),
   tools: z.array(ToolDefinitionSchema),
 });
 
+export const ResourceManifestMessageSchema = z.object({
+  type: z.literal('resource_manifest'),
+  delegateId: z.string(),
+  resources: z.array(ResourceDefinitionSchema),
+});
+
+export const PromptManifestMessageSchema = z.object({
+  type: z.literal('prompt_manifest'),
+  delegateId: z.string(),
+  prompts: z.array(PromptDefinitionSchema),
+});
+
+// Answer to a resource_read_request: the contents, or an error
+export const ResourceReadResponseMessageSchema = z.object({
+  type: z.literal('resource_read_response'),
+  requestId: z.string(),
+  contents: z.array(ResourceContentSchema).optional(),
+  error: z.string().optional(),
+});
+
+// Answer to a prompt_get_request: the rendered messages, or an error
+export const PromptGetResponseMessageSchema = z.object({
+  type: z.literal('prompt_get_response'),
+  requestId: z.string(),
+  description: z.string().optional(),
+  messages: z.array(PromptMessageSchema).optional(),
+  error: z.string().optional(),
+});
+
 export const ToolCallResponseMessageSchema = z.object({
   type: z.literal('tool_call_response'),
   requestId: z.string(),
   toolUseId: z.string(),
   result: z.object({
-    content: z.union([z.string(), z.array(z.any())]),
+    content: z.union([z.string(), z.array(ToolResultContentPartSchema)]),
     isError: z.boolean().default(false),
   }),
 });
 
+// Progress of a running tool call (forwarded from MCP progress notifications)
+// Sent as soon as a tool_call_request arrives, so the server knows whether to
+// redeliver it after a reconnect
+export const ToolCallAckMessageSchema = z.object({
+  type: z.literal('tool_call_ack'),
+  requestId: z.string(),
+});
+
+export const ToolCallProgressMessageSchema = z.object({
+  type: z.literal('tool_call_progress'),
+  requestId: z.string(),
+  toolUseId: z.string(),
+  message: z.string().optional(), // Latest status or partial output
+  percentage: z.number().min(0).max(100).optional(),
+});
+
 export const TriggerInferenceMessageSchema = z.object({
   type: z.literal('trigger_inference'),
   triggerId: z.string(),
@@ -57,6 +190,18 @@ export const TriggerInferenceMessageSchema = z.object({
   participantId: z.string().optional(),
   context: z.record(z.unknown()).default({}),
   systemMessage: z.string().optional(),
+  // Id of the webhook delivery; redeliveries are answered with the first one's result
+  deliveryId: z.string().optional(),
+  // Coalesce triggers for the same conversation arriving within this window into one message
+  debounceSeconds: z.number().min(0).max(300).optional(),
+  // Branch to add the trigger message under, directly or via a bookmark (id or label);
+  // the end of the active path when neither is set
+  parentBranchId: z.string().optional(),
+  bookmark: z.string().optional(),
+  // User participant (id or name) the trigger message is sent as; the first user participant by default
+  speaker: z.string().optional(),
+  // Assistant participant (id or name) that responds; takes precedence over participantId
+  responder: z.string().optional(),
 });
 
 export const DelegatePingMessageSchema = z.object({
@@ -79,8 +224,12 @@ export const DelegateAuthResultMessageSchema = z.object({
 export const ToolCallRequestMessageSchema = z.object({
   type: z.literal('tool_call_request'),
   requestId: z.string(),
+  // Where the call comes from, so the delegate can keep per-conversation state
   conversationId: z.string(),
   messageId: z.string().optional(),
+  branchId: z.string().optional(),
+  participantId: z.string().optional(),
+  triggeredByUserId: z.string().optional(),
   tool: z.object({
     id: z.string(),
     name: z.string(),
@@ -89,6 +238,30 @@ export const ToolCallRequestMessageSchema = z.object({
   timeout: z.number().default(30000),
 });
 
+// Stop an in-flight tool call (the generation was stopped or the call timed out)
+export const ToolCallCancelMessageSchema = z.object({
+  type: z.literal('tool_call_cancel'),
+  requestId: z.string(),
+  reason: z.string().optional(),
+});
+
+// Read a resource from one of the delegate's MCP servers
+export const ResourceReadRequestMessageSchema = z.object({
+  type: z.literal('resource_read_request'),
+  requestId: z.string(),
+  server: z.string(),
+  uri: z.string(),
+});
+
+// Render a prompt template from one of the delegate's MCP servers
+export const PromptGetRequestMessageSchema = z.object({
+  type: z.literal('prompt_get_request'),
+  requestId: z.string(),
+  server: z.string(),
+  name: z.string(),
+  arguments: z.record(z.string()).default({}),
+});
+
 export const TriggerInferenceResultMessageSchema = z.object({
   type: z.literal('trigger_inference_result'),
   triggerId: z.string(),
@@ -97,6 +270,10 @@ export const TriggerInferenceResultMessageSchema = z.object({
   messageId: z.string().optional(),
   response: z.string().optional(),
   error: z.string().optional(),
+  // Redelivery of an earlier trigger; the result is that trigger's
+  duplicate: z.boolean().optional(),
+  // Coalesced with later triggers; the result is shared with (and reported by) this one
+  coalescedInto: z.string().optional(),
 });
 
 export const DelegatePongMessageSchema = z.object({
@@ -112,7 +289,13 @@ export const DelegatePongMessageSchema = z.object({
 export const DelegateToServerMessageSchema = z.discriminatedUnion('type', [
   DelegateAuthMessageSchema,
   ToolManifestMessageSchema,
+  ResourceManifestMessageSchema,
+  PromptManifestMessageSchema,
+  ResourceReadResponseMessageSchema,
+  PromptGetResponseMessageSchema,
   ToolCallResponseMessageSchema,
+  ToolCallAckMessageSchema,
+  ToolCallProgressMessageSchema,
   TriggerInferenceMessageSchema,
   DelegatePingMessageSchema,
 ]);
@@ -121,6 +304,9 @@ export const DelegateToServerMessageSchema = z.discriminatedUnion('type', [
 export const ServerToDelegateMessageSchema = z.discriminatedUnion('type', [
   DelegateAuthResultMessageSchema,
   ToolCallRequestMessageSchema,
+  ToolCallCancelMessageSchema,
+  ResourceReadRequestMessageSchema,
+  PromptGetRequestMessageSchema,
   TriggerInferenceResultMessageSchema,
   DelegatePongMessageSchema,
 ]);
@@ -130,13 +316,29 @@ export const ServerToDelegateMessageSchema = z.discriminatedUnion('type', [
 // =============================================================================
 
 export type DelegateAuthMessage = z.infer<typeof DelegateAuthMessageSchema>;
+export type ToolExecutionPolicy = z.infer<typeof ToolExecutionPolicySchema>;
+export type ToolDefinition = z.infer<typeof ToolDefinitionSchema>;
 export type ToolManifestMessage = z.infer<typeof ToolManifestMessageSchema>;
+export type ToolResultContentPart = z.infer<typeof ToolResultContentPartSchema>;
+export type ResourceDefinition = z.infer<typeof ResourceDefinitionSchema>;
+export type PromptDefinition = z.infer<typeof PromptDefinitionSchema>;
+export type ResourceContent = z.infer<typeof ResourceContentSchema>;
+export type PromptMessage = z.infer<typeof PromptMessageSchema>;
+export type ResourceManifestMessage = z.infer<typeof ResourceManifestMessageSchema>;
+export type PromptManifestMessage = z.infer<typeof PromptManifestMessageSchema>;
+export type ResourceReadResponseMessage = z.infer<typeof ResourceReadResponseMessageSchema>;
+export type PromptGetResponseMessage = z.infer<typeof PromptGetResponseMessageSchema>;
 export type ToolCallResponseMessage = z.infer<typeof ToolCallResponseMessageSchema>;
+export type ToolCallAckMessage = z.infer<typeof ToolCallAckMessageSchema>;
+export type ToolCallProgressMessage = z.infer<typeof ToolCallProgressMessageSchema>;
 export type TriggerInferenceMessage = z.infer<typeof TriggerInferenceMessageSchema>;
 export type DelegatePingMessage = z.infer<typeof DelegatePingMessageSchema>;
 
 export type DelegateAuthResultMessage = z.infer<typeof DelegateAuthResultMessageSchema>;
 export type ToolCallRequestMessage = z.infer<typeof ToolCallRequestMessageSchema>;
+export type ToolCallCancelMessage = z.infer<typeof ToolCallCancelMessageSchema>;
+export type ResourceReadRequestMessage = z.infer<typeof ResourceReadRequestMessageSchema>;
+export type PromptGetRequestMessage = z.infer<typeof PromptGetRequestMessageSchema>;
 export type TriggerInferenceResultMessage = z.infer<typeof TriggerInferenceResultMessageSchema>;
 export type DelegatePongMessage = z.infer<typeof DelegatePongMessageSchema>;
 
@@ -11,218 +11,525 @@
  *   → delegate sends trigger_inference via WS → delegate-handler.ts
  *   → triggerHandler.handleTrigger() → creates messages + runs inference
  *   → response streams to chat UI + returned to delegate
+ *
+ * Trigger messages and responses are placed and built like chat messages
+ * (see services/chat-pipeline.ts), optionally on a given branch or bookmark,
+ * sent as a user participant and answered by a chosen responder.
+ *
+ * Webhook senders retry and pushes come in bursts, so triggers are
+ * deduplicated by delivery id, optionally debounced into one message,
+ * and run one at a time per conversation.
  */
 
+import type { Participant } from '@deprecated-claude/shared';
 import { Database } from '../database/index.js';
 import { MembraneInferenceService } from '../services/membrane-inference.js';
-import { EnhancedInferenceService } from '../services/enhanced-inference.js';
+import { EnhancedInferenceService, validatePricingAvailable } from '../services/enhanced-inference.js';
 import { ContextManager } from '../services/context-manager.js';
+import { ContextSummarizer } from '../services/context-summarizer.js';
 import { ModelLoader } from '../config/model-loader.js';
 import { toolRegistry } from '../tools/tool-registry.js';
 import { roomManager } from '../websocket/room-manager.js';
-import type { ToolCall, ToolResult } from '../tools/tool-registry.js';
+import { startBackgroundGeneration, endBackgroundGeneration } from '../websocket/handler.js';
+import type { ToolCall, ToolResult, ToolExecutionContext, ToolProgress } from '../tools/tool-registry.js';
+import { toolApprovalManager, type ToolApprovalDecision } from '../tools/tool-approvals.js';
+import { recordToolCall, type ToolCallLogScope } from '../tools/tool-call-log.js';
+import { userHasSufficientCredits } from '../services/credits.js';
+import {
+  applyBackroomPromptIfNeeded,
+  buildConversationHistory,
+  filterHiddenFromAiMessages,
+  mergeInferenceSettings,
+  createMessageUnderParent,
+} from '../services/chat-pipeline.js';
 import type { TriggerInferenceMessage, TriggerInferenceResultMessage } from './protocol.js';
 
+/** Triggers running at once in one conversation; later ones wait their turn */
+const MAX_CONCURRENT_TRIGGERS_PER_CONVERSATION = 1;
+
+/** Triggers waiting per conversation before new ones are rejected */
+const MAX_QUEUED_TRIGGERS_PER_CONVERSATION = 10;
+
+/** How long a delivery id is remembered after its trigger was received */
+const DELIVERY_TTL_MS = 60 * 60 * 1000;
+
+/** How long an approval-gated tool call waits for someone in the room; nobody may be watching */
+const TRIGGER_APPROVAL_TIMEOUT_MS = 60 * 1000;
+
+interface HandledDelivery {
+  triggerId: string;
+  result: Promise<TriggerInferenceResultMessage>;
+  expiresAt: number;
+}
+
+/** Triggers collected during a debounce window */
+interface DebounceBatch {
+  triggers: Array<{
+    msg: TriggerInferenceMessage;
+    resolve: (result: TriggerInferenceResultMessage) => void;
+  }>;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/** Running and waiting triggers of one conversation */
+interface ConversationLane {
+  running: number;
+  waiting: Array<() => void>;
+}
+
 class TriggerHandler {
+  /** Recent delivery ids, keyed by `${userId}:${deliveryId}` (oldest first) */
+  private deliveries: Map<string, HandledDelivery> = new Map();
+  /** Open debounce windows, keyed by user, conversation, target and source */
+  private batches: Map<string, DebounceBatch> = new Map();
+  private lanes: Map<string, ConversationLane> = new Map();
+
   /**
    * Handle a trigger inference request from a delegate.
    *
-   * Steps:
-   * 1. Validate conversation exists
-   * 2. Add trigger context as a user message
-   * 3. Create assistant response placeholder
-   * 4. Run inference (streams to connected UI clients)
-   * 5. Return the model's response to the delegate
+   * A redelivered trigger (same deliveryId) gets the first delivery's result
+   * instead of running again; failed deliveries may be retried. Triggers with
+   * debounceSeconds are coalesced with others for the same conversation.
    */
   async handleTrigger(
     msg: TriggerInferenceMessage,
     userId: string,
     db: Database
   ): Promise<TriggerInferenceResultMessage> {
+    console.log(`[TriggerHandler] Received trigger "${msg.triggerId}" from source "${msg.source}" for user ${userId}`);
+
+    if (!msg.deliveryId) {
+      return this.dispatch(msg, userId, db);
+    }
+
+    this.pruneDeliveries();
+    const key = `${userId}:${msg.deliveryId}`;
+    const earlier = this.deliveries.get(key);
+    if (earlier) {
+      console.log(`[TriggerHandler] Delivery ${msg.deliveryId} was already received as trigger "${earlier.triggerId}", not running "${msg.triggerId}"`);
+      const result = await earlier.result;
+      return { ...result, triggerId: msg.triggerId, duplicate: true };
+    }
+
+    const result = this.dispatch(msg, userId, db);
+    this.deliveries.set(key, { triggerId: msg.triggerId, result, expiresAt: Date.now() + DELIVERY_TTL_MS });
+    result.then(r => {
+      if (!r.success) this.deliveries.delete(key);
+    });
+    return result;
+  }
+
+  // --------------------------------------------------------------------------
+  // Deduplication, debouncing and concurrency
+  // --------------------------------------------------------------------------
+
+  private dispatch(
+    msg: TriggerInferenceMessage,
+    userId: string,
+    db: Database
+  ): Promise<TriggerInferenceResultMessage> {
+    if (msg.debounceSeconds && msg.conversationId) {
+      return this.debounce(msg, userId, db);
+    }
+    return this.runInLane([msg], userId, db);
+  }
+
+  /**
+   * Hold a trigger until its debounce window closes. The window opens with the
+   * first trigger; everything arriving before it closes becomes one message.
+   */
+  private debounce(
+    msg: TriggerInferenceMessage,
+    userId: string,
+    db: Database
+  ): Promise<TriggerInferenceResultMessage> {
+    // Only triggers with the same target share a window
+    const key = [
+      userId,
+      msg.conversationId,
+      msg.responder ?? msg.participantId ?? '',
+      msg.speaker ?? '',
+      msg.bookmark ?? msg.parentBranchId ?? '',
+      msg.source,
+    ].join(':');
+    let batch = this.batches.get(key);
+    if (!batch) {
+      batch = {
+        triggers: [],
+        timer: setTimeout(() => this.flushBatch(key, userId, db), msg.debounceSeconds! * 1000),
+      };
+      this.batches.set(key, batch);
+    }
+
+    const triggers = batch.triggers;
+    return new Promise(resolve => triggers.push({ msg, resolve }));
+  }
+
+  /**
+   * Run a closed debounce window as one trigger. The last trigger carries the
+   * result; the others report that they were coalesced into it.
+   */
+  private async flushBatch(key: string, userId: string, db: Database): Promise<void> {
+    const batch = this.batches.get(key);
+    if (!batch) return;
+    this.batches.delete(key);
+
+    const msgs = batch.triggers.map(t => t.msg);
+    const last = msgs[msgs.length - 1];
+    if (msgs.length > 1) {
+      console.log(`[TriggerHandler] Coalesced ${msgs.length} triggers into "${last.triggerId}"`);
+    }
+
+    const result = await this.runInLane(msgs, userId, db);
+    for (const { msg, resolve } of batch.triggers) {
+      resolve(msg === last ? result : { ...result, triggerId: msg.triggerId, coalescedInto: last.triggerId });
+    }
+  }
+
+  /**
+   * Run triggers once their conversation has a free slot. Never throws.
+   */
+  private async runInLane(
+    msgs: TriggerInferenceMessage[],
+    userId: string,
+    db: Database
+  ): Promise<TriggerInferenceResultMessage> {
+    const triggerId = msgs[msgs.length - 1].triggerId;
+    const laneKey = msgs[0].conversationId ?? '';
+
+    if (!(await this.acquireLane(laneKey))) {
+      console.warn(`[TriggerHandler] Rejected trigger "${triggerId}": too many triggers queued for conversation ${laneKey}`);
+      return failure(triggerId, 'Too many triggers queued for this conversation');
+    }
+
+    try {
+      return await this.runTrigger(msgs, userId, db);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : String(error);
+      console.error(`[TriggerHandler] Trigger "${triggerId}" failed:`, errorMsg);
+      return failure(triggerId, errorMsg);
+    } finally {
+      this.releaseLane(laneKey);
+    }
+  }
+
+  /**
+   * Take a slot in the conversation's lane, waiting for one if needed.
+   * Returns false when the queue is full.
+   */
+  private async acquireLane(key: string): Promise<boolean> {
+    let lane = this.lanes.get(key);
+    if (!lane) {
+      lane = { running: 0, waiting: [] };
+      this.lanes.set(key, lane);
+    }
+
+    if (lane.running < MAX_CONCURRENT_TRIGGERS_PER_CONVERSATION) {
+      lane.running++;
+      return true;
+    }
+    if (lane.waiting.length >= MAX_QUEUED_TRIGGERS_PER_CONVERSATION) {
+      return false;
+    }
+
+    // The slot is handed over by releaseLane, so running stays the same
+    const waiting = lane.waiting;
+    await new Promise<void>(resolve => waiting.push(resolve));
+    return true;
+  }
+
+  private releaseLane(key: string): void {
+    const lane = this.lanes.get(key);
+    if (!lane) return;
+
+    const next = lane.waiting.shift();
+    if (next) {
+      next();
+      return;
+    }
+    lane.running--;
+    if (lane.running === 0) {
+      this.lanes.delete(key);
+    }
+  }
+
+  private pruneDeliveries(): void {
+    const now = Date.now();
+    for (const [key, delivery] of this.deliveries) {
+      if (delivery.expiresAt > now) break;
+      this.deliveries.delete(key);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Inference
+  // --------------------------------------------------------------------------
+
+  /**
+   * Run one or more (coalesced) triggers as a single message and response.
+   * The last trigger provides the ids, target and system message.
+   *
+   * The message and response go through the same pipeline as a chat message
+   * (services/chat-pipeline.ts): placed in the branch tree the same way, with
+   * the same history, system prompt and settings for the responder.
+   *
+   * Steps:
+   * 1. Validate conversation exists
+   * 2. Resolve the speaker, responder and parent branch
+   * 3. Find the responder's model, and check credits and pricing
+   * 4. Add trigger context as a message from the speaker
+   * 5. Create assistant response placeholder
+   * 6. Build history, system prompt and settings
+   * 7. Build tool options
+   * 8. Run inference (streams to connected UI clients)
+   * 9. Return the model's response to the delegate
+   */
+  private async runTrigger(
+    msgs: TriggerInferenceMessage[],
+    userId: string,
+    db: Database
+  ): Promise<TriggerInferenceResultMessage> {
+    const msg = msgs[msgs.length - 1];
     const triggerId = msg.triggerId;
-    console.log(`[TriggerHandler] Received trigger "${triggerId}" from source "${msg.source}" for user ${userId}`);
 
     // 1. Validate conversation exists
     if (!msg.conversationId) {
-      return {
-        type: 'trigger_inference_result',
-        triggerId,
-        success: false,
-        error: 'conversationId is required',
-      };
+      return failure(triggerId, 'conversationId is required');
     }
+    const conversationId = msg.conversationId;
 
     let conversation;
     try {
-      conversation = await db.getConversation(msg.conversationId, userId);
+      conversation = await db.getConversation(conversationId, userId);
       if (!conversation) {
-        return {
-          type: 'trigger_inference_result',
-          triggerId,
-          success: false,
-          error: `Conversation ${msg.conversationId} not found or not accessible`,
-        };
+        return failure(triggerId, `Conversation ${conversationId} not found or not accessible`);
       }
     } catch (error) {
-      return {
-        type: 'trigger_inference_result',
-        triggerId,
-        success: false,
-        error: `Failed to access conversation: ${error instanceof Error ? error.message : String(error)}`,
-      };
+      return failure(triggerId, `Failed to access conversation: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    const ownerId = conversation.userId;
+
+    // 2. Resolve who speaks, who responds and where the message goes
+    const participants = await db.getConversationParticipants(conversationId, ownerId);
+
+    const speaker = msg.speaker
+      ? findParticipant(participants, msg.speaker, 'user')
+      : participants.find(p => p.type === 'user' && p.isActive !== false);
+    if (!speaker) {
+      return failure(triggerId, msg.speaker
+        ? `No user participant "${msg.speaker}" in conversation`
+        : 'No user participant found in conversation');
+    }
+
+    const responderRef = msg.responder ?? msg.participantId;
+    const responder = responderRef
+      ? findParticipant(participants, responderRef, 'assistant')
+      : participants.find(p => p.type === 'assistant' && p.isActive !== false);
+    if (!responder) {
+      return failure(triggerId, responderRef
+        ? `No assistant participant "${responderRef}" in conversation`
+        : 'No assistant participant found in conversation');
+    }
+
+    let parentBranchId: string | undefined;
+    try {
+      parentBranchId = await this.resolveParentBranch(msg, conversationId, ownerId, db);
+    } catch (error) {
+      return failure(triggerId, error instanceof Error ? error.message : String(error));
+    }
+
+    // 3. Get model config and check credits and pricing (as the chat path does)
+    const inferenceModel = responder.model || conversation.model;
+    const model = await ModelLoader.getInstance().getModelById(inferenceModel, ownerId);
+    if (!model) {
+      return failure(triggerId, `Model ${inferenceModel} not found`);
+    }
+
+    if (!(await userHasSufficientCredits(db, ownerId, model.id))) {
+      console.warn(`[TriggerHandler] Not running trigger "${triggerId}": insufficient credits for user ${ownerId}`);
+      return failure(triggerId, 'Insufficient credits');
     }
 
-    // 2. Build trigger context message
-    const contextText = this.formatTriggerContext(msg);
+    const pricingCheck = await validatePricingAvailable(model);
+    if (!pricingCheck.valid) {
+      console.error(`[TriggerHandler] Pricing validation failed for model ${model.id}:`, pricingCheck.error);
+      return failure(triggerId, pricingCheck.error || `Pricing is not configured for model ${model.id}`);
+    }
+
+    // 4. Build trigger context message (one section per coalesced trigger)
+    const contextText = msgs.map(m => this.formatTriggerContext(m)).join('\n\n---\n\n');
+    // Scheduled triggers are labelled with the schedule's name
+    const label = msg.source === 'schedule' ? `Schedule: ${msg.context.schedule}` : `Webhook: ${msg.source}`;
+    const heading = msgs.length > 1 ? `[${label}, ${msgs.length} events]` : `[${label}]`;
     console.log(`[TriggerHandler] Trigger context:\n${contextText}`);
 
-    // 3. Add trigger message to conversation as a user message
+    // Add trigger message to conversation, sent as the speaker
     let triggerMessage;
     try {
-      triggerMessage = await db.createMessage(
-        msg.conversationId,
-        userId,
-        `[Webhook: ${msg.source}]\n${contextText}`,
+      triggerMessage = await createMessageUnderParent(
+        db,
+        conversationId,
+        ownerId,
+        `${heading}\n${contextText}`,
         'user',
-        undefined,    // model
-        undefined,    // parent branch (auto-determined)
-        undefined,    // participantId
-        undefined,    // attachments
-        userId,       // sentByUserId
-        false,        // hiddenFromAi
-        'inference'   // creationSource
+        undefined,      // model
+        parentBranchId,
+        speaker.id,
+        undefined,      // attachments
+        userId,         // sentByUserId
+        false,          // hiddenFromAi
+        'inference'     // creationSource
       );
     } catch (error) {
-      return {
-        type: 'trigger_inference_result',
-        triggerId,
-        success: false,
-        error: `Failed to create trigger message: ${error instanceof Error ? error.message : String(error)}`,
-      };
+      return failure(triggerId, `Failed to create trigger message: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!triggerMessage) {
+      return failure(triggerId, 'Failed to create trigger message');
     }
 
     // Broadcast trigger message to connected UI clients
-    roomManager.broadcastToRoom(msg.conversationId, {
+    roomManager.broadcastToRoom(conversationId, {
       type: 'message_created',
-      conversationId: msg.conversationId,
+      conversationId,
       message: triggerMessage,
     });
-    console.log(`[TriggerHandler] Trigger message added: ${triggerMessage.id}`);
-
-    // 4. Get participants and find responder
-    const participants = await db.getConversationParticipants(msg.conversationId, userId);
-    const responder = msg.participantId
-      ? participants.find(p => p.id === msg.participantId)
-      : participants.find(p => p.type === 'assistant');
+    console.log(`[TriggerHandler] Trigger message added: ${triggerMessage.id} (as ${speaker.name})`);
 
-    if (!responder) {
-      return {
-        type: 'trigger_inference_result',
-        triggerId,
-        success: false,
-        error: 'No assistant participant found in conversation',
-      };
-    }
-
-    // 5. Get model config
-    const modelLoader = ModelLoader.getInstance();
-    const model = await modelLoader.getModelById(
-      conversation.model || 'claude-sonnet-4-20250514',
-      userId
-    );
-    if (!model) {
-      return {
-        type: 'trigger_inference_result',
-        triggerId,
-        success: false,
-        error: `Model ${conversation.model} not found`,
-      };
-    }
-
-    // 6. Create assistant response placeholder
+    // 5. Create assistant response placeholder
+    const triggerBranchId = triggerMessage.activeBranchId;
     let assistantMessage;
     try {
-      assistantMessage = await db.createMessage(
-        msg.conversationId,
-        userId,
+      assistantMessage = await createMessageUnderParent(
+        db,
+        conversationId,
+        ownerId,
         '',             // empty, filled by inference
         'assistant',
         model.id,
-        triggerMessage.activeBranchId,  // parent is the trigger message
+        triggerBranchId,  // parent is the trigger message
         responder.id,
         undefined,      // attachments
-        undefined,      // sentByUserId
-        false,          // hiddenFromAi
+        userId,         // user who triggered the generation
+        undefined,      // hiddenFromAi
         'inference'     // creationSource
       );
     } catch (error) {
-      return {
-        type: 'trigger_inference_result',
-        triggerId,
-        success: false,
-        error: `Failed to create assistant message: ${error instanceof Error ? error.message : String(error)}`,
-      };
+      return failure(triggerId, `Failed to create assistant message: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!assistantMessage) {
+      return failure(triggerId, 'Failed to create assistant message');
     }
 
     // Broadcast assistant message placeholder to UI
-    roomManager.broadcastToRoom(msg.conversationId, {
+    roomManager.broadcastToRoom(conversationId, {
       type: 'message_created',
-      conversationId: msg.conversationId,
+      conversationId,
       message: assistantMessage,
     });
 
-    // 7. Get conversation messages for context
-    const messages = await db.getConversationMessages(msg.conversationId, userId);
-
-    // 8. Build system prompt and settings
-    const systemPrompt = responder.systemPrompt || msg.systemMessage || '';
-
-    // Merge settings: conversation settings with participant overrides (same pattern as handler.ts)
-    const inferenceSettings = conversation.format === 'standard'
-      ? conversation.settings
-      : {
-          temperature: (responder as any).settings?.temperature ?? conversation.settings.temperature,
-          maxTokens: (responder as any).settings?.maxTokens ?? conversation.settings.maxTokens,
-          topP: (responder as any).settings?.topP ?? conversation.settings.topP,
-          topK: (responder as any).settings?.topK ?? conversation.settings.topK,
-          thinking: conversation.settings.thinking,
-        };
+    // 6. History along the trigger message's path, without messages hidden from AI
+    const allMessages = await db.getConversationMessages(conversationId, ownerId);
+    const history = filterHiddenFromAiMessages(buildConversationHistory(allMessages, triggerBranchId));
+    // Group chats need the empty assistant message so the responder's name is appended
+    const messagesForInference = conversation.format === 'prefill'
+      ? [...history, assistantMessage]
+      : history;
+
+    const systemPrompt = applyBackroomPromptIfNeeded({
+      conversationFormat: conversation.format,
+      messageCount: history.length,
+      modelProvider: model.provider,
+      modelSupportsPrefill: model.supportsPrefill,
+      participantConversationMode: responder.conversationMode,
+      existingSystemPrompt: responder.systemPrompt || conversation.systemPrompt || '',
+      cliModePrompt: conversation.cliModePrompt
+    });
+    const inferenceSettings = mergeInferenceSettings(conversation, responder);
 
-    // 9. Create inference service (same pattern as websocket handler)
     const baseInferenceService = new MembraneInferenceService(db);
-    const contextManager = new ContextManager();
+    const contextManager = new ContextManager({}, undefined, new ContextSummarizer(db, baseInferenceService), db);
     const inferenceService = new EnhancedInferenceService(baseInferenceService, contextManager);
 
-    // 10. Build tool options (delegate tools available to this user)
-    const tools = toolRegistry.getToolsForUser(userId);
+    // 7. Build tool options (tools available to this user, narrowed by tool policies).
+    // Triggers run unattended, so approval-gated tools are denied unless someone in the room answers.
+    // Stopping generation in the room stops the trigger too; chat responses run alongside it.
+    const abortController = startBackgroundGeneration(ownerId, conversationId);
+    const messageId = assistantMessage.id;
+    const branchId = assistantMessage.activeBranchId;
+    const toolPolicies = [conversation.toolPolicy, responder.toolPolicy];
+    const tools = toolRegistry.getToolsForUser(ownerId, toolPolicies);
+    const toolLogScope: ToolCallLogScope = {
+      conversationId,
+      conversationOwnerUserId: ownerId,
+      messageId,
+      branchId,
+      participantId: responder.id,
+      triggerSource: msg.source,
+    };
+    const toolContext: ToolExecutionContext = {
+      db,
+      userId: ownerId,
+      conversationId,
+      messageId,
+      branchId,
+      participantId: responder.id,
+      abortSignal: abortController.signal,
+    };
+    const toolApprovals = new Map<string, ToolApprovalDecision>();
     const toolOptions = tools.length > 0 ? {
       tools,
       executeToolCall: async (call: ToolCall): Promise<ToolResult> => {
-        return toolRegistry.executeTool(call.name, call.input, userId);
+        const startedAt = new Date();
+        const onProgress = (progress: ToolProgress) => {
+          roomManager.broadcastToRoom(conversationId, {
+            type: 'tool_progress',
+            conversationId,
+            messageId,
+            toolUseId: call.id,
+            ...progress,
+          });
+        };
+        const result = await toolRegistry.executeTool(call.name, call.input, { ...toolContext, onProgress }, toolPolicies);
+        await recordToolCall(db, toolLogScope, call, result, startedAt, toolApprovals.get(call.id));
+        return result;
+      },
+      requestApproval: async (call: ToolCall): Promise<ToolApprovalDecision> => {
+        if (!toolRegistry.requiresApproval(call.name, ownerId, toolPolicies)) {
+          return { approved: true, input: call.input, edited: false };
+        }
+        const requestedAt = new Date();
+        const decision = await toolApprovalManager.requestApproval(conversationId, messageId, call, (event) => {
+          roomManager.broadcastToRoom(conversationId, event);
+        }, { timeoutMs: TRIGGER_APPROVAL_TIMEOUT_MS, signal: abortController.signal });
+        toolApprovals.set(call.id, decision);
+        if (!decision.approved) {
+          await recordToolCall(db, toolLogScope, call, { toolUseId: call.id, content: decision.reason, isError: true }, requestedAt, decision);
+        }
+        return decision;
       },
     } : undefined;
 
-    // 11. Run inference
+    // 8. Run inference, shown in the room as an AI request unless a chat response is already generating
     let fullResponse = '';
-    const branchId = assistantMessage.activeBranchId;
+    const tracked = roomManager.startAiRequest(conversationId, userId, messageId);
 
-    console.log(`[TriggerHandler] Starting inference for trigger "${triggerId}" (model: ${model.id})`);
+    console.log(`[TriggerHandler] Starting inference for trigger "${triggerId}" (model: ${model.id}, responder: ${responder.name})`);
 
     try {
       await inferenceService.streamCompletion(
         model,
-        messages,
+        messagesForInference,
         systemPrompt,
         inferenceSettings,
-        userId,
+        ownerId,
         async (chunk: string, isComplete: boolean, contentBlocks?: any[], usage?: any) => {
           fullResponse += chunk;
 
           // Broadcast streaming chunks to connected UI clients
-          roomManager.broadcastToRoom(msg.conversationId!, {
+          roomManager.broadcastToRoom(conversationId, {
             type: 'stream',
-            conversationId: msg.conversationId,
-            messageId: assistantMessage.id,
+            conversationId,
+            messageId,
             branchId,
             content: chunk,
             contentBlocks,
@@ -231,10 +538,11 @@ class TriggerHandler {
 
           // Save content on complete
           if (isComplete) {
+            fullResponse = fullResponse.trim();
             await db.updateMessageContent(
-              assistantMessage.id,
-              msg.conversationId!,
-              userId,
+              messageId,
+              conversationId,
+              ownerId,
               branchId,
               fullResponse,
               contentBlocks
@@ -244,33 +552,114 @@ class TriggerHandler {
         },
         conversation,
         responder,
-        undefined,        // onMetrics (skip for triggers)
+        async (metrics) => {
+          await db.addMetrics(conversationId, ownerId, metrics);
+          roomManager.broadcastToRoom(conversationId, {
+            type: 'metrics_update',
+            conversationId,
+            metrics,
+          });
+        },
         participants,
-        undefined,        // abortSignal
+        abortController.signal,
         toolOptions
       );
+      await db.updateConversation(conversationId, ownerId, { updatedAt: new Date() });
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : String(error);
       console.error(`[TriggerHandler] Inference error for trigger "${triggerId}":`, errorMsg);
-      return {
-        type: 'trigger_inference_result',
-        triggerId,
-        success: false,
-        error: `Inference failed: ${errorMsg}`,
-      };
+      await this.discardResponse(db, conversationId, ownerId, messageId, branchId, fullResponse.trim());
+      return failure(triggerId, `Inference failed: ${errorMsg}`);
+    } finally {
+      endBackgroundGeneration(ownerId, conversationId, abortController);
+      if (tracked) roomManager.endAiRequest(conversationId);
     }
 
-    // 12. Return success with the model's response
+    // 9. Return success with the model's response
     return {
       type: 'trigger_inference_result',
       triggerId,
       success: true,
-      conversationId: msg.conversationId,
-      messageId: assistantMessage.id,
+      conversationId,
+      messageId,
       response: fullResponse,
     };
   }
 
+  /**
+   * Clean up the response placeholder of a failed or stopped trigger: keep what
+   * was streamed before it stopped, or delete the placeholder when nothing was.
+   */
+  private async discardResponse(
+    db: Database,
+    conversationId: string,
+    ownerId: string,
+    messageId: string,
+    branchId: string,
+    partialResponse: string
+  ): Promise<void> {
+    try {
+      if (partialResponse) {
+        await db.updateMessageContent(messageId, conversationId, ownerId, branchId, partialResponse);
+        roomManager.broadcastToRoom(conversationId, {
+          type: 'stream',
+          conversationId,
+          messageId,
+          branchId,
+          content: '',
+          isComplete: true,
+          aborted: true,
+        });
+        return;
+      }
+
+      const deleted = await db.deleteMessage(messageId, conversationId, ownerId);
+      if (deleted) {
+        roomManager.broadcastToRoom(conversationId, {
+          type: 'message_deleted',
+          messageId,
+          branchId,
+          deletedMessages: [messageId],
+        });
+      }
+    } catch (error) {
+      console.error(`[TriggerHandler] Failed to clean up response ${messageId}:`, error);
+    }
+  }
+
+  /**
+   * The branch a trigger's message goes under: its parentBranchId, or the branch
+   * its bookmark (id or label) points to. Undefined means the end of the active path.
+   * Throws when the branch or bookmark is not in the conversation.
+   */
+  private async resolveParentBranch(
+    msg: TriggerInferenceMessage,
+    conversationId: string,
+    ownerId: string,
+    db: Database
+  ): Promise<string | undefined> {
+    if (msg.bookmark) {
+      const bookmarks = await db.getConversationBookmarks(conversationId);
+      const bookmark = bookmarks.find(b => b.id === msg.bookmark)
+        ?? bookmarks.find(b => b.label === msg.bookmark)
+        ?? bookmarks.find(b => b.label.toLowerCase() === msg.bookmark!.toLowerCase());
+      if (!bookmark) {
+        throw new Error(`No bookmark "${msg.bookmark}" in conversation`);
+      }
+      return bookmark.branchId;
+    }
+
+    if (msg.parentBranchId) {
+      const messages = await db.getConversationMessages(conversationId, ownerId);
+      if (!messages.some(m => m.branches.some(b => b.id === msg.parentBranchId))) {
+        throw new Error(`Branch ${msg.parentBranchId} not found in conversation`);
+      }
+      return msg.parentBranchId;
+    }
+
+    return undefined;
+  }
+
   /**
    * Format trigger context into a readable message.
    */
@@ -300,4 +689,17 @@ class TriggerHandler {
   }
 }
 
+function failure(triggerId: string, error: string): TriggerInferenceResultMessage {
+  return { type: 'trigger_inference_result', triggerId, success: false, error };
+}
+
+/**
+ * A participant of the given type, by id or (case-insensitive) name.
+ */
+function findParticipant(participants: Participant[], ref: string, type: Participant['type']): Participant | undefined {
+  const candidates = participants.filter(p => p.type === type);
+  return candidates.find(p => p.id === ref)
+    ?? candidates.find(p => p.name.toLowerCase() === ref.toLowerCase());
+}
+
 export const triggerHandler = new TriggerHandler();
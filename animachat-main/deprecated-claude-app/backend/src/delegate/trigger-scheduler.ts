@@ -0,0 +1,161 @@
+/**
+ * Trigger Scheduler
+ *
+ * Fires server-side trigger schedules (cron expressions or fixed intervals)
+ * into their conversations, through the same flow as delegate webhooks:
+ * triggerHandler.handleTrigger() with the schedule's prompt as the message.
+ *
+ * Runs missed while the server was down are skipped; at startup every
+ * schedule continues from its next run after the current time.
+ */
+
+import { randomUUID } from 'crypto';
+import type { TriggerSchedule } from '@deprecated-claude/shared';
+import type { Database, TriggerScheduleRecord } from '../database/index.js';
+import { parseCron, nextCronTime, isValidTimezone } from '../utils/cron.js';
+import { triggerHandler } from './trigger-handler.js';
+
+/** How often due schedules are checked */
+const TICK_MS = 30 * 1000;
+
+class TriggerScheduler {
+  private db: Database | null = null;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  /** Next run (epoch ms) of every enabled schedule */
+  private nextRuns: Map<string, number> = new Map();
+
+  /**
+   * Load all schedules and start checking for due runs.
+   */
+  start(db: Database): void {
+    this.db = db;
+    for (const schedule of db.getAllTriggerSchedules()) {
+      this.refresh(schedule);
+    }
+    this.timer = setInterval(() => this.tick(), TICK_MS);
+    console.log(`[TriggerScheduler] Started with ${this.nextRuns.size} active schedule(s)`);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.nextRuns.clear();
+  }
+
+  /**
+   * Compute a schedule's next run after it was created or changed.
+   */
+  refresh(schedule: TriggerScheduleRecord): void {
+    const next = schedule.enabled ? nextRunAfter(schedule, new Date()) : undefined;
+    if (next) {
+      this.nextRuns.set(schedule.id, next.getTime());
+    } else {
+      this.nextRuns.delete(schedule.id);
+    }
+  }
+
+  remove(scheduleId: string): void {
+    this.nextRuns.delete(scheduleId);
+  }
+
+  /**
+   * The schedule as returned by the API: without its user, with its next run.
+   */
+  describe(schedule: TriggerScheduleRecord): TriggerSchedule {
+    const { userId, ...rest } = schedule;
+    const nextRun = this.nextRuns.get(schedule.id);
+    return {
+      ...rest,
+      nextRunAt: nextRun !== undefined ? new Date(nextRun).toISOString() : undefined,
+    };
+  }
+
+  private tick(): void {
+    const now = Date.now();
+    for (const [scheduleId, nextRun] of this.nextRuns) {
+      if (nextRun <= now) {
+        this.fire(scheduleId, nextRun).catch(error => {
+          console.error(`[TriggerScheduler] Schedule ${scheduleId} could not be run:`, error instanceof Error ? error.message : error);
+        });
+      }
+    }
+  }
+
+  private async fire(scheduleId: string, dueAt: number): Promise<void> {
+    const db = this.db;
+    const schedule = db?.getTriggerSchedule(scheduleId);
+    if (!db || !schedule) {
+      this.nextRuns.delete(scheduleId);
+      return;
+    }
+    this.refresh(schedule);
+
+    console.log(`[TriggerScheduler] Running schedule "${schedule.name}" (${schedule.id}) in conversation ${schedule.conversationId}`);
+    const ranAt = new Date().toISOString();
+    let error: string | undefined;
+    try {
+      const result = await triggerHandler.handleTrigger({
+        type: 'trigger_inference',
+        triggerId: randomUUID(),
+        source: 'schedule',
+        conversationId: schedule.conversationId,
+        participantId: schedule.participantId,
+        context: { schedule: schedule.name },
+        systemMessage: schedule.prompt,
+        // One run per due time, even if a slow tick fires it twice
+        deliveryId: `schedule:${schedule.id}:${dueAt}`,
+      }, schedule.userId, db);
+      if (!result.success) error = result.error;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    if (error) {
+      console.error(`[TriggerScheduler] Schedule "${schedule.name}" (${schedule.id}) failed: ${error}`);
+    }
+    await db.recordTriggerScheduleRun(schedule.id, ranAt, error);
+  }
+}
+
+/**
+ * Check a schedule's cron expression and timezone.
+ * @returns an error message, or undefined when valid
+ */
+export function validateTriggerSchedule(schedule: { cron?: string; timezone?: string }): string | undefined {
+  if (schedule.timezone !== undefined && !isValidTimezone(schedule.timezone)) {
+    return `Unknown timezone "${schedule.timezone}"`;
+  }
+  if (schedule.cron !== undefined) {
+    try {
+      parseCron(schedule.cron);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+  return undefined;
+}
+
+function nextRunAfter(schedule: TriggerScheduleRecord, after: Date): Date | undefined {
+  if (schedule.cron) {
+    try {
+      return nextCronTime(parseCron(schedule.cron), after, schedule.timezone);
+    } catch (error) {
+      console.error(`[TriggerScheduler] Schedule ${schedule.id} has an invalid cron expression:`, error instanceof Error ? error.message : error);
+      return undefined;
+    }
+  }
+
+  if (schedule.intervalMinutes) {
+    // Count intervals from creation, so restarts keep the same rhythm
+    const interval = schedule.intervalMinutes * 60 * 1000;
+    const anchor = new Date(schedule.createdAt).getTime();
+    const elapsed = Math.max(0, after.getTime() - anchor);
+    return new Date(anchor + (Math.floor(elapsed / interval) + 1) * interval);
+  }
+
+  return undefined;
+}
+
+export const triggerScheduler = new TriggerScheduler();
@@ -27,11 +27,14 @@ import { createInvitesRouter } from './routes/invites.js';
 import { adminRouter } from './routes/admin.js';
 import { collaborationRouter } from './routes/collaboration.js';
 import { personaRouter } from './routes/personas.js';
+import { delegateRouter } from './routes/delegates.js';
 import avatarRouter from './routes/avatars.js';
 import blobRouter from './routes/blobs.js';
 import siteConfigRouter from './routes/site-config.js';
 import { websocketHandler } from './websocket/handler.js';
 import { delegateWebsocketHandler } from './delegate/delegate-handler.js';
+import { triggerScheduler } from './delegate/trigger-scheduler.js';
+import { delegateManager } from './delegate/delegate-manager.js';
 import { Database } from './database/index.js';
 import { initBlobStore } from './database/blob-store.js';
 import { authenticateToken } from './middleware/auth.js';
@@ -142,6 +145,7 @@ app.use('/api/invites', createInvitesRouter(db));
 app.use('/api/admin', adminRouter(db));
 app.use('/api/collaboration', collaborationRouter(db));
 app.use('/api/personas', authenticateToken, personaRouter(db));
+app.use('/api/delegates', authenticateToken, delegateRouter(db));
 app.use('/api/avatars', authenticateToken, avatarRouter);
 app.use('/api/blobs', blobRouter); // No auth - blobs are served by ID (content-addressed)
 app.use('/api/system', systemRouter());
@@ -210,6 +214,10 @@ async function startServer() {
     const modelLoader = ModelLoader.getInstance();
     modelLoader.setDatabase(db);
     console.log('ModelLoader initialized with database');
+
+    // Start firing scheduled triggers and checking delegate connections
+    triggerScheduler.start(db);
+    delegateManager.startHeartbeat();
     
     // Pre-populate OpenRouter pricing cache and register lazy refresh callback
     const openRouterService = new OpenRouterService(db);
@@ -256,6 +264,8 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Shutting down gracefully...');
+  triggerScheduler.stop();
+  delegateManager.stopHeartbeat();
   await db.close();
   process.exit(0);
 });
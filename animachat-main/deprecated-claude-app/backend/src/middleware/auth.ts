@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import { createHash, randomBytes } from 'crypto';
 
 export interface AuthRequest extends Request {
   userId?: string;
@@ -38,3 +39,18 @@ export function verifyToken(token: string): { userId: string } | null {
     return null;
   }
 }
+
+// Delegate tokens are opaque secrets (not JWTs), recognisable by their prefix
+export const DELEGATE_TOKEN_PREFIX = 'adt_';
+
+export function generateDelegateTokenSecret(): string {
+  return DELEGATE_TOKEN_PREFIX + randomBytes(32).toString('base64url');
+}
+
+export function isDelegateTokenSecret(token: string): boolean {
+  return token.startsWith(DELEGATE_TOKEN_PREFIX);
+}
+
+export function hashDelegateToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
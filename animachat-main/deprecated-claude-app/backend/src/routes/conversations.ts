@@ -5,7 +5,9 @@ import { getBlobStore } from '../database/blob-store.js';
 import { compactConversation, getConversationFilePath, formatCompactionResult } from '../database/compaction.js';
 import { AuthRequest } from '../middleware/auth.js';
 import { roomManager } from '../websocket/room-manager.js';
-import { CreateConversationRequestSchema, ImportConversationRequestSchema, ConversationMetrics, DEFAULT_CONTEXT_MANAGEMENT, ContentBlockSchema, Message } from '@deprecated-claude/shared';
+import { toolRegistry } from '../tools/tool-registry.js';
+import { triggerScheduler, validateTriggerSchedule } from '../delegate/trigger-scheduler.js';
+import { CreateConversationRequestSchema, ImportConversationRequestSchema, CreateTriggerScheduleRequestSchema, UpdateTriggerScheduleRequestSchema, UpdateContextSummaryRequestSchema, ConversationMetrics, DEFAULT_CONTEXT_MANAGEMENT, ContentBlockSchema, Message } from '@deprecated-claude/shared';
 
 /**
  * Prepare messages for client by:
@@ -106,6 +108,28 @@ const CreatePostHocOperationSchema = z.object({
   parentBranchId: z.string().uuid().optional(), // Parent branch for proper tree integration
 });
 
+// Schema for setting the context flags of a branch (used by the adaptive context strategy)
+const BranchContextFlagsSchema = z.object({
+  pinned: z.boolean().optional(),
+  important: z.boolean().optional(),
+});
+
+/**
+ * A schedule's responder must be an assistant participant of the conversation.
+ * @returns an error message, or undefined when valid (or not set)
+ */
+async function validateScheduleParticipant(
+  db: Database,
+  conversationId: string,
+  conversationOwnerUserId: string,
+  participantId: string | undefined
+): Promise<string | undefined> {
+  if (!participantId) return undefined;
+  const participants = await db.getConversationParticipants(conversationId, conversationOwnerUserId);
+  const participant = participants.find(p => p.id === participantId);
+  return participant?.type === 'assistant' ? undefined : 'participantId must be an assistant participant of this conversation';
+}
+
 export function conversationRouter(db: Database): Router {
   const router = Router();
 
@@ -360,6 +384,261 @@ export function conversationRouter(db: Database): Router {
     }
   });
 
+  // Get the tool call log for a conversation (every tool execution, oldest first)
+  router.get('/:id/tool-calls', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      // Check access (owner or collaborator)
+      const access = await db.canUserAccessConversation(req.params.id, req.userId);
+      if (!access.canAccess) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      // Get the conversation to find owner
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const toolCalls = await db.getToolCallLog(req.params.id, conversation.userId);
+      res.json(toolCalls);
+    } catch (error) {
+      console.error('Get tool call log error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // List the conversation's trigger schedules (prompts the server sends on a cron expression or interval)
+  router.get('/:id/schedules', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const schedules = db.getTriggerSchedules(req.params.id).map(schedule => triggerScheduler.describe(schedule));
+      res.json(schedules);
+    } catch (error) {
+      console.error('Get trigger schedules error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Create a trigger schedule (owner only; it runs as the owner)
+  router.post('/:id/schedules', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      if (conversation.userId !== req.userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const data = CreateTriggerScheduleRequestSchema.parse(req.body);
+      const invalid = validateTriggerSchedule(data) ||
+        await validateScheduleParticipant(db, conversation.id, conversation.userId, data.participantId);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const schedule = await db.createTriggerSchedule(conversation.userId, conversation.id, data);
+      triggerScheduler.refresh(schedule);
+      res.status(201).json(triggerScheduler.describe(schedule));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid input', details: error.errors });
+      }
+      console.error('Create trigger schedule error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Update a trigger schedule (owner only)
+  router.patch('/:id/schedules/:scheduleId', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      if (conversation.userId !== req.userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const existing = db.getTriggerSchedule(req.params.scheduleId);
+      if (!existing || existing.conversationId !== conversation.id) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+
+      const data = UpdateTriggerScheduleRequestSchema.parse(req.body);
+      if (data.cron && data.intervalMinutes) {
+        return res.status(400).json({ error: 'Set either cron or intervalMinutes' });
+      }
+      const invalid = validateTriggerSchedule(data) ||
+        await validateScheduleParticipant(db, conversation.id, conversation.userId, data.participantId ?? undefined);
+      if (invalid) {
+        return res.status(400).json({ error: invalid });
+      }
+
+      const schedule = await db.updateTriggerSchedule(existing.id, data);
+      if (!schedule) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+      triggerScheduler.refresh(schedule);
+      res.json(triggerScheduler.describe(schedule));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid input', details: error.errors });
+      }
+      console.error('Update trigger schedule error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete a trigger schedule (owner only)
+  router.delete('/:id/schedules/:scheduleId', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+      if (conversation.userId !== req.userId) {
+        return res.status(403).json({ error: 'Access denied' });
+      }
+
+      const existing = db.getTriggerSchedule(req.params.scheduleId);
+      if (!existing || existing.conversationId !== conversation.id) {
+        return res.status(404).json({ error: 'Schedule not found' });
+      }
+
+      await db.deleteTriggerSchedule(existing.id);
+      triggerScheduler.remove(existing.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete trigger schedule error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // List the summaries the summarize context strategy wrote for this conversation, newest first
+  router.get('/:id/context-summaries', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      res.json(await db.getContextSummaries(conversation.id, conversation.userId));
+    } catch (error) {
+      console.error('Get context summaries error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Edit a summary; the next rotation extends the edited text
+  router.patch('/:id/context-summaries/:summaryId', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { content } = UpdateContextSummaryRequestSchema.parse(req.body);
+
+      const canChat = await db.canUserChatInConversation(req.params.id, req.userId);
+      if (!canChat) {
+        return res.status(403).json({ error: 'Only owner or editors can edit context summaries' });
+      }
+
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const summary = await db.updateContextSummaryContent(conversation.id, conversation.userId, req.params.summaryId, content);
+      if (!summary) {
+        return res.status(404).json({ error: 'Summary not found' });
+      }
+      res.json(summary);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid input', details: error.errors });
+      }
+      console.error('Update context summary error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Delete a summary; the dropped messages are summarized again on the next request that needs them
+  router.delete('/:id/context-summaries/:summaryId', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const canChat = await db.canUserChatInConversation(req.params.id, req.userId);
+      if (!canChat) {
+        return res.status(403).json({ error: 'Only owner or editors can delete context summaries' });
+      }
+
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const deleted = await db.deleteContextSummary(conversation.id, conversation.userId, req.params.summaryId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Summary not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Delete context summary error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Get the tools currently available in a conversation (the owner's server and delegate tools),
+  // with each exposed name mapped back to its delegate, MCP server, and original name
+  router.get('/:id/tools', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      res.json(toolRegistry.describeToolsForUser(conversation.userId, [conversation.toolPolicy]));
+    } catch (error) {
+      console.error('Get conversation tools error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // Get messages for conversation
   router.get('/:id/messages', async (req: AuthRequest, res) => {
     try {
@@ -1062,6 +1341,55 @@ export function conversationRouter(db: Database): Router {
     }
   });
 
+  // Pin a branch or flag it as important, so the adaptive context strategy keeps it
+  router.post('/:id/messages/:messageId/branches/:branchId/context-flags', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const flags = BranchContextFlagsSchema.parse(req.body);
+
+      // Check access (owner or editor)
+      const canChat = await db.canUserChatInConversation(req.params.id, req.userId);
+      if (!canChat) {
+        return res.status(403).json({ error: 'Only owner or editors can change context flags' });
+      }
+
+      const conversation = await db.getConversation(req.params.id, req.userId);
+      if (!conversation) {
+        return res.status(404).json({ error: 'Conversation not found' });
+      }
+
+      const updated = await db.updateMessageBranch(
+        req.params.messageId,
+        conversation.userId,
+        req.params.branchId,
+        flags
+      );
+      if (!updated) {
+        return res.status(404).json({ error: 'Branch not found' });
+      }
+
+      const message = await db.getMessage(req.params.messageId, req.params.id, conversation.userId);
+      if (message) {
+        roomManager.broadcastToRoom(req.params.id, {
+          type: 'message_edited',
+          message,
+          fromUserId: req.userId
+        });
+      }
+
+      res.json({ success: true, message });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid input', details: error.errors });
+      }
+      console.error('Set context flags error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
   // Get subtree from a specific branch (used after unhiding to fetch newly visible content)
   router.get('/:id/subtree/:branchId', async (req: AuthRequest, res) => {
     try {
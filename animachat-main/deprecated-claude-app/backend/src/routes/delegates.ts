@@ -0,0 +1,191 @@
+import { Router } from 'express';
+import { z } from 'zod';
+import { CreateDelegateTokenRequestSchema, type DelegateSessionInfo } from '@deprecated-claude/shared';
+import { Database } from '../database/index.js';
+import { AuthRequest, generateDelegateTokenSecret, hashDelegateToken } from '../middleware/auth.js';
+import { delegateManager } from '../delegate/delegate-manager.js';
+import { toolRegistry } from '../tools/tool-registry.js';
+
+const ToggleToolSchema = z.object({
+  enabled: z.boolean(),
+});
+
+const ReadResourceSchema = z.object({
+  server: z.string(),
+  uri: z.string(),
+});
+
+const GetPromptSchema = z.object({
+  server: z.string(),
+  name: z.string(),
+  arguments: z.record(z.string()).default({}),
+});
+
+export function delegateRouter(db: Database): Router {
+  const router = Router();
+
+  // The user's connected delegate sessions with their tools
+  router.get('/', (req: AuthRequest, res) => {
+    if (!req.userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const userId = req.userId;
+    const sessions: DelegateSessionInfo[] = delegateManager.getDelegatesForUser(userId).map(d => ({
+      sessionId: d.sessionId,
+      delegateId: d.delegateId,
+      connectedAt: d.connectedAt.toISOString(),
+      lastSeenAt: d.lastSeenAt.toISOString(),
+      capabilities: d.capabilities,
+      pendingCalls: delegateManager.getPendingCallCount(d.sessionId),
+      tools: d.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        server: tool.server,
+        requiresApproval: tool.requiresApproval,
+        enabled: !toolRegistry.isDelegateToolDisabled(userId, d.delegateId, tool.name),
+      })),
+    }));
+    res.json(sessions);
+  });
+
+  // Switch one of a delegate's tools on or off (kept across reconnects)
+  router.put('/:delegateId/tools/:toolName', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { enabled } = ToggleToolSchema.parse(req.body);
+      const { delegateId, toolName } = req.params;
+      await db.setDelegateToolEnabled(req.userId, delegateId, toolName, enabled);
+      toolRegistry.setDisabledDelegateTools(
+        req.userId,
+        delegateId,
+        await db.getDisabledDelegateTools(req.userId, delegateId)
+      );
+      res.json({ delegateId, toolName, enabled });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid input', details: error.errors });
+      }
+      console.error('Toggle delegate tool error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Disconnect a delegate session (the delegate will not reconnect by itself)
+  router.post('/sessions/:sessionId/disconnect', (req: AuthRequest, res) => {
+    if (!req.userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    if (!delegateManager.disconnectDelegate(req.params.sessionId, req.userId)) {
+      return res.status(404).json({ error: 'Delegate session not found' });
+    }
+    res.json({ success: true });
+  });
+
+  // The user's delegate tokens (without their secrets)
+  router.get('/tokens', (req: AuthRequest, res) => {
+    if (!req.userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    res.json(db.getDelegateTokens(req.userId));
+  });
+
+  // Create a delegate token; the secret is only returned here
+  router.post('/tokens', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { name, delegateId, expiresInDays } = CreateDelegateTokenRequestSchema.parse(req.body);
+      const secret = generateDelegateTokenSecret();
+      const expiresAt = expiresInDays
+        ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000).toISOString()
+        : undefined;
+      const token = await db.createDelegateToken(req.userId, hashDelegateToken(secret), name, delegateId, expiresAt);
+      res.status(201).json({ token, secret });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid input', details: error.errors });
+      }
+      console.error('Create delegate token error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Revoke a delegate token and disconnect the sessions using it
+  router.delete('/tokens/:tokenId', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      if (!await db.revokeDelegateToken(req.userId, req.params.tokenId)) {
+        return res.status(404).json({ error: 'Token not found' });
+      }
+      const disconnected = delegateManager.disconnectTokenSessions(req.params.tokenId);
+      res.json({ success: true, disconnected });
+    } catch (error) {
+      console.error('Revoke delegate token error:', error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  });
+
+  // Resources and prompt templates from all of the user's connected delegates
+  router.get('/library', (req: AuthRequest, res) => {
+    if (!req.userId) {
+      return res.status(401).json({ error: 'Unauthorized' });
+    }
+
+    const delegates = delegateManager.getDelegatesForUser(req.userId);
+    res.json({
+      resources: delegates.flatMap(d => d.resources.map(r => ({ ...r, delegateId: d.delegateId }))),
+      prompts: delegates.flatMap(d => d.prompts.map(p => ({ ...p, delegateId: d.delegateId }))),
+    });
+  });
+
+  // Read a resource (to attach it to a message)
+  router.post('/:delegateId/resources/read', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { server, uri } = ReadResourceSchema.parse(req.body);
+      const contents = await delegateManager.readResource(req.userId, req.params.delegateId, server, uri);
+      res.json({ contents });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid input', details: error.errors });
+      }
+      console.error('Read delegate resource error:', error);
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to read resource' });
+    }
+  });
+
+  // Render a prompt template (to insert it into the composer)
+  router.post('/:delegateId/prompts/get', async (req: AuthRequest, res) => {
+    try {
+      if (!req.userId) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const { server, name, arguments: args } = GetPromptSchema.parse(req.body);
+      const prompt = await delegateManager.getPrompt(req.userId, req.params.delegateId, server, name, args);
+      res.json(prompt);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ error: 'Invalid input', details: error.errors });
+      }
+      console.error('Get delegate prompt error:', error);
+      res.status(502).json({ error: error instanceof Error ? error.message : 'Failed to get prompt' });
+    }
+  });
+
+  return router;
+}
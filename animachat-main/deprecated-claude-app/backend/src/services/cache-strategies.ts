@@ -4,6 +4,8 @@
  */
 
 import { Message } from '@deprecated-claude/shared';
+import { getTokenizer } from '../utils/tokenizer.js';
+import { getMessageTokens } from './context-strategies.js';
 
 export enum CacheEvent {
   MISS = 'miss',           // No cache available
@@ -101,11 +103,8 @@ export class DefaultCacheStrategy implements CacheStrategy {
   }
   
   onFirstRequest(messages: Message[], modelId: string): CacheDecision {
-    const totalTokens = messages.reduce((sum, msg) => {
-      // Simplified token estimation
-      const content = msg.branches.find(b => b.id === msg.activeBranchId)?.content || '';
-      return sum + Math.ceil(content.length / 4);
-    }, 0);
+    const tokenizer = getTokenizer(modelId);
+    const totalTokens = messages.reduce((sum, msg) => sum + getMessageTokens(msg, tokenizer), 0);
     
     // Don't cache very small conversations
     if (totalTokens < 500) {
@@ -187,10 +186,8 @@ export class AggressiveCacheStrategy extends DefaultCacheStrategy {
  */
 export class CostOptimizedCacheStrategy extends DefaultCacheStrategy {
   onFirstRequest(messages: Message[], modelId: string): CacheDecision {
-    const totalTokens = messages.reduce((sum, msg) => {
-      const content = msg.branches.find(b => b.id === msg.activeBranchId)?.content || '';
-      return sum + Math.ceil(content.length / 4);
-    }, 0);
+    const tokenizer = getTokenizer(modelId);
+    const totalTokens = messages.reduce((sum, msg) => sum + getMessageTokens(msg, tokenizer), 0);
     
     // Only cache larger conversations where savings are significant
     const threshold = modelId.toLowerCase().includes('opus') ? 2000 : 5000;
@@ -0,0 +1,318 @@
+/**
+ * Chat Pipeline
+ *
+ * The steps every path that runs inference in a conversation goes through:
+ * placing messages in the branch tree, building the history the model sees,
+ * and choosing the responder's system prompt and settings. Used by chat
+ * messages in websocket/handler.ts and by delegate triggers, so both produce
+ * the same transcript for the same conversation.
+ */
+
+import type { Message, Participant, Conversation, ModelSettings } from '@deprecated-claude/shared';
+import type { Database } from '../database/index.js';
+import { Logger } from '../utils/logger.js';
+
+/**
+ * Apply backroom CLI prompt for early group chats.
+ * Only applies when:
+ * 1. Conversation is in group chat (prefill) format
+ * 2. Less than 10 messages in the conversation
+ * 3. Model supports prefill
+ * 4. Participant's mode is NOT explicitly set to 'messages'
+ */
+const BACKROOM_PROMPT = 'The assistant is in CLI simulation mode, and responds to the user\'s CLI commands only with the output of the command.';
+
+interface BackroomPromptParams {
+  conversationFormat: 'standard' | 'prefill';
+  messageCount: number;
+  modelProvider: string;
+  modelSupportsPrefill?: boolean;
+  participantConversationMode?: string;
+  existingSystemPrompt: string;
+  cliModePrompt?: { enabled: boolean; messageThreshold: number };
+}
+
+export function applyBackroomPromptIfNeeded(params: BackroomPromptParams): string {
+  const {
+    conversationFormat,
+    messageCount,
+    modelProvider,
+    modelSupportsPrefill,
+    participantConversationMode,
+    existingSystemPrompt,
+    cliModePrompt
+  } = params;
+  
+  // Check if CLI mode prompt is disabled by toggle
+  const cliEnabled = cliModePrompt?.enabled ?? true;
+  const threshold = cliModePrompt?.messageThreshold ?? 10;
+  
+  if (!cliEnabled) {
+    return existingSystemPrompt;
+  }
+  
+  // Only for group chats with fewer than threshold messages
+  if (conversationFormat !== 'prefill' || messageCount >= threshold) {
+    return existingSystemPrompt;
+  }
+  
+  // Check if model supports prefill
+  const supportsPrefill = modelProvider === 'anthropic' || modelProvider === 'bedrock' || modelSupportsPrefill === true;
+  if (!supportsPrefill) {
+    return existingSystemPrompt;
+  }
+  
+  // Check if participant wants prefill mode (not explicitly 'messages' or 'completion')
+  const wantsPrefill = !participantConversationMode || 
+                       participantConversationMode === 'auto' || 
+                       participantConversationMode === 'prefill';
+  if (!wantsPrefill) {
+    return existingSystemPrompt;
+  }
+  
+  // CLI mode is enabled and conditions are met - apply the backroom prompt
+  // If there's an existing system prompt, prepend the CLI prompt to it
+  if (existingSystemPrompt) {
+    Logger.websocket(`[WebSocket] Applied backroom prompt + custom prompt (${messageCount} messages, provider: ${modelProvider})`);
+    return `${BACKROOM_PROMPT}\n\n${existingSystemPrompt}`;
+  }
+  
+  Logger.websocket(`[WebSocket] Applied backroom prompt (${messageCount} messages, provider: ${modelProvider})`);
+  return BACKROOM_PROMPT;
+}
+
+/**
+ * Apply identity prompt for participants in 'messages' mode.
+ * In 'messages' mode, the model only sees alternating user/assistant messages
+ * and doesn't know its identity from the conversation format.
+ * 
+ * This adds a default identity prompt like "You are {name}." which can be
+ * overridden by the participant's custom system prompt.
+ */
+interface IdentityPromptParams {
+  conversationFormat: 'standard' | 'prefill';
+  participantName: string;
+  participantConversationMode?: string;
+  modelProvider: string;
+  modelSupportsPrefill?: boolean;
+  existingSystemPrompt: string;
+  hasCustomSystemPrompt: boolean; // Whether participant has their own system prompt
+}
+
+export function applyIdentityPromptIfNeeded(params: IdentityPromptParams): string {
+  const {
+    conversationFormat,
+    participantName,
+    participantConversationMode,
+    modelProvider,
+    modelSupportsPrefill,
+    existingSystemPrompt,
+    hasCustomSystemPrompt
+  } = params;
+  
+  // Only for group chats (prefill format) - standard conversations use different flow
+  if (conversationFormat !== 'prefill') {
+    return existingSystemPrompt;
+  }
+  
+  // If participant has a custom system prompt, they've already defined their identity
+  if (hasCustomSystemPrompt) {
+    return existingSystemPrompt;
+  }
+  
+  // Check if model supports prefill
+  const supportsPrefill = modelProvider === 'anthropic' || modelProvider === 'bedrock' || modelSupportsPrefill === true;
+  
+  // Determine if we're actually using messages mode
+  // (either explicitly set to 'messages', or 'auto'/undefined with a model that doesn't support prefill)
+  const explicitMessagesMode = participantConversationMode === 'messages' || participantConversationMode === 'completion';
+  const autoFallbackToMessages = (!participantConversationMode || participantConversationMode === 'auto') && !supportsPrefill;
+  
+  const usingMessagesMode = explicitMessagesMode || autoFallbackToMessages;
+  
+  if (!usingMessagesMode) {
+    // Using prefill mode - participant name is in the message format, no identity prompt needed
+    return existingSystemPrompt;
+  }
+  
+  // Build identity prompt
+  const identityPrompt = `You are ${participantName}. You are connected to a multi-participant chat system. Please respond in character.`;
+  
+  Logger.websocket(`[WebSocket] Applied identity prompt for "${participantName}" (messages mode)`);
+  
+  return existingSystemPrompt 
+    ? `${identityPrompt}\n\n${existingSystemPrompt}`
+    : identityPrompt;
+}
+
+/**
+ * Build conversation history by following the active branch path backwards
+ * from a given branch ID to the root.
+ * 
+ * @param allMessages - All messages in the conversation
+ * @param fromBranchId - The branch ID to start from (going backwards)
+ * @param includeMessage - Optional message to include/replace in the history
+ * @returns Array of messages in chronological order (oldest first)
+ */
+export function buildConversationHistory(
+  allMessages: Message[],
+  fromBranchId: string | undefined,
+  includeMessage?: { messageId: string; message: Message }
+): Message[] {
+  const history: Message[] = [];
+  
+  // Build a map for quick lookup
+  const messagesByBranchId = new Map<string, Message>();
+  for (const msg of allMessages) {
+    for (const branch of msg.branches) {
+      messagesByBranchId.set(branch.id, msg);
+    }
+  }
+  
+  // Start from the specified branch and work backwards
+  let currentBranchId = fromBranchId;
+  
+  while (currentBranchId && currentBranchId !== 'root') {
+    const message = messagesByBranchId.get(currentBranchId);
+    if (!message) {
+      Logger.debug('[buildConversationHistory] Could not find message for branch:', currentBranchId);
+      break;
+    }
+    
+    // Use the provided message if this is the one to replace
+    let messageToAdd = includeMessage && message.id === includeMessage.messageId 
+      ? includeMessage.message 
+      : message;
+    
+    // CRITICAL: Ensure activeBranchId matches the branch we're traversing
+    // Without this, if user switched branches before regenerating, the prefill
+    // would contain content from the wrong branch!
+    if (messageToAdd.activeBranchId !== currentBranchId) {
+      messageToAdd = {
+        ...messageToAdd,
+        activeBranchId: currentBranchId
+      };
+      Logger.debug(`[buildConversationHistory] Fixed activeBranchId mismatch for message ${message.id.substring(0, 8)}`);
+    }
+    
+    // Add to beginning of history (we're building backwards)
+    history.unshift(messageToAdd);
+    
+    // Find the branch and get its parent
+    const branch = messageToAdd.branches.find(b => b.id === currentBranchId);
+    if (!branch) {
+      console.log('[buildConversationHistory] Could not find branch:', currentBranchId);
+      break;
+    }
+    
+    currentBranchId = branch.parentBranchId;
+  }
+  
+  return history;
+}
+
+/**
+ * Filter out messages that are marked as hidden from AI.
+ * These messages are visible to humans but should not be included in the AI context.
+ * 
+ * @param messages - Array of messages to filter
+ * @returns Array of messages with hiddenFromAi branches removed
+ */
+export function filterHiddenFromAiMessages(messages: Message[]): Message[] {
+  return messages
+    .map(msg => {
+      // Get the active branch
+      const activeBranch = msg.branches.find(b => b.id === msg.activeBranchId);
+      
+      // If the active branch is hidden from AI, skip this message entirely
+      if (activeBranch?.hiddenFromAi) {
+        return null;
+      }
+      
+      return msg;
+    })
+    .filter((msg): msg is Message => msg !== null);
+}
+
+
+/**
+ * Inference settings for a responder. Standard conversations always use the
+ * conversation settings; group chats (prefill) let the participant override
+ * sampling and model-specific settings, but thinking stays conversation-level.
+ */
+export function mergeInferenceSettings(conversation: Conversation, responder: Participant): ModelSettings {
+  if (conversation.format === 'standard') {
+    return conversation.settings;
+  }
+  return {
+    temperature: responder.settings?.temperature ?? conversation.settings.temperature,
+    maxTokens: responder.settings?.maxTokens ?? conversation.settings.maxTokens,
+    topP: responder.settings?.topP ?? conversation.settings.topP,
+    topK: responder.settings?.topK ?? conversation.settings.topK,
+    // Always use conversation-level thinking settings
+    thinking: conversation.settings.thinking,
+    // Include model-specific settings (e.g., image resolution)
+    modelSpecific: responder.settings?.modelSpecific ?? conversation.settings.modelSpecific
+  };
+}
+
+/**
+ * Add a message under a parent branch. If the parent already has a child
+ * message, the new content becomes another branch of that message (a sibling
+ * of the existing reply); otherwise a new message is created. Without a parent
+ * the message is appended to the end of the active path.
+ */
+export async function createMessageUnderParent(
+  db: Database,
+  conversationId: string,
+  conversationOwnerUserId: string,
+  content: string,
+  role: 'user' | 'assistant',
+  model: string | undefined,
+  parentBranchId: string | undefined,
+  participantId: string | undefined,
+  attachments: any[] | undefined,
+  sentByUserId: string | undefined,
+  hiddenFromAi: boolean | undefined,
+  creationSource: 'inference' | 'human_edit'
+): Promise<Message | null> {
+  if (parentBranchId) {
+    const allMessages = await db.getConversationMessages(conversationId, conversationOwnerUserId);
+    const messageWithSiblings = allMessages.find(msg =>
+      msg.branches.some(b => b.parentBranchId === parentBranchId)
+    );
+
+    if (messageWithSiblings) {
+      Logger.debug('Adding branch to existing message:', messageWithSiblings.id);
+      return db.addMessageBranch(
+        messageWithSiblings.id,
+        messageWithSiblings.conversationId,
+        conversationOwnerUserId,
+        content,
+        role,
+        parentBranchId,
+        model,
+        participantId,
+        attachments,
+        sentByUserId,
+        hiddenFromAi,
+        false, // preserveActiveBranch - select this new branch
+        creationSource
+      );
+    }
+  }
+
+  return db.createMessage(
+    conversationId,
+    conversationOwnerUserId,
+    content,
+    role,
+    model,
+    parentBranchId,
+    participantId,
+    attachments,
+    sentByUserId,
+    hiddenFromAi,
+    creationSource
+  );
+}
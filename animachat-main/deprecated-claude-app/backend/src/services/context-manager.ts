@@ -1,12 +1,17 @@
-import { Message, Conversation, ContextManagement, DEFAULT_CONTEXT_MANAGEMENT, Participant } from '@deprecated-claude/shared';
+import { Message, Conversation, ContextManagement, ContextSummary, DEFAULT_CONTEXT_MANAGEMENT, Participant, Bookmark } from '@deprecated-claude/shared';
 import {
   ContextStrategy,
   ContextWindow,
   CacheMarker,
   AppendContextStrategy,
-  RollingContextStrategy
+  RollingContextStrategy,
+  StaticContextStrategy,
+  AdaptiveContextStrategy,
+  SummarizeContextStrategy
 } from './context-strategies.js';
+import { ContextSummarizer, ContextSummaryOptions } from './context-summarizer.js';
 import { Logger } from '../utils/logger.js';
+import { Tokenizer, getTokenizer } from '../utils/tokenizer.js';
 import { PersonaContextBuilder } from './persona-context-builder.js';
 import type { Database } from '../database/index.js';
 
@@ -38,8 +43,15 @@ export class ContextManager {
   private states: Map<string, ContextState>; // key is conversationId or conversationId:participantId
   private config: ContextManagerConfig;
   private personaContextBuilder?: PersonaContextBuilder;
+  private summarizer?: ContextSummarizer;
+  private getBookmarks?: (conversationId: string) => Promise<Bookmark[]>;
 
-  constructor(config: Partial<ContextManagerConfig> = {}, db?: Database) {
+  constructor(
+    config: Partial<ContextManagerConfig> = {},
+    db?: Database,
+    summarizer?: ContextSummarizer,
+    bookmarkDb?: Pick<Database, 'getConversationBookmarks'> // Bookmarks for the adaptive strategy, defaults to db
+  ) {
     this.config = {
       defaultStrategy: 'rolling',
       enableCaching: true,
@@ -56,6 +68,15 @@ export class ContextManager {
     if (db) {
       this.personaContextBuilder = new PersonaContextBuilder(db);
     }
+
+    // Without a summarizer the summarize strategy behaves like the rolling one
+    this.summarizer = summarizer;
+
+    // Without bookmarks the adaptive strategy only keeps pinned and important messages
+    const bookmarkSource = bookmarkDb ?? db;
+    if (bookmarkSource) {
+      this.getBookmarks = conversationId => bookmarkSource.getConversationBookmarks(conversationId);
+    }
   }
   
   async prepareContext(
@@ -63,7 +84,9 @@ export class ContextManager {
     messages: Message[],
     newMessage?: Message,
     participant?: Participant,
-    modelMaxContext?: number
+    modelMaxContext?: number,
+    tokenizer: Tokenizer = getTokenizer(), // The responding model's, for window sizes and cache points
+    summaryOptions?: ContextSummaryOptions // Needed to write new summaries for the summarize strategy
   ): Promise<{
     formattedMessages: any[]; // Provider-specific format
     cacheKey?: string;
@@ -106,13 +129,39 @@ export class ContextManager {
     }
 
     // Get or create appropriate strategy - pass stateKey to ensure per-context instances
-    const strategy = this.getOrCreateStrategy(contextManagement, stateKey);
+    const strategy = this.getOrCreateStrategy(contextManagement, stateKey, tokenizer);
 
     // Get or create state
     const state = this.getOrCreateState(stateKey, contextManagement.strategy);
 
+    // The summarize strategy only rolls the messages after the current summary
+    // Summaries follow conversation settings unless the participant has its own
+    const allMessages = newMessage ? [...contextMessages, newMessage] : contextMessages;
+    const summaryParticipantId = participant?.contextManagement ? participant.id : undefined;
+    let summary: ContextSummary | undefined;
+    if (strategy instanceof SummarizeContextStrategy) {
+      summary = await this.summarizer?.findSummary(conversation, summaryParticipantId, allMessages);
+      strategy.setSummary(summary);
+    }
+    if (strategy instanceof AdaptiveContextStrategy) {
+      strategy.setBookmarks(this.getBookmarks ? await this.getBookmarks(conversation.id) : []);
+    }
+
     // Prepare context window using persona-enhanced messages if available
-    const window = strategy.prepareContext(contextMessages, newMessage, state.cacheMarker, modelMaxContext);
+    let window = strategy.prepareContext(contextMessages, newMessage, state.cacheMarker, modelMaxContext);
+    
+    if (strategy instanceof SummarizeContextStrategy) {
+      window = await this.applySummary(
+        strategy,
+        window,
+        allMessages,
+        conversation,
+        summaryParticipantId,
+        contextManagement as Extract<ContextManagement, { strategy: 'summarize' }>,
+        summary,
+        summaryOptions
+      );
+    }
     
     // Update cache marker if changed
     if (window.cacheMarker?.messageId !== state.cacheMarker?.messageId) {
@@ -167,6 +216,50 @@ export class ContextManager {
     };
   }
   
+  /**
+   * Bring the summary up to the start of the window (after a rotation dropped
+   * messages it does not cover yet) and place it before the window.
+   * If writing the summary fails, the previous one is used.
+   */
+  private async applySummary(
+    strategy: SummarizeContextStrategy,
+    window: ContextWindow,
+    allMessages: Message[],
+    conversation: Conversation,
+    participantId: string | undefined,
+    config: Extract<ContextManagement, { strategy: 'summarize' }>,
+    summary: ContextSummary | undefined,
+    summaryOptions?: ContextSummaryOptions
+  ): Promise<ContextWindow> {
+    const windowStart = window.messages.length > 0
+      ? allMessages.findIndex(m => m.id === window.messages[0].id)
+      : -1;
+    const summarizedThrough = summary?.throughMessageId;
+    const summarizedCount = summarizedThrough
+      ? allMessages.findIndex(m => m.id === summarizedThrough) + 1
+      : 0;
+    
+    if (this.summarizer && summaryOptions && windowStart > summarizedCount) {
+      try {
+        summary = await this.summarizer.summarize(
+          conversation,
+          participantId,
+          config,
+          allMessages,
+          windowStart - 1,
+          summary,
+          summaryOptions
+        );
+        strategy.setSummary(summary);
+        Logger.context(`[ContextManager] Summary ${summary.id} now covers ${summary.messageCount} messages`);
+      } catch (error) {
+        Logger.error(`[ContextManager] Failed to summarize ${windowStart - summarizedCount} dropped messages:`, error);
+      }
+    }
+    
+    return summary ? strategy.withSummary(window, summary.content) : window;
+  }
+  
   updateAfterInference(
     conversationId: string,
     response: {
@@ -211,7 +304,6 @@ export class ContextManager {
   
   setContextManagement(conversationId: string, contextManagement: ContextManagement, participantId?: string): void {
     const stateKey = participantId ? `${conversationId}:${participantId}` : conversationId;
-    const strategy = this.getOrCreateStrategy(contextManagement, stateKey);
     
     const state = this.getOrCreateState(stateKey, contextManagement.strategy);
     state.strategy = contextManagement.strategy;
@@ -219,35 +311,48 @@ export class ContextManager {
     state.lastWindow = undefined;
     state.cacheMarker = undefined;
     
-    // Clear strategy's internal state if it has a reset method
-    if ((strategy as any).resetState) {
-      (strategy as any).resetState();
-      Logger.context(`[ContextManager] Reset strategy state due to config change for ${stateKey}`);
-    }
+    // Clear the internal state of the strategies for this config (one per tokenizer family)
+    const keyPrefix = `${JSON.stringify(contextManagement)}:${stateKey}:`;
+    this.strategies.forEach((strategy, key) => {
+      if (key.startsWith(keyPrefix) && (strategy as any).resetState) {
+        (strategy as any).resetState();
+        Logger.context(`[ContextManager] Reset strategy state due to config change for ${stateKey}`);
+      }
+    });
   }
   
-  private getOrCreateStrategy(contextManagement: ContextManagement, stateKey?: string): ContextStrategy {
+  private getOrCreateStrategy(contextManagement: ContextManagement, stateKey: string | undefined, tokenizer: Tokenizer): ContextStrategy {
     // IMPORTANT: Include stateKey in cache key for stateful strategies like rolling window
     // This ensures each conversation/participant gets its own strategy instance
     // Without this, multiple participants sharing the same config would corrupt each other's state
+    // The tokenizer family is included too, since a model switch changes every token count
     const configKey = JSON.stringify(contextManagement);
-    const key = stateKey ? `${configKey}:${stateKey}` : configKey;
+    const key = `${stateKey ? `${configKey}:${stateKey}` : configKey}:${tokenizer.family}`;
     
     if (!this.strategies.has(key)) {
       let strategy: ContextStrategy;
       
       switch (contextManagement.strategy) {
         case 'append':
-          strategy = new AppendContextStrategy(contextManagement as Extract<ContextManagement, { strategy: 'append' }>);
+          strategy = new AppendContextStrategy(contextManagement as Extract<ContextManagement, { strategy: 'append' }>, tokenizer);
           break;
         case 'rolling':
-          strategy = new RollingContextStrategy(contextManagement as Extract<ContextManagement, { strategy: 'rolling' }>);
+          strategy = new RollingContextStrategy(contextManagement as Extract<ContextManagement, { strategy: 'rolling' }>, tokenizer);
+          break;
+        case 'static':
+          strategy = new StaticContextStrategy(contextManagement as Extract<ContextManagement, { strategy: 'static' }>, tokenizer);
+          break;
+        case 'adaptive':
+          strategy = new AdaptiveContextStrategy(contextManagement as Extract<ContextManagement, { strategy: 'adaptive' }>, tokenizer);
+          break;
+        case 'summarize':
+          strategy = new SummarizeContextStrategy(contextManagement as Extract<ContextManagement, { strategy: 'summarize' }>, tokenizer);
           break;
         default:
           throw new Error(`Unknown context strategy: ${(contextManagement as any).strategy}`);
       }
       
-      Logger.debug(`[ContextManager] Created new ${contextManagement.strategy} strategy for ${stateKey || 'default'} with config:`, contextManagement);
+      Logger.debug(`[ContextManager] Created new ${contextManagement.strategy} strategy for ${stateKey || 'default'} (${tokenizer.family} tokens) with config:`, contextManagement);
       this.strategies.set(key, strategy);
     }
     
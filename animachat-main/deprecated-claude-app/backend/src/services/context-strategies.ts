@@ -1,5 +1,6 @@
-import { Message, ContextManagement } from '@deprecated-claude/shared';
+import { Message, ContextManagement, PrefixHistoryEntry, Bookmark } from '@deprecated-claude/shared';
 import { Logger } from '../utils/logger.js';
+import { Tokenizer, getTokenizer, countAttachmentImageTokens } from '../utils/tokenizer.js';
 
 export interface CacheMarker {
   messageId: string;
@@ -35,10 +36,11 @@ export interface ContextStrategy {
   getCacheBreakpoint(messages: Message[]): number;
 }
 
-// Simplified token counting - in production, use tiktoken or similar
-function estimateTokens(content: string): number {
-  return Math.ceil(content.length / 4);
-}
+// Smallest prefix providers cache (Anthropic/OpenRouter requirement)
+const PROVIDER_MIN_CACHE_TOKENS = 1024;
+
+// Cache points per request (Anthropic supports 4)
+const MAX_CACHE_POINTS = 4;
 
 function isImageAttachment(fileName?: string): boolean {
   if (!fileName) return false;
@@ -49,11 +51,11 @@ function isImageAttachment(fileName?: string): boolean {
   return imageExtensions.includes(ext);
 }
 
-function getMessageTokens(message: Message): number {
+export function getMessageTokens(message: Message, tokenizer: Tokenizer): number {
   const branch = message.branches.find(b => b.id === message.activeBranchId);
   if (!branch) return 0;
   
-  let tokens = estimateTokens(branch.content);
+  let tokens = tokenizer.countTokens(branch.content);
   
   // Include contentBlocks (thinking) in token count
   // In prefill mode, thinking blocks are prepended to the message content
@@ -62,7 +64,7 @@ function getMessageTokens(message: Message): number {
     for (const block of branch.contentBlocks) {
       if (block.type === 'thinking' && block.thinking) {
         // Thinking content + XML tags overhead: <thinking>\n...\n</thinking>\n\n
-        tokens += estimateTokens(block.thinking) + 10; // ~10 tokens for tags
+        tokens += tokenizer.countTokens(block.thinking) + 10; // ~10 tokens for tags
       } else if (block.type === 'redacted_thinking') {
         // Redacted thinking: <thinking>[Redacted for safety]</thinking>\n\n
         tokens += 15; // Fixed overhead for redacted content
@@ -76,11 +78,10 @@ function getMessageTokens(message: Message): number {
       let attachmentTokens = 0;
       
       if (isImageAttachment(attachment.fileName)) {
-        // Images: Anthropic counts as ~1500 tokens regardless of size
-        attachmentTokens = 1500;
+        // Images: counted from their dimensions by the model's provider formula
+        attachmentTokens = countAttachmentImageTokens(tokenizer, attachment);
       } else {
-        // Text attachments: use length/4 estimation
-        attachmentTokens = estimateTokens(attachment.content);
+        attachmentTokens = tokenizer.countTokens(attachment.content);
       }
       
       tokens += attachmentTokens;
@@ -90,8 +91,8 @@ function getMessageTokens(message: Message): number {
   return tokens;
 }
 
-function getTotalTokens(messages: Message[]): number {
-  return messages.reduce((sum, msg) => sum + getMessageTokens(msg), 0);
+function getTotalTokens(messages: Message[], tokenizer: Tokenizer): number {
+  return messages.reduce((sum, msg) => sum + getMessageTokens(msg, tokenizer), 0);
 }
 
 /**
@@ -101,7 +102,8 @@ function getTotalTokens(messages: Message[]): number {
 function findNearestUserMessage(
   messages: Message[], 
   startIndex: number, 
-  currentTokens: number
+  currentTokens: number,
+  tokenizer: Tokenizer
 ): { index: number, tokens: number } | null {
   let index = startIndex;
   let tokens = currentTokens;
@@ -120,7 +122,7 @@ function findNearestUserMessage(
     }
     
     // Subtract tokens of the message we are skipping
-    tokens -= getMessageTokens(msg);
+    tokens -= getMessageTokens(msg, tokenizer);
     index--;
   }
   
@@ -131,7 +133,8 @@ export class AppendContextStrategy implements ContextStrategy {
   name = 'append';
   
   constructor(
-    private config: Extract<ContextManagement, { strategy: 'append' }>
+    private config: Extract<ContextManagement, { strategy: 'append' }>,
+    private tokenizer: Tokenizer = getTokenizer()
   ) {}
   
   prepareContext(
@@ -141,7 +144,7 @@ export class AppendContextStrategy implements ContextStrategy {
     modelMaxContext?: number
   ): ContextWindow {
     const allMessages = newMessage ? [...messages, newMessage] : messages;
-    const totalTokens = getTotalTokens(allMessages);
+    const totalTokens = getTotalTokens(allMessages, this.tokenizer);
     
     // Log context boundaries for debugging
     if (allMessages.length > 0) {
@@ -211,7 +214,7 @@ export class AppendContextStrategy implements ContextStrategy {
         
         // Find message boundary closest to target
         while (currentMessageIdx < allMessages.length && runningTokens < targetTokens) {
-          runningTokens += getMessageTokens(allMessages[currentMessageIdx]);
+          runningTokens += getMessageTokens(allMessages[currentMessageIdx], this.tokenizer);
           currentMessageIdx++;
         }
         
@@ -222,7 +225,7 @@ export class AppendContextStrategy implements ContextStrategy {
           
           // WORKAROUND: OpenRouter fails to cache if marker is on Assistant message
           // Find nearest User message backwards
-          const nearestUser = findNearestUserMessage(allMessages, markerIndex, markerTokens);
+          const nearestUser = findNearestUserMessage(allMessages, markerIndex, markerTokens, this.tokenizer);
           if (nearestUser) {
              // Check if we already used this message for a previous cache point
              const alreadyUsed = tempMarkers.some(m => m.messageIndex === nearestUser.index);
@@ -296,12 +299,12 @@ export class AppendContextStrategy implements ContextStrategy {
   
   getCacheBreakpoint(messages: Message[]): number {
     // For append strategy, cache breakpoint is determined by token count
-    const totalTokens = getTotalTokens(messages);
+    const totalTokens = getTotalTokens(messages, this.tokenizer);
     if (totalTokens < 5000) return 0;
     
     let tokenSum = 0;
     for (let i = 0; i < messages.length; i++) {
-      tokenSum += getMessageTokens(messages[i]);
+      tokenSum += getMessageTokens(messages[i], this.tokenizer);
       if (tokenSum >= totalTokens - 1000) { // Keep last 1k tokens uncached
         return i;
       }
@@ -327,7 +330,8 @@ export class RollingContextStrategy implements ContextStrategy {
   };
   
   constructor(
-    private config: Extract<ContextManagement, { strategy: 'rolling' }>
+    private config: Extract<ContextManagement, { strategy: 'rolling' }>,
+    private tokenizer: Tokenizer = getTokenizer()
   ) {
     Logger.debug('[RollingContextStrategy] Initialized with config:', this.config);
   }
@@ -342,6 +346,13 @@ export class RollingContextStrategy implements ContextStrategy {
     Logger.context('[RollingContextStrategy] State reset');
   }
   
+  /**
+   * Change the window size, e.g. when part of the context goes to messages kept outside the window.
+   */
+  setLimits(maxTokens: number, maxGraceTokens: number): void {
+    this.config = { ...this.config, maxTokens, maxGraceTokens };
+  }
+  
   prepareContext(
     messages: Message[], 
     newMessage?: Message,
@@ -403,7 +414,7 @@ export class RollingContextStrategy implements ContextStrategy {
       Logger.context(`[RollingContextStrategy] Evaluating all messages (no window yet)`);
     }
     
-    let totalTokens = getTotalTokens(messagesToEvaluate);
+    let totalTokens = getTotalTokens(messagesToEvaluate, this.tokenizer);
     
     Logger.context(`[RollingContextStrategy] Processing ${allMessages.length} total messages (${messagesToEvaluate.length} in scope), ${totalTokens} tokens`);
     Logger.context(`[RollingContextStrategy] Config: maxTokens=${this.config.maxTokens}, graceTokens=${this.config.maxGraceTokens}, total=${this.config.maxTokens + this.config.maxGraceTokens}`);
@@ -455,7 +466,7 @@ export class RollingContextStrategy implements ContextStrategy {
       
       // Find where to start keeping messages to meet or slightly exceed maxTokens
       for (let i = messagesToEvaluate.length - 1; i >= 0; i--) {
-        const msgTokens = getMessageTokens(messagesToEvaluate[i]);
+        const msgTokens = getMessageTokens(messagesToEvaluate[i], this.tokenizer);
         tokenSum += msgTokens;
         
         // Keep going until we meet or exceed maxTokens
@@ -467,7 +478,7 @@ export class RollingContextStrategy implements ContextStrategy {
       
       keptMessages = messagesToEvaluate.slice(startIdx);
       droppedCount = startIdx;
-      totalTokens = getTotalTokens(keptMessages);
+      totalTokens = getTotalTokens(keptMessages, this.tokenizer);
       
       // Reset state after rotation
       this.state.inGracePeriod = false;
@@ -553,7 +564,7 @@ export class RollingContextStrategy implements ContextStrategy {
         
         // Find message boundary closest to target
         while (currentMessageIdx < keptMessages.length && runningTokens < targetTokens) {
-          runningTokens += getMessageTokens(keptMessages[currentMessageIdx]);
+          runningTokens += getMessageTokens(keptMessages[currentMessageIdx], this.tokenizer);
           currentMessageIdx++;
         }
         
@@ -564,7 +575,7 @@ export class RollingContextStrategy implements ContextStrategy {
           
           // WORKAROUND: OpenRouter fails to cache if marker is on Assistant message
           // Find nearest User message backwards
-          const nearestUser = findNearestUserMessage(keptMessages, markerIndex, markerTokens);
+          const nearestUser = findNearestUserMessage(keptMessages, markerIndex, markerTokens, this.tokenizer);
           if (nearestUser) {
              // Check if we already used this message
              const alreadyUsed = tempMarkers.some(m => m.messageIndex === nearestUser.index);
@@ -663,7 +674,7 @@ export class RollingContextStrategy implements ContextStrategy {
   
   getCacheBreakpoint(messages: Message[]): number {
     // Use arithmetic positioning for cache breakpoint
-    const totalTokens = getTotalTokens(messages);
+    const totalTokens = getTotalTokens(messages, this.tokenizer);
     const workingWindowSize = this.config.maxTokens + this.config.maxGraceTokens;
     const cacheStep = Math.floor(workingWindowSize / 2);
     const PROVIDER_MIN_CACHE_TOKENS = 1024;
@@ -673,7 +684,7 @@ export class RollingContextStrategy implements ContextStrategy {
     // Find message boundary closest to cacheStep tokens
     let tokenCount = 0;
     for (let i = 0; i < messages.length; i++) {
-      tokenCount += getMessageTokens(messages[i]);
+      tokenCount += getMessageTokens(messages[i], this.tokenizer);
       if (tokenCount >= cacheStep) {
         return i + 1; // Return index after the cache marker
       }
@@ -691,7 +702,8 @@ export class LegacyRollingContextStrategy implements ContextStrategy {
   constructor(
     private maxMessages: number = 100,
     private rotationInterval: number = 20,
-    private cacheRatio: number = 0.8
+    private cacheRatio: number = 0.8,
+    private tokenizer: Tokenizer = getTokenizer()
   ) {}
   
   prepareContext(messages: Message[], newMessage?: Message, currentCacheMarker?: CacheMarker, modelMaxContext?: number): ContextWindow {
@@ -705,7 +717,7 @@ export class LegacyRollingContextStrategy implements ContextStrategy {
         activeWindow: allMessages.slice(breakpoint),
         metadata: {
           totalMessages: allMessages.length,
-          totalTokens: getTotalTokens(allMessages),
+          totalTokens: getTotalTokens(allMessages, this.tokenizer),
           windowStart: 0,
           windowEnd: allMessages.length,
           lastRotation: null,
@@ -731,7 +743,7 @@ export class LegacyRollingContextStrategy implements ContextStrategy {
       activeWindow: finalMessages.slice(breakpoint),
       metadata: {
         totalMessages: allMessages.length,
-        totalTokens: getTotalTokens(finalMessages),
+        totalTokens: getTotalTokens(finalMessages, this.tokenizer),
         windowStart: startIdx,
         windowEnd: startIdx + finalMessages.length,
         lastRotation: rotationsNeeded > 0 ? new Date() : null,
@@ -750,28 +762,51 @@ export class LegacyRollingContextStrategy implements ContextStrategy {
   }
 }
 
+/**
+ * Keeps the most recent maxMessages messages and caches a fixed share of them.
+ */
 export class StaticContextStrategy implements ContextStrategy {
   name = 'static';
   
   constructor(
-    private maxMessages: number = 200,
-    private alwaysCacheRatio: number = 0.9
+    private config: Extract<ContextManagement, { strategy: 'static' }>,
+    private tokenizer: Tokenizer = getTokenizer()
   ) {}
   
   prepareContext(messages: Message[], newMessage?: Message, currentCacheMarker?: CacheMarker, modelMaxContext?: number): ContextWindow {
     const allMessages = newMessage ? [...messages, newMessage] : messages;
-    const breakpoint = Math.floor(allMessages.length * this.alwaysCacheRatio);
+    const keptMessages = allMessages.slice(-this.config.maxMessages);
+    const windowStart = allMessages.length - keptMessages.length;
+    
+    // One cache point at the end of the cached share, moved back to a user message
+    let cacheMarker: CacheMarker | undefined;
+    const breakpoint = this.getCacheBreakpoint(keptMessages);
+    if (breakpoint > 0) {
+      const markerIndex = breakpoint - 1;
+      const markerTokens = getTotalTokens(keptMessages.slice(0, breakpoint), this.tokenizer);
+      const nearestUser = findNearestUserMessage(keptMessages, markerIndex, markerTokens, this.tokenizer);
+      if (nearestUser && nearestUser.tokens >= PROVIDER_MIN_CACHE_TOKENS) {
+        cacheMarker = {
+          messageId: keptMessages[nearestUser.index].id,
+          messageIndex: nearestUser.index,
+          tokenCount: nearestUser.tokens
+        };
+      }
+    }
+    const cacheBreakpoint = cacheMarker ? cacheMarker.messageIndex + 1 : 0;
     
     return {
-      messages: allMessages.slice(-this.maxMessages),
-      cacheablePrefix: allMessages.slice(0, breakpoint),
-      activeWindow: allMessages.slice(breakpoint),
+      messages: keptMessages,
+      cacheablePrefix: keptMessages.slice(0, cacheBreakpoint),
+      activeWindow: keptMessages.slice(cacheBreakpoint),
+      cacheMarker,
+      cacheMarkers: cacheMarker ? [cacheMarker] : undefined,
       metadata: {
         totalMessages: allMessages.length,
-        totalTokens: getTotalTokens(allMessages.slice(-this.maxMessages)),
-        windowStart: Math.max(0, allMessages.length - this.maxMessages),
+        totalTokens: getTotalTokens(keptMessages, this.tokenizer),
+        windowStart,
         windowEnd: allMessages.length,
-        lastRotation: null,
+        lastRotation: windowStart > 0 ? new Date() : null,
       },
     };
   }
@@ -781,75 +816,258 @@ export class StaticContextStrategy implements ContextStrategy {
   }
   
   getCacheBreakpoint(messages: Message[]): number {
-    return Math.floor(messages.length * this.alwaysCacheRatio);
+    return Math.floor(messages.length * this.config.cacheRatio);
   }
 }
 
+/**
+ * Importance of a message from the signals users set on its active branch.
+ * Pinned messages score 1, so they are kept at any threshold.
+ */
+const IMPORTANCE_SCORES = {
+  pinned: 1,
+  important: 0.8,
+  bookmarked: 0.5,
+};
+
+export function scoreImportance(message: Message, bookmarkedBranchIds: Set<string> = new Set()): number {
+  const branch = message.branches.find(b => b.id === message.activeBranchId);
+  if (!branch) return 0;
+  if (branch.pinned) return IMPORTANCE_SCORES.pinned;
+  if (branch.important) return IMPORTANCE_SCORES.important;
+  if (bookmarkedBranchIds.has(branch.id)) return IMPORTANCE_SCORES.bookmarked;
+  return 0;
+}
+
+/**
+ * Always keeps messages scoring at least importanceThreshold (pinned setup
+ * messages, flagged or bookmarked ones) and rolls the rest like the rolling
+ * strategy in the tokens they leave. Kept messages stay in their original
+ * position; those before the rolling window form a prefix that survives
+ * rotations, so it gets its own cache point.
+ */
 export class AdaptiveContextStrategy implements ContextStrategy {
   name = 'adaptive';
+  private rolling: RollingContextStrategy;
+  private bookmarkedBranchIds: Set<string> = new Set();
   
   constructor(
-    private maxMessages: number = 100,
-    private importanceThreshold: number = 0.7
-  ) {}
+    private config: Extract<ContextManagement, { strategy: 'adaptive' }>,
+    private tokenizer: Tokenizer = getTokenizer()
+  ) {
+    this.rolling = new RollingContextStrategy({
+      strategy: 'rolling',
+      maxTokens: config.maxTokens,
+      maxGraceTokens: config.maxGraceTokens
+    }, tokenizer);
+  }
+  
+  resetState(): void {
+    this.rolling.resetState();
+  }
+  
+  /**
+   * Set the conversation's bookmarks, before prepareContext.
+   */
+  setBookmarks(bookmarks: Bookmark[]): void {
+    this.bookmarkedBranchIds = new Set(bookmarks.map(b => b.branchId));
+  }
   
   prepareContext(messages: Message[], newMessage?: Message, currentCacheMarker?: CacheMarker, modelMaxContext?: number): ContextWindow {
     const allMessages = newMessage ? [...messages, newMessage] : messages;
-    const scoredMessages = this.scoreMessages(allMessages);
     
-    const importantMessages = scoredMessages
-      .filter(m => m.score >= this.importanceThreshold)
-      .map(m => m.message);
+    const keptMessages = allMessages.filter(m => scoreImportance(m, this.bookmarkedBranchIds) >= this.config.importanceThreshold);
+    const keptIds = new Set(keptMessages.map(m => m.id));
+    
+    // The rolling window gets what the kept messages leave of the window
+    const windowTokens = modelMaxContext ? Math.min(this.config.maxTokens, modelMaxContext) : this.config.maxTokens;
+    const graceTokens = modelMaxContext
+      ? Math.max(0, Math.min(this.config.maxGraceTokens, modelMaxContext - windowTokens))
+      : this.config.maxGraceTokens;
+    const keptTokens = getTotalTokens(keptMessages, this.tokenizer);
+    if (keptTokens > windowTokens) {
+      throw new Error(`Pinned, important and bookmarked messages take ${keptTokens} tokens, more than the ${windowTokens}-token context window. Unpin some messages or raise the importance threshold.`);
+    }
+    this.rolling.setLimits(windowTokens - keptTokens, graceTokens);
+    
+    const rolled = this.rolling.prepareContext(
+      allMessages.filter(m => !keptIds.has(m.id)),
+      undefined,
+      undefined,
+      modelMaxContext
+    );
+    const windowIds = new Set(rolled.messages.map(m => m.id));
+    const finalMessages = allMessages.filter(m => keptIds.has(m.id) || windowIds.has(m.id));
     
-    const recentMessages = allMessages.slice(-20);
+    Logger.context(`[AdaptiveContextStrategy] Keeping ${keptIds.size} important messages (threshold ${this.config.importanceThreshold}, ${keptTokens} tokens) + ${rolled.messages.length} rolled messages`);
     
-    const messageSet = new Set([...importantMessages, ...recentMessages]
-      .map(m => m.id));
-    const finalMessages = allMessages
-      .filter(m => messageSet.has(m.id))
-      .slice(-this.maxMessages);
+    // Running token totals, to place cache points by position in the final list
+    const tokensThrough: number[] = [];
+    let runningTokens = 0;
+    for (const message of finalMessages) {
+      runningTokens += getMessageTokens(message, this.tokenizer);
+      tokensThrough.push(runningTokens);
+    }
+    
+    const cacheMarkers: CacheMarker[] = [];
+    
+    // Cache point at the end of the important messages before the rolling window
+    const firstWindowIndex = finalMessages.findIndex(m => windowIds.has(m.id));
+    const prefixLength = firstWindowIndex === -1 ? finalMessages.length : firstWindowIndex;
+    if (prefixLength > 0) {
+      const nearestUser = findNearestUserMessage(finalMessages, prefixLength - 1, tokensThrough[prefixLength - 1], this.tokenizer);
+      if (nearestUser && nearestUser.tokens >= PROVIDER_MIN_CACHE_TOKENS) {
+        cacheMarkers.push({
+          messageId: finalMessages[nearestUser.index].id,
+          messageIndex: nearestUser.index,
+          tokenCount: nearestUser.tokens
+        });
+      }
+    }
+    
+    // The rolling window's cache points, moved to their position among the kept messages
+    const rolledMarkers = (rolled.cacheMarkers ?? [])
+      .map(marker => finalMessages.findIndex(m => m.id === marker.messageId))
+      .filter(index => index >= 0 && !cacheMarkers.some(m => m.messageIndex === index))
+      .map(index => ({
+        messageId: finalMessages[index].id,
+        messageIndex: index,
+        tokenCount: tokensThrough[index]
+      }));
+    cacheMarkers.push(...rolledMarkers.slice(-(MAX_CACHE_POINTS - cacheMarkers.length)));
     
-    const breakpoint = importantMessages.length;
+    const cacheMarker = cacheMarkers[cacheMarkers.length - 1];
+    const cacheBreakpoint = cacheMarker ? cacheMarker.messageIndex + 1 : 0;
     
     return {
       messages: finalMessages,
-      cacheablePrefix: finalMessages.slice(0, breakpoint),
-      activeWindow: finalMessages.slice(breakpoint),
+      cacheablePrefix: finalMessages.slice(0, cacheBreakpoint),
+      activeWindow: finalMessages.slice(cacheBreakpoint),
+      cacheMarker,
+      cacheMarkers: cacheMarkers.length > 0 ? cacheMarkers : undefined,
       metadata: {
         totalMessages: allMessages.length,
-        totalTokens: getTotalTokens(finalMessages),
-        windowStart: 0,
-        windowEnd: finalMessages.length,
-        lastRotation: new Date(),
+        totalTokens: runningTokens,
+        windowStart: rolled.metadata.windowStart,
+        windowEnd: allMessages.length,
+        lastRotation: rolled.metadata.lastRotation,
       },
     };
   }
   
-  private scoreMessages(messages: Message[]): Array<{message: Message, score: number}> {
-    return messages.map((message, idx) => {
-      let score = 0.5;
-      
-      const recency = idx / messages.length;
-      score += recency * 0.2;
-      
-      const branch = message.branches.find(b => b.id === message.activeBranchId);
-      if (branch) {
-        if (branch.content.length > 500) score += 0.1;
-        if (branch.content.includes('```')) score += 0.2;
-        if (branch.role === 'user') score += 0.1;
-      }
-      
-      return { message, score: Math.min(1, score) };
-    });
+  shouldRotate(): boolean {
+    // Rotation happens in the rolling part of prepareContext
+    return false;
   }
   
-  shouldRotate(currentWindow: ContextWindow): boolean {
-    return currentWindow.activeWindow.length > 30;
+  getCacheBreakpoint(messages: Message[]): number {
+    // Important messages at the start are stable across rotations
+    const firstRolled = messages.findIndex(m => scoreImportance(m, this.bookmarkedBranchIds) < this.config.importanceThreshold);
+    return firstRolled === -1 ? messages.length : firstRolled;
+  }
+}
+
+/**
+ * Rolling window whose dropped messages are replaced by a summary. The summary
+ * itself is written and stored by the ContextManager's ContextSummarizer; this
+ * strategy only rolls the messages after it and places it in the window.
+ *
+ * Messages up to the summary's last covered message are never evaluated, so the
+ * window starts right after it until the next rotation, and the summary (sent as
+ * a prefixHistory entry on the first window message) stays part of the cached prefix.
+ */
+export class SummarizeContextStrategy implements ContextStrategy {
+  name = 'summarize';
+  private rolling: RollingContextStrategy;
+  private summary?: { throughMessageId: string; content: string };
+  
+  constructor(
+    private config: Extract<ContextManagement, { strategy: 'summarize' }>,
+    private tokenizer: Tokenizer = getTokenizer()
+  ) {
+    this.rolling = new RollingContextStrategy({
+      strategy: 'rolling',
+      maxTokens: config.maxTokens,
+      maxGraceTokens: config.maxGraceTokens
+    }, tokenizer);
+  }
+  
+  resetState(): void {
+    this.rolling.resetState();
+    this.summary = undefined;
+  }
+  
+  /**
+   * Set the summary covering the start of the conversation, before prepareContext.
+   */
+  setSummary(summary: { throughMessageId: string; content: string } | undefined): void {
+    // The rolled messages start after the summary, so a new boundary starts a new window
+    if (summary?.throughMessageId !== this.summary?.throughMessageId) {
+      this.rolling.resetState();
+    }
+    this.summary = summary;
+  }
+  
+  prepareContext(messages: Message[], newMessage?: Message, currentCacheMarker?: CacheMarker, modelMaxContext?: number): ContextWindow {
+    const allMessages = newMessage ? [...messages, newMessage] : messages;
+    const summaryEnd = this.summary
+      ? allMessages.findIndex(m => m.id === this.summary!.throughMessageId) + 1
+      : 0;
+    
+    const window = this.rolling.prepareContext(allMessages.slice(summaryEnd), undefined, currentCacheMarker, modelMaxContext);
+    
+    return {
+      ...window,
+      metadata: {
+        ...window.metadata,
+        totalMessages: allMessages.length,
+        windowStart: allMessages.length - window.messages.length,
+        windowEnd: allMessages.length,
+      },
+    };
+  }
+  
+  /**
+   * Place the summary before the window, as a prefixHistory entry on its first message.
+   */
+  withSummary(window: ContextWindow, content: string): ContextWindow {
+    if (window.messages.length === 0) return window;
+    
+    const first = window.messages[0];
+    const summaryEntry: PrefixHistoryEntry = {
+      role: 'user',
+      content: `[Summary of the earlier conversation]\n\n${content}`
+    };
+    const withEntry: Message = {
+      ...first,
+      branches: first.branches.map(branch => branch.id === first.activeBranchId
+        ? { ...branch, prefixHistory: [...(branch.prefixHistory ?? []), summaryEntry] }
+        : branch
+      )
+    };
+    const replaceFirst = (list: Message[]) => list.map(m => m === first ? withEntry : m);
+    const summaryTokens = this.tokenizer.countTokens(summaryEntry.content);
+    
+    return {
+      ...window,
+      messages: replaceFirst(window.messages),
+      cacheablePrefix: replaceFirst(window.cacheablePrefix),
+      activeWindow: replaceFirst(window.activeWindow),
+      cacheMarker: window.cacheMarker && { ...window.cacheMarker, tokenCount: window.cacheMarker.tokenCount + summaryTokens },
+      cacheMarkers: window.cacheMarkers?.map(marker => ({ ...marker, tokenCount: marker.tokenCount + summaryTokens })),
+      metadata: {
+        ...window.metadata,
+        totalTokens: window.metadata.totalTokens + summaryTokens,
+      },
+    };
+  }
+  
+  shouldRotate(): boolean {
+    // Rotation happens in the rolling part of prepareContext
+    return false;
   }
   
   getCacheBreakpoint(messages: Message[]): number {
-    const scored = this.scoreMessages(messages);
-    const important = scored.filter(m => m.score >= this.importanceThreshold);
-    return important.length;
+    return this.rolling.getCacheBreakpoint(messages);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,219 @@
+/**
+ * Context Summarizer
+ *
+ * Writes and finds the summaries used by the summarize context strategy. When
+ * the rolling window drops messages, the summarizer folds them into the previous
+ * summary with the configured (usually cheaper) model and stores the result, so
+ * it can be reused by every later request until the next rotation.
+ */
+
+import { createHash, randomUUID } from 'crypto';
+import { ContextManagement, ContextSummary, Conversation, Message, Model, getValidatedModelDefaults } from '@deprecated-claude/shared';
+import type { Database } from '../database/index.js';
+import type { InferenceService } from './inference.js';
+import { ModelLoader } from '../config/model-loader.js';
+import { getMessageTokens } from './context-strategies.js';
+import { Logger } from '../utils/logger.js';
+import { getTokenizer } from '../utils/tokenizer.js';
+
+const SUMMARY_SYSTEM_PROMPT = `You keep a running summary of a long conversation whose earlier messages no longer fit in the context window.
+Write a summary covering the previous summary (if any) and the new messages, to be read in their place.
+Keep every detail that may matter later: names, facts, decisions, commitments, open questions, preferences and anything the participants set up or agreed on.
+Drop small talk and repetition. Write in the third person, as prose or short lists, and reply with the summary only.`;
+
+/** Token usage of one summary request, as reported by the provider */
+export interface ContextSummaryUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  cacheCreationInputTokens?: number;
+  cacheReadInputTokens?: number;
+}
+
+export interface ContextSummaryOptions {
+  /** User whose API keys and credits pay for the summary */
+  userId: string;
+  /** Responding model, used when the strategy has no summaryModel */
+  modelId: string;
+  /** Called after each request to the summary model, for metrics and billing */
+  onUsage?: (model: Model, usage: ContextSummaryUsage, responseTime: number) => Promise<void>;
+}
+
+export class ContextSummarizer {
+  /** Summaries being written, so parallel branches share one request */
+  private pending: Map<string, Promise<ContextSummary>> = new Map();
+
+  constructor(
+    private db: Database,
+    private inferenceService: InferenceService
+  ) {}
+
+  /**
+   * The newest summary that applies to these messages: its last covered message
+   * is among them and the covered messages still have the same active branches.
+   */
+  async findSummary(conversation: Conversation, participantId: string | undefined, messages: Message[]): Promise<ContextSummary | undefined> {
+    for (const summary of await this.db.getContextSummaries(conversation.id, conversation.userId)) {
+      if (summary.participantId !== participantId) continue;
+
+      const index = messages.findIndex(m => m.id === summary.throughMessageId);
+      if (index >= 0 && hashPath(messages.slice(0, index + 1)) === summary.pathHash) {
+        return summary;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Write a summary of messages[0..throughIndex], extending the previous summary
+   * when it covers the start of them.
+   */
+  summarize(
+    conversation: Conversation,
+    participantId: string | undefined,
+    config: Extract<ContextManagement, { strategy: 'summarize' }>,
+    messages: Message[],
+    throughIndex: number,
+    previous: ContextSummary | undefined,
+    options: ContextSummaryOptions
+  ): Promise<ContextSummary> {
+    const key = `${conversation.id}:${participantId ?? ''}:${messages[throughIndex].id}`;
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = this.writeSummary(conversation, participantId, config, messages, throughIndex, previous, options)
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, pending);
+    }
+    return pending;
+  }
+
+  private async writeSummary(
+    conversation: Conversation,
+    participantId: string | undefined,
+    config: Extract<ContextManagement, { strategy: 'summarize' }>,
+    messages: Message[],
+    throughIndex: number,
+    previous: ContextSummary | undefined,
+    options: ContextSummaryOptions
+  ): Promise<ContextSummary> {
+    const modelId = config.summaryModel || options.modelId;
+    const model = await ModelLoader.getInstance().getModelById(modelId, options.userId);
+    if (!model) {
+      throw new Error(`Summary model ${modelId} not found`);
+    }
+
+    const participants = await this.db.getConversationParticipants(conversation.id, conversation.userId);
+    const names = new Map(participants.map(p => [p.id, p.name]));
+
+    const previousEnd = previous ? messages.findIndex(m => m.id === previous.throughMessageId) + 1 : 0;
+    const newMessages = messages.slice(previousEnd, throughIndex + 1);
+    Logger.context(`[ContextSummarizer] Summarizing ${newMessages.length} messages of ${conversation.id} with ${model.id}${previous ? ' into the previous summary' : ''}`);
+
+    // Fold the messages in a chunk at a time, so long spans fit the summary model
+    const chunkTokens = Math.max(Math.floor(model.contextWindow / 2) - config.summaryMaxTokens, 4000);
+    const tokenizer = getTokenizer(model);
+    let content = previous?.content;
+    let chunk: Message[] = [];
+    let chunkSize = 0;
+    for (const message of newMessages) {
+      const tokens = getMessageTokens(message, tokenizer);
+      if (chunk.length > 0 && chunkSize + tokens > chunkTokens) {
+        content = await this.runSummaryModel(model, config, content, chunk, names, options);
+        chunk = [];
+        chunkSize = 0;
+      }
+      chunk.push(message);
+      chunkSize += tokens;
+    }
+    if (chunk.length > 0) {
+      content = await this.runSummaryModel(model, config, content, chunk, names, options);
+    }
+
+    return this.db.createContextSummary(conversation.userId, {
+      conversationId: conversation.id,
+      participantId,
+      content: content ?? '',
+      throughMessageId: messages[throughIndex].id,
+      messageCount: throughIndex + 1,
+      pathHash: hashPath(messages.slice(0, throughIndex + 1)),
+      model: model.id
+    });
+  }
+
+  private async runSummaryModel(
+    model: Model,
+    config: Extract<ContextManagement, { strategy: 'summarize' }>,
+    previousSummary: string | undefined,
+    messages: Message[],
+    names: Map<string, string>,
+    options: ContextSummaryOptions
+  ): Promise<string> {
+    const transcript = messages.map(message => formatForTranscript(message, names)).join('\n\n');
+    const prompt = previousSummary
+      ? `Summary so far:\n\n${previousSummary}\n\nNew messages:\n\n${transcript}`
+      : `Messages:\n\n${transcript}`;
+
+    const branchId = randomUUID();
+    const request: Message = {
+      id: randomUUID(),
+      conversationId: messages[0].conversationId,
+      branches: [{ id: branchId, content: prompt, role: 'user', createdAt: new Date() }],
+      activeBranchId: branchId,
+      order: 0
+    };
+
+    // Model defaults without extended thinking, capped at the configured summary length
+    const { thinking, ...defaults } = getValidatedModelDefaults(model);
+    const settings = {
+      ...defaults,
+      maxTokens: Math.min(config.summaryMaxTokens, model.settings.maxTokens.max, model.outputTokenLimit)
+    };
+
+    const startTime = Date.now();
+    let text = '';
+    let usage: ContextSummaryUsage | undefined;
+    const result = await this.inferenceService.streamCompletion(
+      model.id,
+      [request],
+      SUMMARY_SYSTEM_PROMPT,
+      settings,
+      options.userId,
+      async (chunk, _isComplete, _contentBlocks, chunkUsage) => {
+        text += chunk;
+        if (chunkUsage) usage = chunkUsage;
+      }
+    );
+    usage = result?.usage ?? usage;
+
+    if (usage && options.onUsage) {
+      await options.onUsage(model, usage, Date.now() - startTime);
+    }
+
+    const summary = text.trim();
+    if (!summary) {
+      throw new Error(`Summary model ${model.id} returned no text`);
+    }
+    return summary;
+  }
+}
+
+/** Identifies the active branches of a run of messages */
+function hashPath(messages: Message[]): string {
+  const hash = createHash('sha256');
+  for (const message of messages) {
+    hash.update(`${message.id}:${message.activeBranchId};`);
+  }
+  return hash.digest('hex');
+}
+
+function formatForTranscript(message: Message, names: Map<string, string>): string {
+  const branch = message.branches.find(b => b.id === message.activeBranchId);
+  if (!branch) return '';
+
+  // Forks keep their earlier history on the first message
+  const lines = (branch.prefixHistory ?? []).map(entry => `${entry.participantName || entry.role}: ${entry.content}`);
+
+  const speaker = (branch.participantId && names.get(branch.participantId)) || branch.role;
+  const attachments = (branch.attachments ?? []).map(attachment => `[attachment: ${attachment.fileName}]`);
+  lines.push(`${speaker}: ${[branch.content, ...attachments].filter(Boolean).join('\n')}`);
+  return lines.join('\n\n');
+}
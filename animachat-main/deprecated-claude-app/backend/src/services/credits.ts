@@ -0,0 +1,37 @@
+/**
+ * Credit checks shared by every path that runs inference on a user's behalf
+ * (chat messages, regenerations, delegate triggers).
+ */
+
+import { Database } from '../database/index.js';
+import { ModelLoader } from '../config/model-loader.js';
+
+/**
+ * Whether the user may run inference with the given model: they bring their own
+ * API key for its provider, have a positive balance in an applicable currency,
+ * or hold the overspend capability.
+ */
+export async function userHasSufficientCredits(db: Database, userId: string, modelId?: string): Promise<boolean> {
+  // Check if the user has their own API key for the model's provider
+  if (modelId) {
+    const modelLoader = ModelLoader.getInstance();
+    const model = await modelLoader.getModelById(modelId, userId);
+    if (model) {
+      // Check if user has their own API key for this provider
+      const userApiKeys = await db.getUserApiKeys(userId);
+      const hasProviderKey = userApiKeys.some(key => key.provider === model.provider);
+      if (hasProviderKey) {
+        console.log(`[Credits] User ${userId} has custom ${model.provider} API key, skipping credit check`);
+        return true;
+      }
+    }
+  }
+
+  const summary = await db.getUserGrantSummary(userId);
+  const currencies = await db.getApplicableGrantCurrencies(modelId, userId);
+  for (const currency of currencies) {
+    const balance = Number(summary.totals[currency] ?? 0);
+    if (balance > 0) return true;
+  }
+  return await db.userHasActiveGrantCapability(userId, 'overspend');
+}
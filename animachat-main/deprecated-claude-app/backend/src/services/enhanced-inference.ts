@@ -1,9 +1,12 @@
 import { Message, Conversation, Model, ModelSettings, Participant, GrantUsageDetails, GrantTokenUsage } from '@deprecated-claude/shared';
 import type { ToolDefinition, ToolCall, ToolResult } from '../tools/tool-registry.js';
+import type { ToolApprovalDecision } from '../tools/tool-approvals.js';
 import { ContextManager } from './context-manager.js';
 import { InferenceService } from './inference.js';
 import { ContextWindow } from './context-strategies.js';
+import type { ContextSummaryUsage } from './context-summarizer.js';
 import { Logger } from '../utils/logger.js';
+import { getTokenizer } from '../utils/tokenizer.js';
 import { ConfigLoader } from '../config/loader.js';
 import { getOpenRouterPricing, tryRefreshOpenRouterCache } from './pricing-cache.js';
 
@@ -310,6 +313,7 @@ export class EnhancedInferenceService {
       onToolCall?: (call: ToolCall) => void;
       onToolResult?: (result: ToolResult) => void;
       executeToolCall?: (call: ToolCall) => Promise<ToolResult>;
+      requestApproval?: (call: ToolCall) => Promise<ToolApprovalDecision>;
     }
   ): Promise<void> {
     // If no conversation provided, fall back to original behavior
@@ -332,12 +336,22 @@ export class EnhancedInferenceService {
     }
     
     // Prepare context using context manager
+    const tokenizer = getTokenizer(model);
     const { formattedMessages, cacheKey, window } = await this.contextManager.prepareContext(
       conversation,
       messages,
       undefined, // newMessage is already included in messages
       participant,
-      model.contextWindow // Pass model's max context for cache arithmetic
+      model.contextWindow, // Pass model's max context for cache arithmetic
+      tokenizer,
+      {
+        userId,
+        modelId: model.id,
+        // Summaries written for the summarize strategy are billed like the response
+        onUsage: onMetrics
+          ? (summaryModel, usage, responseTime) => this.reportSummaryUsage(summaryModel, usage, responseTime, onMetrics)
+          : undefined
+      }
     );
     
     // Debug logging with visual indicators
@@ -377,6 +391,7 @@ export class EnhancedInferenceService {
     let inputTokens = 0;
     let cachedTokens = 0;
     let outputTokens = 0;
+    let outputText = '';
     let cacheHit = false;
     let expectedCache = false;
     
@@ -387,12 +402,14 @@ export class EnhancedInferenceService {
         throw new Error('Generation aborted');
       }
       
-      // Track output tokens (simplified - in practice would use tokenizer)
-      outputTokens += Math.ceil(chunk.length / 4);
+      outputText += chunk;
       
       await streamCallback(chunk, isComplete, contentBlocks);
       
       if (isComplete) {
+        // Counted output, for providers that report no usage
+        outputTokens = tokenizer.countTokens(outputText);
+        
         // Update with actual usage from API if provided
         if (actualUsage) {
           // Provider semantics (both Anthropic and OpenRouter now match):
@@ -471,7 +488,7 @@ export class EnhancedInferenceService {
     
     // Track approximate input tokens
     inputTokens = window.metadata.totalTokens;
-    cachedTokens = this.estimateTokens(window.cacheablePrefix);
+    cachedTokens = window.cacheMarker?.tokenCount ?? 0;
     expectedCache = window.cacheablePrefix.length > 0 && window.metadata.cacheKey === cacheKey;
     cacheHit = false; // Will be determined from actual response
     
@@ -541,6 +558,28 @@ export class EnhancedInferenceService {
     );
   }
   
+  private async reportSummaryUsage(
+    model: Model,
+    usage: ContextSummaryUsage,
+    responseTime: number,
+    onMetrics: (metrics: any) => Promise<void>
+  ): Promise<void> {
+    const inputTokens = (usage.inputTokens ?? 0) + (usage.cacheCreationInputTokens || 0) + (usage.cacheReadInputTokens || 0);
+    const outputTokens = usage.outputTokens ?? 0;
+    const breakdown = await this.calculateCostBreakdown(model, inputTokens, outputTokens);
+    await onMetrics({
+      inputTokens,
+      outputTokens,
+      cachedTokens: 0,
+      cost: breakdown.totalCost,
+      cacheSavings: 0,
+      model: model.id,
+      timestamp: new Date().toISOString(),
+      responseTime,
+      details: this.buildUsageDetails(breakdown, inputTokens, outputTokens, 0)
+    });
+  }
+  
   private addCacheControlToMessages(window: ContextWindow, model?: Model): Message[] {
     // Use multiple cache markers if available (Anthropic supports 4)
     const markers = window.cacheMarkers || (window.cacheMarker ? [window.cacheMarker] : []);
@@ -574,18 +613,6 @@ export class EnhancedInferenceService {
     });
   }
   
-  private estimateTokens(content: any): number {
-    // Simplified token estimation - in practice use tiktoken or similar
-    if (Array.isArray(content)) {
-      return content.reduce((sum, item) => {
-        const text = typeof item === 'string' ? item : item.content || '';
-        return sum + Math.ceil(text.length / 4);
-      }, 0);
-    }
-    const text = typeof content === 'string' ? content : JSON.stringify(content);
-    return Math.ceil(text.length / 4);
-  }
-  
   private async calculateCostSaved(model: Model, cachedTokens: number): Promise<number> {
     const pricePerToken = await this.getInputPricePerToken(model);
     return cachedTokens * pricePerToken * CACHE_DISCOUNT;
@@ -9,6 +9,8 @@ import { ApiKeyManager } from './api-key-manager.js';
 import { ModelLoader } from '../config/model-loader.js';
 import { Logger } from '../utils/logger.js';
 import { ContextManager } from './context-manager.js';
+import { getMessageTokens } from './context-strategies.js';
+import { Tokenizer, getTokenizer } from '../utils/tokenizer.js';
 
 // Internal format type that includes 'messages' and 'completion' modes
 // - 'standard': Traditional alternating user/assistant (no participant names)
@@ -71,7 +73,8 @@ export class InferenceService {
             messages,
             undefined,
             responder,
-            model.contextWindow
+            model.contextWindow,
+            getTokenizer(model)
           );
           contextMessages = result.window.messages;
           Logger.debug(`[InferenceService.buildPrompt] Using ${contextMessages.length} messages from persona context (original: ${messages.length})`);
@@ -155,6 +158,7 @@ export class InferenceService {
       onToolCall?: (call: any) => void;
       onToolResult?: (result: any) => void;
       executeToolCall?: (call: any) => Promise<any>;
+      requestApproval?: (call: any) => Promise<any>;
     }
   ): Promise<{
     usage?: {
@@ -200,7 +204,8 @@ export class InferenceService {
             messages,
             undefined, // newMessage - not needed for inference
             responder,
-            model.contextWindow
+            model.contextWindow,
+            getTokenizer(model)
           );
           contextMessages = result.window.messages;
           Logger.inference(`[InferenceService] Using ${contextMessages.length} messages from persona context (original: ${messages.length})`);
@@ -320,12 +325,13 @@ export class InferenceService {
     }
 
     // Track token usage
+    const tokenizer = getTokenizer(model);
     let inputTokens = 0;
     let outputTokens = 0;
+    let outputText = '';
     const trackingOnChunk = async (chunk: string, isComplete: boolean, contentBlocks?: any[], usage?: any) => {
       await onChunk(chunk, isComplete, contentBlocks, usage);
-      // TODO: Implement accurate token counting
-      outputTokens += chunk.length / 4; // Rough estimate
+      outputText += chunk;
     };
     
     // Wrap chunk handler for messages mode to strip participant names
@@ -690,7 +696,7 @@ export class InferenceService {
       console.log(`[Gemini] autoTruncateContext: user=${userAutoTruncate}, model=${modelAutoTruncate}, effective=${shouldAutoTruncate}, contextWindow: ${model.contextWindow}`);
       if (shouldAutoTruncate && model.contextWindow) {
         console.log(`[Gemini] Truncating context to fit ${model.contextWindow} tokens...`);
-        messagesToSend = this.truncateMessagesToFit(formattedMessages, model.contextWindow, effectiveSystemPrompt);
+        messagesToSend = this.truncateMessagesToFit(formattedMessages, model.contextWindow, tokenizer, effectiveSystemPrompt);
         console.log(`[Gemini] After truncation: ${messagesToSend.length} messages (was ${formattedMessages.length})`);
       }
       
@@ -716,7 +722,8 @@ export class InferenceService {
       inputTokens = usageResult.usage.inputTokens;
       outputTokens = usageResult.usage.outputTokens;
     } else {
-    inputTokens = this.estimateTokens(formattedMessages);
+      inputTokens = this.countTokens(formattedMessages, tokenizer);
+      outputTokens = tokenizer.countTokens(outputText);
     }
 
     // Track usage after completion
@@ -734,22 +741,17 @@ export class InferenceService {
     return usageResult;
   }
 
-  private estimateTokens(messages: Message[]): number {
-    // Rough token estimation
-    const text = messages.map(m => {
-      const activeBranch = m.branches.find(b => b.id === m.activeBranchId);
-      return activeBranch?.content || '';
-    }).join(' ');
-    return Math.ceil(text.length / 4);
+  private countTokens(messages: Message[], tokenizer: Tokenizer): number {
+    return messages.reduce((sum, message) => sum + getMessageTokens(message, tokenizer), 0);
   }
 
   /**
    * Truncate messages to fit within context window, keeping messages from the tail
    * Uses message boundaries as separators (doesn't split messages)
    */
-  private truncateMessagesToFit(messages: any[], maxContextTokens: number, systemPrompt?: string): any[] {
+  private truncateMessagesToFit(messages: any[], maxContextTokens: number, tokenizer: Tokenizer, systemPrompt?: string): any[] {
     // Reserve some tokens for system prompt and output
-    const systemPromptTokens = systemPrompt ? Math.ceil(systemPrompt.length / 4) : 0;
+    const systemPromptTokens = systemPrompt ? tokenizer.countTokens(systemPrompt) : 0;
     const outputReserve = 8192; // Reserve some for output
     const availableTokens = maxContextTokens - systemPromptTokens - outputReserve;
     
@@ -760,10 +762,10 @@ export class InferenceService {
       return messages.slice(-1); // Return at least the last message
     }
     
-    // Estimate tokens for each message (rough estimate: 4 chars per token)
+    // Count tokens for each message; media gets a generous fixed estimate
     const messageTokens = messages.map((msg, idx) => {
       let content = '';
-      let hasMedia = false;
+      let mediaTokens = 0;
       
       // Handle our internal Message format (with branches)
       if (msg.branches && msg.activeBranchId) {
@@ -774,17 +776,13 @@ export class InferenceService {
           if (activeBranch.attachments && activeBranch.attachments.length > 0) {
             for (const att of activeBranch.attachments) {
               if (att.isImage || att.mimeType?.startsWith('image/')) {
-                hasMedia = true;
-                content += 'x'.repeat(400000); // ~100k tokens per image
+                mediaTokens += 100000; // ~100k tokens per image
               } else if (att.isAudio || att.mimeType?.startsWith('audio/')) {
-                hasMedia = true;
-                content += 'x'.repeat(200000); // ~50k tokens for audio
+                mediaTokens += 50000; // ~50k tokens for audio
               } else if (att.isVideo || att.mimeType?.startsWith('video/')) {
-                hasMedia = true;
-                content += 'x'.repeat(400000); // ~100k tokens for video
+                mediaTokens += 100000; // ~100k tokens for video
               } else if (att.isPdf || att.mimeType === 'application/pdf') {
-                hasMedia = true;
-                content += 'x'.repeat(100000); // ~25k tokens for PDF
+                mediaTokens += 25000; // ~25k tokens for PDF
               }
             }
           }
@@ -792,8 +790,7 @@ export class InferenceService {
           if (activeBranch.contentBlocks) {
             for (const block of activeBranch.contentBlocks) {
               if (block.type === 'image') {
-                hasMedia = true;
-                content += 'x'.repeat(400000);
+                mediaTokens += 100000;
               }
             }
           }
@@ -807,11 +804,9 @@ export class InferenceService {
           if (part.type === 'text') {
             content += part.text || '';
           } else if (part.type === 'image_url' || part.type === 'image' || part.inlineData) {
-            hasMedia = true;
-            content += 'x'.repeat(400000); // ~100k tokens per image
+            mediaTokens += 100000; // ~100k tokens per image
           } else if (part.type === 'audio' || part.type === 'video') {
-            hasMedia = true;
-            content += 'x'.repeat(200000);
+            mediaTokens += 50000;
           }
         }
       } else if (msg.parts) {
@@ -820,15 +815,14 @@ export class InferenceService {
           if (part.text) {
             content += part.text;
           } else if (part.inlineData) {
-            hasMedia = true;
-            content += 'x'.repeat(400000);
+            mediaTokens += 100000;
           }
         }
       }
       
-      const tokens = Math.ceil(content.length / 4);
-      if (hasMedia || tokens > 10000) {
-        console.log(`[Truncate] Message ${idx}: ~${tokens} tokens${hasMedia ? ' (has media)' : ''}`);
+      const tokens = tokenizer.countTokens(content) + mediaTokens;
+      if (mediaTokens > 0 || tokens > 10000) {
+        console.log(`[Truncate] Message ${idx}: ~${tokens} tokens${mediaTokens > 0 ? ' (has media)' : ''}`);
       }
       return tokens;
     });
@@ -865,17 +859,19 @@ export class InferenceService {
     // This handles the case where all messages were consolidated into a single oversized message
     if (truncatedMessages.length === 1 && messageTokens[startIdx] > availableTokens) {
       const msg = truncatedMessages[0];
-      const targetChars = availableTokens * 4; // rough tokens to chars
+      const marker = '...[earlier context truncated]...\n\n';
+      const targetTokens = availableTokens - tokenizer.countTokens(marker);
       
       console.log(`[Truncate] ⚠️ Single message exceeds context (${messageTokens[startIdx]} tokens > ${availableTokens} available)`);
-      console.log(`[Truncate] Truncating message text from head to fit ~${targetChars} chars`);
+      console.log(`[Truncate] Truncating message text from head to fit ${targetTokens} tokens`);
       
       // Handle different message formats
       if (msg.branches && msg.branches[0]) {
         const branch = msg.branches[0];
-        if (branch.content && branch.content.length > targetChars) {
+        const tail = branch.content ? this.keepTail(branch.content, targetTokens, tokenizer) : '';
+        if (tail.length < (branch.content?.length ?? 0)) {
           // Keep the tail (most recent) part of the content
-          const truncatedContent = '...[earlier context truncated]...\n\n' + branch.content.slice(-targetChars);
+          const truncatedContent = marker + tail;
           truncatedMessages = [{
             ...msg,
             branches: [{
@@ -883,18 +879,21 @@ export class InferenceService {
               content: truncatedContent
             }]
           }];
-          keptTokens = Math.ceil(truncatedContent.length / 4);
+          keptTokens = tokenizer.countTokens(truncatedContent);
           console.log(`[Truncate] 📝 Truncated message content: ${branch.content.length} → ${truncatedContent.length} chars (~${keptTokens} tokens)`);
         }
-      } else if (typeof msg.content === 'string' && msg.content.length > targetChars) {
+      } else if (typeof msg.content === 'string') {
         // Direct content format
-        const truncatedContent = '...[earlier context truncated]...\n\n' + msg.content.slice(-targetChars);
-        truncatedMessages = [{
-          ...msg,
-          content: truncatedContent
-        }];
-        keptTokens = Math.ceil(truncatedContent.length / 4);
-        console.log(`[Truncate] 📝 Truncated message content: ${msg.content.length} → ${truncatedContent.length} chars (~${keptTokens} tokens)`);
+        const tail = this.keepTail(msg.content, targetTokens, tokenizer);
+        if (tail.length < msg.content.length) {
+          const truncatedContent = marker + tail;
+          truncatedMessages = [{
+            ...msg,
+            content: truncatedContent
+          }];
+          keptTokens = tokenizer.countTokens(truncatedContent);
+          console.log(`[Truncate] 📝 Truncated message content: ${msg.content.length} → ${truncatedContent.length} chars (~${keptTokens} tokens)`);
+        }
       }
     }
     
@@ -903,6 +902,23 @@ export class InferenceService {
     return truncatedMessages;
   }
 
+  /**
+   * The end of a text, cut to fit in maxTokens. Starts from a chars/4 guess and
+   * shrinks it in proportion until the tokenizer agrees.
+   */
+  private keepTail(text: string, maxTokens: number, tokenizer: Tokenizer): string {
+    if (maxTokens <= 0) return '';
+    let chars = Math.min(text.length, maxTokens * 4);
+    let tail = text.slice(-chars);
+    let tokens = tokenizer.countTokens(tail);
+    while (tokens > maxTokens && chars > 0) {
+      chars = Math.floor(chars * (maxTokens / tokens) * 0.98);
+      tail = chars > 0 ? text.slice(-chars) : '';
+      tokens = tokenizer.countTokens(tail);
+    }
+    return tail;
+  }
+
   private async getUserApiKey(userId: string, provider: string): Promise<ApiKey | undefined> {
     try {
       const apiKeys = await this.db.getUserApiKeys(userId);
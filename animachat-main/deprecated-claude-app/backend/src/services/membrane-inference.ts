@@ -70,10 +70,12 @@ import type {
 } from '@animalabs/membrane';
 
 // Local converter
-import { convertToNormalizedMessages } from './message-converter.js';
+import { convertToNormalizedMessages, convertToolResultContent } from './message-converter.js';
 
 // Tool registry types
 import type { ToolDefinition, ToolCall, ToolResult } from '../tools/tool-registry.js';
+import type { ToolApprovalDecision } from '../tools/tool-approvals.js';
+import { resolveToolResultImages } from '../tools/tool-result-content.js';
 
 // ============================================================================
 // Debug Helper
@@ -127,6 +129,7 @@ export class MembraneInferenceService extends InferenceService {
       onToolCall?: (call: ToolCall) => void;
       onToolResult?: (result: ToolResult) => void;
       executeToolCall?: (call: ToolCall) => Promise<ToolResult>;
+      requestApproval?: (call: ToolCall) => Promise<ToolApprovalDecision>;
     }
   ): Promise<{
     usage?: {
@@ -163,7 +166,9 @@ export class MembraneInferenceService extends InferenceService {
     console.log(`[MembraneInference] Before prepareMessages - msgs with _cacheControl: ${JSON.stringify(idsWithCacheControl(messages))}`);
 
     // 5. Prepare messages (expand prefixHistory, apply postHoc, resolve blobs)
-    const preparedMessages = await this.prepareMessages(messages);
+    // Images returned by tools are only sent to models that accept image input
+    const includeToolImages = model.capabilities?.imageInput === true;
+    const preparedMessages = await this.prepareMessages(messages, includeToolImages);
 
     // 5.1 Handle cache markers based on provider support
     // CHANGED: Now supports up to N markers instead of just first one
@@ -308,6 +313,9 @@ export class MembraneInferenceService extends InferenceService {
       // We also push tool_use/tool_result into toolBlocksFromLoop for real-time streaming
       // to the frontend (so tool cards appear immediately with spinner → green check).
       // The final callback uses response.content as the authoritative source for DB persistence.
+      //
+      // Tools that require approval pause here until someone in the room answers the
+      // tool_approval_request. A denial is returned to the model as an is_error result.
       ...(toolOptions?.executeToolCall && {
         onToolCalls: async (calls: any[], context: any) => {
           const results: any[] = [];
@@ -326,6 +334,32 @@ export class MembraneInferenceService extends InferenceService {
             console.log(`[MembraneInference] 🔧 Tool call: ${call.name} (id: ${call.id})`);
 
             try {
+              if (toolOptions.requestApproval) {
+                const decision = await toolOptions.requestApproval(call as ToolCall);
+                if (!decision.approved) {
+                  const deniedContent = `Tool call denied by user: ${decision.reason}`;
+                  const deniedResult = { toolUseId: call.id, content: deniedContent, isError: true };
+                  toolBlocksFromLoop.push({
+                    type: 'tool_result',
+                    tool_use_id: call.id,
+                    content: deniedContent,
+                    is_error: true,
+                  } as any);
+                  void onChunk('', false, getCurrentBlocks());
+
+                  toolOptions.onToolResult?.(deniedResult);
+                  console.log(`[MembraneInference] 🚫 Tool call ${call.name} denied: ${decision.reason}`);
+                  results.push(deniedResult);
+                  continue;
+                }
+                if (decision.edited) {
+                  // Run with the user's arguments and keep the streamed tool_use card in sync
+                  call.input = decision.input;
+                  const toolUseBlock = toolBlocksFromLoop.find(b => b.type === 'tool_use' && (b as any).id === call.id);
+                  if (toolUseBlock) (toolUseBlock as any).input = decision.input;
+                }
+              }
+
               // Execute via the provided callback (which routes through ToolRegistry)
               const result = await toolOptions.executeToolCall!(call as ToolCall);
               result.toolUseId = call.id;
@@ -341,9 +375,16 @@ export class MembraneInferenceService extends InferenceService {
 
               // Notify about tool result
               toolOptions.onToolResult?.(result);
-              console.log(`[MembraneInference] 📋 Tool result for ${call.name}: ${result.isError ? 'ERROR' : 'OK'} (${typeof result.content === 'string' ? result.content.length : 'structured'} chars)`);
-
-              results.push(result);
+              console.log(`[MembraneInference] 📋 Tool result for ${call.name}: ${result.isError ? 'ERROR' : 'OK'} (${typeof result.content === 'string' ? `${result.content.length} chars` : result.content.map(p => p.type).join(', ')})`);
+
+              // The model gets images loaded from the BlobStore (if it accepts images);
+              // the streamed tool_result block keeps the blobId references
+              if (Array.isArray(result.content)) {
+                const resolved = await resolveToolResultImages(result.content, includeToolImages);
+                results.push({ ...result, content: convertToolResultContent(resolved as any[]) });
+              } else {
+                results.push(result);
+              }
             } catch (error) {
               const errorMsg = error instanceof Error ? error.message : String(error);
               console.error(`[MembraneInference] ❌ Tool execution error for ${call.name}:`, errorMsg);
@@ -445,6 +486,19 @@ export class MembraneInferenceService extends InferenceService {
       // The blocks are grouped by position: [tool_use, tool_use, ..., tool_result, tool_result, ...]
       // Fix by pairing the Nth tool_use with the Nth tool_result positionally.
       const rawContent = response.content;
+
+      // Persist tool results as streamed (blobId references), not the copies sent to the model
+      const streamedResults = new Map(
+        toolBlocksFromLoop
+          .filter((b: any) => b.type === 'tool_result')
+          .map((b: any) => [b.tool_use_id, b.content])
+      );
+      for (const block of rawContent as any[]) {
+        if (block.type !== 'tool_result') continue;
+        const streamed = streamedResults.get(block.toolUseId || block.tool_use_id);
+        if (streamed !== undefined) block.content = streamed;
+      }
+
       const toolUseBlocks = rawContent.filter((b: any) => b.type === 'tool_use');
       const toolResultBlocks = rawContent.filter((b: any) => b.type === 'tool_result');
       for (let i = 0; i < Math.min(toolUseBlocks.length, toolResultBlocks.length); i++) {
@@ -638,7 +692,7 @@ export class MembraneInferenceService extends InferenceService {
     return { apiKey: '' };
   }
 
-  private async prepareMessages(messages: Message[]): Promise<Message[]> {
+  private async prepareMessages(messages: Message[], includeToolImages: boolean): Promise<Message[]> {
     console.log(`[prepareMessages] Input: ${messages.length} msgs, cache ids: ${JSON.stringify(idsWithCacheControl(messages))}`);
 
     let prepared = messages;
@@ -649,7 +703,7 @@ export class MembraneInferenceService extends InferenceService {
     prepared = this.applyPostHocOps(prepared);
     console.log(`[prepareMessages] After applyPostHocOps: ${prepared.length} msgs, cache ids: ${JSON.stringify(idsWithCacheControl(prepared))}`);
 
-    prepared = await this.resolveBlobIds(prepared);
+    prepared = await this.resolveBlobIds(prepared, includeToolImages);
     console.log(`[prepareMessages] After resolveBlobIds: ${prepared.length} msgs, cache ids: ${JSON.stringify(idsWithCacheControl(prepared))}`);
 
     return prepared;
@@ -704,7 +758,7 @@ export class MembraneInferenceService extends InferenceService {
     ];
   }
 
-  private async resolveBlobIds(messages: Message[]): Promise<Message[]> {
+  private async resolveBlobIds(messages: Message[], includeToolImages: boolean): Promise<Message[]> {
     const blobStore = getBlobStore();
     const resolved: Message[] = [];
 
@@ -716,7 +770,8 @@ export class MembraneInferenceService extends InferenceService {
       }
 
       const hasUnresolvedBlobs = branch.contentBlocks.some(
-        (block: any) => block.type === 'image' && block.blobId && !block.data
+        (block: any) => (block.type === 'image' && block.blobId && !block.data) ||
+          (includeToolImages && block.type === 'tool_result' && Array.isArray(block.content))
       );
 
       if (!hasUnresolvedBlobs) {
@@ -726,6 +781,9 @@ export class MembraneInferenceService extends InferenceService {
 
       const resolvedBlocks = await Promise.all(
         branch.contentBlocks.map(async (block: any) => {
+          if (block.type === 'tool_result') {
+            return { ...block, content: await resolveToolResultImages(block.content, includeToolImages) };
+          }
           if (block.type === 'image' && block.blobId && !block.data) {
             try {
               const blobResult = await blobStore.loadBlob(block.blobId);
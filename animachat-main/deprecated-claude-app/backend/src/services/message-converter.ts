@@ -253,7 +253,8 @@ function convertContentBlock(block: any): ContentBlock | null {
       let resultContent: string | ContentBlock[] = block.content ?? '';
 
       if (Array.isArray(resultContent)) {
-        // Уже массив ContentBlock[] — оставляем как есть
+        // Structured result (text / image / resource parts) → membrane blocks
+        resultContent = convertToolResultContent(resultContent);
       } else if (typeof resultContent === 'object' && resultContent !== null) {
         // Объект (не массив) — сериализуем в JSON строку
         try {
@@ -330,6 +331,56 @@ function convertContentBlock(block: any): ContentBlock | null {
   }
 }
 
+/**
+ * Convert structured tool result parts to membrane content blocks.
+ *
+ * Images need their data resolved from the BlobStore first (see
+ * resolveToolResultImages); images without data are described as text, which
+ * is how results reach models without image input. Resources become text.
+ */
+export function convertToolResultContent(parts: any[]): ContentBlock[] {
+  const blocks: ContentBlock[] = [];
+  for (const part of parts) {
+    switch (part?.type) {
+      case 'text':
+        blocks.push({ type: 'text', text: String(part.text ?? '') });
+        break;
+
+      case 'image':
+        if (part.source) {
+          // Already a membrane image block
+          blocks.push(part);
+        } else if (part.data) {
+          blocks.push({
+            type: 'image',
+            source: {
+              type: 'base64',
+              data: normalizeBase64(part.data),
+              mediaType: part.mimeType || 'image/png'
+            }
+          });
+        } else {
+          blocks.push({ type: 'text', text: `[image: ${part.mimeType || 'image'}]` });
+        }
+        break;
+
+      case 'resource':
+        if (typeof part.text === 'string') {
+          blocks.push({ type: 'text', text: `[resource: ${part.uri}]\n${part.text}` });
+        } else {
+          const details = [part.mimeType, part.size !== undefined ? `${part.size} bytes` : undefined].filter(Boolean).join(', ');
+          blocks.push({ type: 'text', text: `[resource: ${part.uri}${details ? ` (${details})` : ''}]` });
+        }
+        break;
+
+      default:
+        // Unknown part: pass through as JSON so the model still sees it
+        blocks.push({ type: 'text', text: JSON.stringify(part) });
+    }
+  }
+  return blocks;
+}
+
 /**
  * Конвертировать animachat Attachment в membrane ContentBlock
  */
@@ -1,6 +1,8 @@
 import { Message, Persona, PersonaParticipation, PersonaHistoryBranch } from '@deprecated-claude/shared';
 import { Database } from '../database/index.js';
 import { Logger } from '../utils/logger.js';
+import { Tokenizer, getTokenizer } from '../utils/tokenizer.js';
+import { getMessageTokens } from './context-strategies.js';
 
 interface CanonicalHistory {
   conversationId: string;
@@ -57,6 +59,7 @@ export class PersonaContextBuilder {
     currentMessages: Message[]
   ): Promise<Message[]> {
     Logger.debug(`[PersonaContextBuilder] Building context for persona ${persona.name} (${persona.id})`);
+    const tokenizer = getTokenizer(persona.modelId);
 
     // Step 1: Get the persona's HEAD branch
     const branches = this.db.getPersonaHistoryBranches(persona.id);
@@ -64,7 +67,7 @@ export class PersonaContextBuilder {
 
     if (!headBranch) {
       Logger.error(`[PersonaContextBuilder] No HEAD branch found for persona ${persona.id}`);
-      return this.getBackscroll(currentMessages, persona.backscrollTokens);
+      return this.getBackscroll(currentMessages, persona.backscrollTokens, tokenizer);
     }
 
     // Step 2: Collect ordered participations following branch inheritance
@@ -90,13 +93,15 @@ export class PersonaContextBuilder {
     // Step 4: Apply context strategy to historical messages
     const strategyMessages = this.applyContextStrategy(
       persona,
-      historicalMessages
+      historicalMessages,
+      tokenizer
     );
 
     // Step 5: Add backscroll from current conversation
     const backscrollMessages = this.getBackscroll(
       currentMessages,
-      persona.backscrollTokens
+      persona.backscrollTokens,
+      tokenizer
     );
 
     // Combine: historical context + current backscroll
@@ -211,11 +216,13 @@ export class PersonaContextBuilder {
    *
    * @param persona - The persona with context strategy config
    * @param messages - Historical messages to apply strategy to
+   * @param tokenizer - Tokenizer of the persona's model
    * @returns Filtered messages according to strategy
    */
   private applyContextStrategy(
     persona: Persona,
-    messages: Message[]
+    messages: Message[],
+    tokenizer: Tokenizer
   ): Message[] {
     if (messages.length === 0) return [];
 
@@ -224,15 +231,15 @@ export class PersonaContextBuilder {
     if (strategy.type === 'rolling') {
       // Rolling window: keep most recent messages up to maxTokens
       const maxTokens = strategy.maxTokens || 60000;
-      return this.takeLastByTokens(messages, maxTokens);
+      return this.takeLastByTokens(messages, maxTokens, tokenizer);
     } else if (strategy.type === 'anchored') {
       // Anchored: keep prefix + rolling suffix
       const prefixTokens = strategy.prefixTokens || 10000;
       const rollingTokens = strategy.rollingTokens || 50000;
 
-      const prefix = this.takeFirstByTokens(messages, prefixTokens);
+      const prefix = this.takeFirstByTokens(messages, prefixTokens, tokenizer);
       const remainingMessages = messages.slice(prefix.length);
-      const suffix = this.takeLastByTokens(remainingMessages, rollingTokens);
+      const suffix = this.takeLastByTokens(remainingMessages, rollingTokens, tokenizer);
 
       return [...prefix, ...suffix];
     }
@@ -245,21 +252,22 @@ export class PersonaContextBuilder {
    *
    * @param messages - Messages from current conversation
    * @param maxTokens - Maximum tokens for backscroll
+   * @param tokenizer - Tokenizer of the persona's model
    * @returns Most recent messages up to maxTokens
    */
-  private getBackscroll(messages: Message[], maxTokens: number): Message[] {
-    return this.takeLastByTokens(messages, maxTokens);
+  private getBackscroll(messages: Message[], maxTokens: number, tokenizer: Tokenizer): Message[] {
+    return this.takeLastByTokens(messages, maxTokens, tokenizer);
   }
 
   /**
    * Take first N messages up to token limit
    */
-  private takeFirstByTokens(messages: Message[], maxTokens: number): Message[] {
+  private takeFirstByTokens(messages: Message[], maxTokens: number, tokenizer: Tokenizer): Message[] {
     const result: Message[] = [];
     let tokenCount = 0;
 
     for (const message of messages) {
-      const messageTokens = this.estimateTokens(message);
+      const messageTokens = getMessageTokens(message, tokenizer);
       if (tokenCount + messageTokens > maxTokens) break;
 
       result.push(message);
@@ -272,14 +280,14 @@ export class PersonaContextBuilder {
   /**
    * Take last N messages up to token limit (most recent)
    */
-  private takeLastByTokens(messages: Message[], maxTokens: number): Message[] {
+  private takeLastByTokens(messages: Message[], maxTokens: number, tokenizer: Tokenizer): Message[] {
     const result: Message[] = [];
     let tokenCount = 0;
 
     // Iterate backwards
     for (let i = messages.length - 1; i >= 0; i--) {
       const message = messages[i];
-      const messageTokens = this.estimateTokens(message);
+      const messageTokens = getMessageTokens(message, tokenizer);
       if (tokenCount + messageTokens > maxTokens) break;
 
       result.unshift(message); // Add to beginning to maintain order
@@ -289,17 +297,6 @@ export class PersonaContextBuilder {
     return result;
   }
 
-  /**
-   * Estimate tokens for a message (simple character count / 4)
-   */
-  private estimateTokens(message: Message): number {
-    // Rough estimate: 1 token ~= 4 characters
-    // Get content from the active branch
-    const activeBranch = message.branches.find(b => b.id === message.activeBranchId);
-    const contentLength = activeBranch?.content?.length || 0;
-    return Math.ceil(contentLength / 4);
-  }
-
   /**
    * Helper to get conversation owner ID
    */
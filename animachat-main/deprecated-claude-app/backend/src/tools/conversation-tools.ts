@@ -0,0 +1,301 @@
+/**
+ * Conversation tools
+ *
+ * Server tools that work on the calling conversation's own data: search the
+ * whole message tree (including branches that are no longer in context),
+ * read a message by id, list bookmarks, and keep a scratchpad of notes that
+ * persists across turns.
+ * Import this module for side-effect registration.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Message, MessageBranch, ScratchpadNote } from '@deprecated-claude/shared';
+import { toolRegistry } from './tool-registry.js';
+import type { ToolExecutionContext, ToolResult } from './tool-registry.js';
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+const SNIPPET_RADIUS = 120;
+const MAX_READ_CHARS = 50000;
+
+// Reads are safe to retry; appending a note is not
+const READ_EXECUTION = { execution: { timeoutMs: 15000, maxRetries: 1, idempotent: true } };
+const WRITE_EXECUTION = { execution: { timeoutMs: 15000 } };
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function ok(content: string): ToolResult {
+  return { toolUseId: '', content, isError: false };
+}
+
+function fail(content: string): ToolResult {
+  return { toolUseId: '', content, isError: true };
+}
+
+/** Plain text of a branch (falls back to text content blocks) */
+function branchText(branch: MessageBranch): string {
+  if (branch.content) return branch.content;
+  return (branch.contentBlocks || [])
+    .filter(block => block.type === 'text')
+    .map(block => (block as { text: string }).text)
+    .join('\n');
+}
+
+function snippet(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  const body = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${body}${end < text.length ? '…' : ''}`;
+}
+
+/** Messages visible to whoever started the generation */
+async function loadMessages(context: ToolExecutionContext): Promise<Message[]> {
+  return context.db.getConversationMessages(context.conversationId, context.userId, context.triggeredByUserId);
+}
+
+async function loadParticipantNames(context: ToolExecutionContext): Promise<Map<string, string>> {
+  const participants = await context.db.getConversationParticipants(context.conversationId, context.userId);
+  return new Map(participants.map(p => [p.id, p.name]));
+}
+
+/** Branch ids on the path from the root to the branch being generated */
+function currentPath(messages: Message[], branchId: string | undefined): Set<string> {
+  const parents = new Map<string, string | undefined>();
+  for (const message of messages) {
+    for (const branch of message.branches) parents.set(branch.id, branch.parentBranchId);
+  }
+
+  const path = new Set<string>();
+  let id = branchId;
+  while (id && id !== 'root' && !path.has(id)) {
+    path.add(id);
+    id = parents.get(id);
+  }
+  return path;
+}
+
+function describeBranch(branch: MessageBranch, names: Map<string, string>): string {
+  const author = (branch.participantId && names.get(branch.participantId)) || branch.role;
+  return `${author}, ${new Date(branch.createdAt).toISOString()}`;
+}
+
+// =============================================================================
+// search_conversation — Search every branch of the conversation tree
+// =============================================================================
+
+toolRegistry.registerServerTool(
+  'search_conversation',
+  {
+    name: 'search_conversation',
+    description:
+      'Search the text of every message in this conversation, including alternative branches and ' +
+      'older parts that may no longer be in your context. Returns message and branch ids with snippets; ' +
+      'use read_message to read a match in full.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Text to search for (case-insensitive).',
+        },
+        limit: {
+          type: 'number',
+          description: `Maximum number of matches to return (default ${DEFAULT_SEARCH_LIMIT}, max ${MAX_SEARCH_LIMIT}).`,
+        },
+      },
+      required: ['query'],
+    },
+  },
+  async (input, context): Promise<ToolResult> => {
+    const query = String(input.query || '').trim();
+    if (!query) return fail('query must not be empty.');
+    const limit = Math.min(Math.max(Number(input.limit) || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+
+    const messages = await loadMessages(context);
+    const names = await loadParticipantNames(context);
+    const path = currentPath(messages, context.branchId);
+    const needle = query.toLowerCase();
+
+    const matches: string[] = [];
+    let total = 0;
+    for (const message of messages) {
+      for (const branch of message.branches) {
+        if (branch.id === context.branchId) continue;
+        const text = branchText(branch);
+        const index = text.toLowerCase().indexOf(needle);
+        if (index === -1) continue;
+
+        total++;
+        if (matches.length < limit) {
+          const location = path.has(branch.id) ? '' : ' (not on the current path)';
+          matches.push(
+            `- message_id=${message.id} branch_id=${branch.id} [${describeBranch(branch, names)}]${location}\n` +
+            `  ${snippet(text, index, query.length)}`
+          );
+        }
+      }
+    }
+
+    if (total === 0) return ok(`No messages in this conversation contain "${query}".`);
+    const more = total > matches.length ? `\n(${total - matches.length} more matches not shown)` : '';
+    return ok(`${total} match${total === 1 ? '' : 'es'} for "${query}":\n${matches.join('\n')}${more}`);
+  },
+  READ_EXECUTION
+);
+
+// =============================================================================
+// read_message — Read one message (optionally a specific branch) in full
+// =============================================================================
+
+toolRegistry.registerServerTool(
+  'read_message',
+  {
+    name: 'read_message',
+    description:
+      'Read a message from this conversation in full by its id. Reads the given branch, or the ' +
+      'message\'s active branch, and lists the message\'s other branches.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message_id: {
+          type: 'string',
+          description: 'Id of the message to read.',
+        },
+        branch_id: {
+          type: 'string',
+          description: 'Id of the branch to read. Defaults to the active branch.',
+        },
+      },
+      required: ['message_id'],
+    },
+  },
+  async (input, context): Promise<ToolResult> => {
+    const messageId = String(input.message_id || '');
+    const messages = await loadMessages(context);
+    const message = messages.find(m => m.id === messageId);
+    if (!message) return fail(`Message not found: ${messageId}`);
+
+    const branchId = input.branch_id ? String(input.branch_id) : message.activeBranchId;
+    const branch = message.branches.find(b => b.id === branchId);
+    if (!branch) return fail(`Branch ${branchId} not found on message ${messageId}`);
+
+    const names = await loadParticipantNames(context);
+    let text = branchText(branch);
+    if (text.length > MAX_READ_CHARS) {
+      text = `${text.slice(0, MAX_READ_CHARS)}\n… (truncated, ${text.length - MAX_READ_CHARS} more characters)`;
+    }
+
+    const lines = [
+      `message_id=${message.id} branch_id=${branch.id} [${describeBranch(branch, names)}]`,
+      `parent_branch_id=${branch.parentBranchId || 'root'}`,
+    ];
+    const siblings = message.branches.filter(b => b.id !== branch.id);
+    if (siblings.length > 0) {
+      lines.push(`Other branches: ${siblings.map(b => `${b.id}${b.id === message.activeBranchId ? ' (active)' : ''}`).join(', ')}`);
+    }
+    lines.push('', text);
+    return ok(lines.join('\n'));
+  },
+  READ_EXECUTION
+);
+
+// =============================================================================
+// list_bookmarks — List the conversation's bookmarks
+// =============================================================================
+
+toolRegistry.registerServerTool(
+  'list_bookmarks',
+  {
+    name: 'list_bookmarks',
+    description: 'List the bookmarks users have placed in this conversation, with the message and branch each one points to.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  async (_input, context): Promise<ToolResult> => {
+    const bookmarks = await context.db.getConversationBookmarks(context.conversationId);
+    if (bookmarks.length === 0) return ok('This conversation has no bookmarks.');
+
+    const messages = await loadMessages(context);
+    const lines = bookmarks.map(bookmark => {
+      const branch = messages
+        .find(m => m.id === bookmark.messageId)?.branches
+        .find(b => b.id === bookmark.branchId);
+      const preview = branch ? snippet(branchText(branch), 0, 0) : '(message not available)';
+      return `- "${bookmark.label}" message_id=${bookmark.messageId} branch_id=${bookmark.branchId}\n  ${preview}`;
+    });
+    return ok(`${bookmarks.length} bookmark${bookmarks.length === 1 ? '' : 's'}:\n${lines.join('\n')}`);
+  },
+  READ_EXECUTION
+);
+
+// =============================================================================
+// append_scratchpad / read_scratchpad — Notes that persist across turns
+// =============================================================================
+
+toolRegistry.registerServerTool(
+  'append_scratchpad',
+  {
+    name: 'append_scratchpad',
+    description:
+      'Append a note to this conversation\'s scratchpad. Notes persist across turns and branches; ' +
+      'read them back with read_scratchpad.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        text: {
+          type: 'string',
+          description: 'The note to append.',
+        },
+      },
+      required: ['text'],
+    },
+  },
+  async (input, context): Promise<ToolResult> => {
+    const text = String(input.text || '').trim();
+    if (!text) return fail('text must not be empty.');
+
+    const note: ScratchpadNote = {
+      id: randomUUID(),
+      conversationId: context.conversationId,
+      text,
+      participantId: context.participantId,
+      messageId: context.messageId,
+      createdAt: new Date().toISOString(),
+    };
+    await context.db.appendScratchpadNote(context.conversationId, context.userId, note);
+
+    const notes = await context.db.getScratchpadNotes(context.conversationId, context.userId);
+    return ok(`Note saved. The scratchpad has ${notes.length} note${notes.length === 1 ? '' : 's'}.`);
+  },
+  WRITE_EXECUTION
+);
+
+toolRegistry.registerServerTool(
+  'read_scratchpad',
+  {
+    name: 'read_scratchpad',
+    description: 'Read every note in this conversation\'s scratchpad, oldest first.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+  },
+  async (_input, context): Promise<ToolResult> => {
+    const notes = await context.db.getScratchpadNotes(context.conversationId, context.userId);
+    if (notes.length === 0) return ok('The scratchpad is empty.');
+
+    const names = await loadParticipantNames(context);
+    const lines = notes.map((note, i) => {
+      const author = note.participantId ? names.get(note.participantId) : undefined;
+      return `${i + 1}. [${note.createdAt}${author ? `, ${author}` : ''}] ${note.text}`;
+    });
+    return ok(lines.join('\n'));
+  },
+  READ_EXECUTION
+);
+
+console.log('[ConversationTools] Registered conversation server tools: search_conversation, read_message, list_bookmarks, append_scratchpad, read_scratchpad');
@@ -0,0 +1,173 @@
+/**
+ * Tool Approvals
+ *
+ * Human-in-the-loop gate for sensitive tool calls.
+ *
+ * When a tool requires approval (see ToolRegistry.requiresApproval), the
+ * inference tool loop calls requestApproval() and waits. The request is
+ * broadcast to the conversation room as a `tool_approval_request` event;
+ * any member allowed to chat in the conversation can reply with a
+ * `tool_approval_response` (approve, deny, or edit the arguments).
+ *
+ * Pending approvals are resolved as denied if nobody answers before the
+ * timeout, or if the generation is aborted while waiting.
+ */
+
+import crypto from 'crypto';
+import type { ToolCall } from './tool-registry.js';
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = parseInt(process.env.TOOL_APPROVAL_TIMEOUT_MS || '', 10) || 10 * 60 * 1000;
+
+export type ToolApprovalDecision =
+  | { approved: true; input: Record<string, unknown>; edited: boolean; resolvedBy?: string }
+  | { approved: false; reason: string; resolvedBy?: string };
+
+export interface ToolApprovalRequestEvent {
+  type: 'tool_approval_request';
+  approvalId: string;
+  conversationId: string;
+  messageId?: string;
+  call: ToolCall;
+  requestedAt: string;
+  expiresAt: string;
+}
+
+export interface ToolApprovalResolvedEvent {
+  type: 'tool_approval_resolved';
+  approvalId: string;
+  conversationId: string;
+  messageId?: string;
+  toolUseId: string;
+  decision: 'approve' | 'deny' | 'edit';
+  input?: Record<string, unknown>;
+  reason?: string;
+  resolvedBy?: string;
+}
+
+type ApprovalBroadcast = (event: ToolApprovalRequestEvent | ToolApprovalResolvedEvent) => void;
+
+interface PendingApproval {
+  event: ToolApprovalRequestEvent;
+  broadcast: ApprovalBroadcast;
+  resolve: (decision: ToolApprovalDecision) => void;
+  timer: NodeJS.Timeout;
+  cleanup: () => void;
+}
+
+class ToolApprovalManager {
+  private pending: Map<string, PendingApproval> = new Map();
+
+  /**
+   * Ask the conversation room to approve a tool call.
+   * Resolves once someone answers, the request times out, or the signal aborts.
+   */
+  requestApproval(
+    conversationId: string,
+    messageId: string | undefined,
+    call: ToolCall,
+    broadcast: ApprovalBroadcast,
+    options: { timeoutMs?: number; signal?: AbortSignal } = {}
+  ): Promise<ToolApprovalDecision> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+    const approvalId = crypto.randomUUID();
+    const now = Date.now();
+
+    const event: ToolApprovalRequestEvent = {
+      type: 'tool_approval_request',
+      approvalId,
+      conversationId,
+      messageId,
+      call,
+      requestedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + timeoutMs).toISOString(),
+    };
+
+    if (options.signal?.aborted) {
+      return Promise.resolve({ approved: false, reason: 'Generation was aborted before the tool call was approved.' });
+    }
+
+    return new Promise<ToolApprovalDecision>((resolve) => {
+      const onAbort = () => {
+        this.settle(approvalId, { approved: false, reason: 'Generation was aborted before the tool call was approved.' });
+      };
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+
+      const timer = setTimeout(() => {
+        console.log(`[ToolApprovals] Approval ${approvalId} for "${call.name}" timed out after ${timeoutMs}ms`);
+        this.settle(approvalId, { approved: false, reason: 'No one approved the tool call in time.' });
+      }, timeoutMs);
+
+      this.pending.set(approvalId, {
+        event,
+        broadcast,
+        resolve,
+        timer,
+        cleanup: () => options.signal?.removeEventListener('abort', onAbort),
+      });
+
+      console.log(`[ToolApprovals] Waiting for approval ${approvalId}: ${call.name} (conversation ${conversationId})`);
+      broadcast(event);
+    });
+  }
+
+  /**
+   * Apply a reply from a room member.
+   * Returns false if the approval is unknown, already settled, or belongs to another conversation.
+   */
+  resolveApproval(
+    approvalId: string,
+    conversationId: string,
+    reply: { decision: 'approve' | 'deny' | 'edit'; input?: Record<string, unknown>; reason?: string },
+    resolvedBy: string
+  ): boolean {
+    const entry = this.pending.get(approvalId);
+    if (!entry || entry.event.conversationId !== conversationId) return false;
+
+    if (reply.decision === 'deny') {
+      const reason = reply.reason?.trim() || 'The user declined to run this tool call.';
+      return this.settle(approvalId, { approved: false, reason, resolvedBy });
+    }
+
+    const edited = reply.decision === 'edit' && !!reply.input;
+    const input = edited ? reply.input! : entry.event.call.input;
+    return this.settle(approvalId, { approved: true, input, edited, resolvedBy });
+  }
+
+  /**
+   * Pending approval requests for a conversation (sent to members joining the room).
+   */
+  getPendingForConversation(conversationId: string): ToolApprovalRequestEvent[] {
+    return [...this.pending.values()]
+      .map(entry => entry.event)
+      .filter(event => event.conversationId === conversationId);
+  }
+
+  private settle(approvalId: string, decision: ToolApprovalDecision): boolean {
+    const entry = this.pending.get(approvalId);
+    if (!entry) return false;
+
+    this.pending.delete(approvalId);
+    clearTimeout(entry.timer);
+    entry.cleanup();
+
+    const { event } = entry;
+    console.log(`[ToolApprovals] Approval ${approvalId} for "${event.call.name}": ${decision.approved ? 'approved' : 'denied'}${decision.resolvedBy ? ` by ${decision.resolvedBy}` : ''}`);
+
+    entry.broadcast({
+      type: 'tool_approval_resolved',
+      approvalId,
+      conversationId: event.conversationId,
+      messageId: event.messageId,
+      toolUseId: event.call.id,
+      decision: decision.approved ? (decision.edited ? 'edit' : 'approve') : 'deny',
+      input: decision.approved && decision.edited ? decision.input : undefined,
+      reason: decision.approved ? undefined : decision.reason,
+      resolvedBy: decision.resolvedBy,
+    });
+
+    entry.resolve(decision);
+    return true;
+  }
+}
+
+export const toolApprovalManager = new ToolApprovalManager();
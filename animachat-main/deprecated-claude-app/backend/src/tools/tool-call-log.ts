@@ -0,0 +1,83 @@
+/**
+ * Tool Call Log
+ *
+ * Records every tool execution (and every call denied at approval) in the
+ * conversation's event store, so what the model did with its tools can be
+ * reconstructed later regardless of branch edits, deletions, or hides.
+ *
+ * Recording never fails the tool call: errors are logged and swallowed.
+ */
+
+import { randomUUID } from 'crypto';
+import type { ToolCallLogEntry } from '@deprecated-claude/shared';
+import type { Database } from '../database/index.js';
+import { toolRegistry, type ToolCall, type ToolResult } from './tool-registry.js';
+import type { ToolApprovalDecision } from './tool-approvals.js';
+
+/** Where a tool call happened and who caused it */
+export interface ToolCallLogScope {
+  conversationId: string;
+  conversationOwnerUserId: string;
+  messageId?: string;
+  branchId?: string;
+  participantId?: string;
+  triggeredByUserId?: string;
+  triggerSource?: string;
+}
+
+function contentSize(content: ToolResult['content']): number {
+  return typeof content === 'string' ? content.length : JSON.stringify(content).length;
+}
+
+function approvalSummary(decision: ToolApprovalDecision | undefined): ToolCallLogEntry['approval'] {
+  if (!decision) return undefined;
+  if (!decision.approved) {
+    return { decision: 'deny', resolvedBy: decision.resolvedBy, reason: decision.reason };
+  }
+  return { decision: decision.edited ? 'edit' : 'approve', resolvedBy: decision.resolvedBy };
+}
+
+/**
+ * Append a tool call to the conversation's tool call log.
+ */
+export async function recordToolCall(
+  db: Database,
+  scope: ToolCallLogScope,
+  call: ToolCall,
+  result: ToolResult,
+  startedAt: Date,
+  approval?: ToolApprovalDecision
+): Promise<void> {
+  try {
+    const completedAt = new Date();
+    const tool = toolRegistry.describeTool(call.name, scope.conversationOwnerUserId);
+
+    const entry: ToolCallLogEntry = {
+      id: randomUUID(),
+      conversationId: scope.conversationId,
+      messageId: scope.messageId,
+      branchId: scope.branchId,
+      participantId: scope.participantId,
+      toolUseId: call.id,
+      toolName: call.name,
+      originalName: tool && tool.originalName !== call.name ? tool.originalName : undefined,
+      source: tool?.source ?? 'unknown',
+      delegateId: tool?.delegateId,
+      server: tool?.server,
+      input: call.input,
+      resultSize: contentSize(result.content),
+      isError: result.isError === true,
+      denied: approval && !approval.approved ? true : undefined,
+      approval: approvalSummary(approval),
+      durationMs: completedAt.getTime() - startedAt.getTime(),
+      triggeredByUserId: scope.triggeredByUserId,
+      triggerSource: scope.triggerSource,
+      startedAt: startedAt.toISOString(),
+      completedAt: completedAt.toISOString(),
+    };
+
+    await db.addToolCallLogEntry(scope.conversationId, scope.conversationOwnerUserId, entry);
+  } catch (error) {
+    console.error(`[ToolCallLog] Failed to record tool call "${call.name}" (${call.id}):`, error);
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Tool Policy
+ *
+ * Evaluates per-conversation and per-participant tool policies.
+ *
+ * A tool is identified by two names for matching purposes:
+ * - its bare name ("write_file")
+ * - its source-qualified name ("server:echo", "<delegateId>:write_file")
+ * Namespaced delegate tools also match under their aliases
+ * ("filesystem__write_file", "laptop__filesystem__write_file").
+ *
+ * Patterns may use * as a wildcard, e.g. "laptop:*" (everything from the
+ * "laptop" delegate) or "*_file" (any tool ending in _file).
+ *
+ * Policies are layered: a tool must pass every policy in the chain
+ * (conversation policy, then participant policy). Within a single policy,
+ * deny rules win over allow rules, and an empty allow list allows everything.
+ *
+ * Policies can also mark tools as requiring human approval (requireApproval).
+ * Approval is additive: if any policy in the chain matches, the call is held
+ * until someone in the conversation approves it.
+ */
+
+import type { ToolPolicy } from '@deprecated-claude/shared';
+
+export interface ToolIdentity {
+  name: string;
+  /** 'server' for server tools, the delegateId for delegate tools */
+  source: string;
+  /** Other names the tool is known by (namespaced/exposed names) */
+  aliases?: string[];
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function patternToRegExp(pattern: string): RegExp {
+  let regex = patternCache.get(pattern);
+  if (!regex) {
+    const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+    regex = new RegExp(`^${escaped}$`);
+    patternCache.set(pattern, regex);
+  }
+  return regex;
+}
+
+function matchesAny(patterns: string[] | undefined, tool: ToolIdentity): boolean {
+  if (!patterns || patterns.length === 0) return false;
+  const names = [tool.name, ...(tool.aliases ?? [])];
+  return patterns.some(pattern => {
+    const regex = patternToRegExp(pattern.trim());
+    return names.some(name => regex.test(name) || regex.test(`${tool.source}:${name}`));
+  });
+}
+
+/**
+ * Check a tool against a single policy.
+ */
+export function isToolAllowedByPolicy(policy: ToolPolicy | undefined, tool: ToolIdentity): boolean {
+  if (!policy) return true;
+  if (matchesAny(policy.deny, tool)) return false;
+  if (policy.allow && policy.allow.length > 0) {
+    return matchesAny(policy.allow, tool);
+  }
+  return true;
+}
+
+/**
+ * Check a tool against a chain of policies (all must allow it).
+ */
+export function isToolAllowed(policies: Array<ToolPolicy | undefined>, tool: ToolIdentity): boolean {
+  return policies.every(policy => isToolAllowedByPolicy(policy, tool));
+}
+
+/**
+ * Check whether any policy in the chain requires approval before running the tool.
+ */
+export function isApprovalRequired(policies: Array<ToolPolicy | undefined>, tool: ToolIdentity): boolean {
+  return policies.some(policy => !!policy && matchesAny(policy.requireApproval, tool));
+}
@@ -10,9 +10,31 @@
  *
  * Delegate tool keys: `${userId}:${delegateId}:${toolName}`
  * Server tool keys: `server:${toolName}`
+ *
+ * Exposed names (what the model sees and calls):
+ * - Server tools keep their bare names.
+ * - Delegate tools keep the name from their manifest, unless the delegate asked
+ *   for namespacing or the name is already taken by a server tool or an earlier
+ *   delegate. Those are qualified with the delegate id: `laptop__read_file`.
+ *   (Provider APIs only accept [a-zA-Z0-9_-] in tool names, hence "__".)
+ *
+ * Delegate tools the user switched off (Delegates settings tab) are skipped
+ * entirely, as if the delegate had not advertised them.
+ *
+ * Lookups accept an optional chain of ToolPolicy objects (conversation,
+ * participant) that narrows which tools are advertised and executable.
+ * A tool requires human approval before execution if its delegate flagged it
+ * (requiresApproval in the manifest) or if a policy's requireApproval matches it.
+ *
+ * Tools may declare a ToolExecutionPolicy (timeout, retries, idempotency).
+ * Server tools are timed out and retried here; for delegate tools the policy
+ * comes from the manifest and is enforced by the DelegateManager.
  */
 
+import type { ToolPolicy } from '@deprecated-claude/shared';
+import type { Database } from '../database/index.js';
 import { Logger } from '../utils/logger.js';
+import { isToolAllowed, isApprovalRequired, type ToolIdentity } from './tool-policy.js';
 
 // Membrane-compatible tool types (mirrored from membrane to avoid import dependency)
 export interface ToolDefinition {
@@ -37,19 +59,99 @@ export interface ToolCall {
   input: Record<string, unknown>;
 }
 
-type ToolExecutor = (input: Record<string, unknown>) => Promise<ToolResult>;
+/**
+ * Who is calling a tool and from where.
+ * Server tools use it to act on the calling conversation; delegate tools
+ * forward it in the tool_call_request.
+ */
+export interface ToolExecutionContext {
+  db: Database;
+  /** Owner of the conversation, whose tools are used */
+  userId: string;
+  conversationId: string;
+  /** Assistant message being generated */
+  messageId?: string;
+  branchId?: string;
+  /** Assistant participant making the call */
+  participantId?: string;
+  /** User whose action started the generation (absent for delegate triggers) */
+  triggeredByUserId?: string;
+  /** Aborted when the generation is stopped */
+  abortSignal?: AbortSignal;
+  /** Reports progress of a long-running call (relayed to the room as tool_progress) */
+  onProgress?: (progress: ToolProgress) => void;
+}
+
+/** Progress update from a running tool */
+export interface ToolProgress {
+  /** Latest status or partial output */
+  message?: string;
+  /** 0-100, when known */
+  percentage?: number;
+}
+
+/** Timeout and retry behaviour declared for a tool */
+export interface ToolExecutionPolicy {
+  /** Per-attempt timeout */
+  timeoutMs?: number;
+  /** How many times a failed attempt may be repeated (idempotent tools only, default 1) */
+  maxRetries?: number;
+  /** Running the tool twice has the same effect as running it once */
+  idempotent?: boolean;
+}
+
+type ToolExecutor = (input: Record<string, unknown>, context: ToolExecutionContext) => Promise<ToolResult>;
+
+/** Separator between namespace segments in qualified tool names */
+export const TOOL_NAMESPACE_SEPARATOR = '__';
+
+/** How an exposed tool name maps back to where the tool lives (for display) */
+export interface ToolDescriptor {
+  name: string;
+  description: string;
+  source: 'server' | 'delegate';
+  delegateId?: string;
+  /** MCP server on the delegate that provides the tool */
+  server?: string;
+  /** The tool's own name before any namespacing */
+  originalName: string;
+}
 
 interface RegisteredTool {
   definition: ToolDefinition;
   source: 'server' | 'delegate';
   delegateId?: string;
   userId?: string;
+  /** Set by the delegate for tools that must never run unattended */
+  requiresApproval?: boolean;
+  /** Delegate asked for its tools to be qualified with its id */
+  namespaced?: boolean;
+  /** Name on the MCP server, when the delegate already qualified it */
+  originalName?: string;
+  /** MCP server on the delegate that provides the tool */
+  mcpServer?: string;
+  execution?: ToolExecutionPolicy;
   execute: ToolExecutor;
 }
 
+type DelegateManifestTool = ToolDefinition & {
+  requiresApproval?: boolean;
+  originalName?: string;
+  server?: string;
+  execution?: ToolExecutionPolicy;
+};
+
 class ToolRegistry {
   private serverTools: Map<string, RegisteredTool> = new Map();
   private delegateTools: Map<string, RegisteredTool> = new Map();
+  /** Delegate tools switched off by their user, keyed `${userId}:${delegateId}` */
+  private disabledDelegateTools: Map<string, Set<string>> = new Map();
+  /**
+   * When each delegate first registered, keyed `${userId}:${delegateId}`.
+   * Kept across manifest updates and reconnects, so they don't change which
+   * delegate keeps a colliding tool name.
+   */
+  private delegateOrder: Map<string, number> = new Map();
 
   /**
    * Register a server-side tool (available to all users).
@@ -57,12 +159,14 @@ class ToolRegistry {
   registerServerTool(
     name: string,
     definition: ToolDefinition,
-    executor: ToolExecutor
+    executor: ToolExecutor,
+    options: { execution?: ToolExecutionPolicy } = {}
   ): void {
     const key = `server:${name}`;
     this.serverTools.set(key, {
       definition,
       source: 'server',
+      execution: options.execution,
       execute: executor,
     });
     Logger.debug(`[ToolRegistry] Registered server tool: ${name}`);
@@ -70,21 +174,35 @@ class ToolRegistry {
 
   /**
    * Register tools from a delegate (scoped to a user).
+   * A new manifest replaces the delegate's previously registered tools.
+   * The executor is always called with the tool's name as the delegate advertised it.
    */
   registerDelegateTools(
     userId: string,
     delegateId: string,
-    tools: ToolDefinition[],
-    executor: (name: string, input: Record<string, unknown>) => Promise<ToolResult>
+    tools: DelegateManifestTool[],
+    executor: (name: string, input: Record<string, unknown>, context: ToolExecutionContext) => Promise<ToolResult>,
+    options: { namespaced?: boolean } = {}
   ): void {
-    for (const tool of tools) {
-      const key = `${userId}:${delegateId}:${tool.name}`;
+    this.unregisterDelegateTools(userId, delegateId);
+    const orderKey = `${userId}:${delegateId}`;
+    if (!this.delegateOrder.has(orderKey)) {
+      this.delegateOrder.set(orderKey, this.delegateOrder.size);
+    }
+
+    for (const { requiresApproval, originalName, server, execution, ...definition } of tools) {
+      const key = `${userId}:${delegateId}:${definition.name}`;
       this.delegateTools.set(key, {
-        definition: tool,
+        definition,
         source: 'delegate',
         delegateId,
         userId,
-        execute: (input) => executor(tool.name, input),
+        requiresApproval,
+        namespaced: options.namespaced,
+        originalName,
+        mcpServer: server,
+        execution,
+        execute: (input, context) => executor(definition.name, input, context),
       });
     }
     Logger.debug(`[ToolRegistry] Registered ${tools.length} delegate tools for user ${userId}, delegate ${delegateId}`);
@@ -107,35 +225,52 @@ class ToolRegistry {
     }
   }
 
+  /**
+   * Set which of a delegate's tools (by advertised name) the user switched off.
+   * Kept separately from the registered tools, so it survives manifest updates.
+   */
+  setDisabledDelegateTools(userId: string, delegateId: string, toolNames: Iterable<string>): void {
+    this.disabledDelegateTools.set(`${userId}:${delegateId}`, new Set(toolNames));
+  }
+
+  /**
+   * Whether the user switched off a delegate tool (by its advertised name).
+   */
+  isDelegateToolDisabled(userId: string, delegateId: string, toolName: string): boolean {
+    return this.disabledDelegateTools.get(`${userId}:${delegateId}`)?.has(toolName) ?? false;
+  }
+
   /**
    * Get all tool definitions available to a user.
-   * Returns server tools + user's delegate tools.
+   * Returns server tools + user's delegate tools, filtered by the given policies.
    */
-  getToolsForUser(userId: string): ToolDefinition[] {
+  getToolsForUser(userId: string, policies: Array<ToolPolicy | undefined> = []): ToolDefinition[] {
     const tools: ToolDefinition[] = [];
-    const seenNames = new Set<string>();
-
-    // Server tools first
-    for (const tool of this.serverTools.values()) {
-      tools.push(tool.definition);
-      seenNames.add(tool.definition.name);
+    for (const [name, tool] of this.getExposedTools(userId)) {
+      if (!this.isPermitted(tool, policies, name)) continue;
+      tools.push(name === tool.definition.name ? tool.definition : { ...tool.definition, name });
     }
+    return tools;
+  }
 
-    // User's delegate tools (skip if name conflicts with server tool)
-    const userPrefix = `${userId}:`;
-    for (const [key, tool] of this.delegateTools) {
-      if (key.startsWith(userPrefix)) {
-        if (seenNames.has(tool.definition.name)) {
-          // Conflict: delegate tool name matches server tool, skip
-          Logger.debug(`[ToolRegistry] Skipping delegate tool "${tool.definition.name}" (conflicts with server tool)`);
-          continue;
-        }
-        tools.push(tool.definition);
-        seenNames.add(tool.definition.name);
-      }
+  /**
+   * Describe the tools available to a user, mapping exposed names back to their origin.
+   */
+  describeToolsForUser(userId: string, policies: Array<ToolPolicy | undefined> = []): ToolDescriptor[] {
+    const descriptors: ToolDescriptor[] = [];
+    for (const [name, tool] of this.getExposedTools(userId)) {
+      if (!this.isPermitted(tool, policies, name)) continue;
+      descriptors.push(this.toDescriptor(name, tool));
     }
+    return descriptors;
+  }
 
-    return tools;
+  /**
+   * Describe a single tool by its exposed name (undefined if the user has no such tool).
+   */
+  describeTool(name: string, userId: string): ToolDescriptor | undefined {
+    const tool = this.resolveTool(name, userId);
+    return tool ? this.toDescriptor(name, tool) : undefined;
   }
 
   /**
@@ -153,59 +288,174 @@ class ToolRegistry {
   }
 
   /**
-   * Execute a tool by name for a given user.
+   * Execute a tool by name for the calling conversation's owner (context.userId).
    * Looks up server tools first, then delegate tools.
+   * Tools rejected by the given policies are refused without being executed.
+   * Server tools are held to their declared timeout, and idempotent ones are
+   * retried (up to maxRetries) when an attempt throws.
    */
   async executeTool(
     name: string,
     input: Record<string, unknown>,
-    userId: string
+    context: ToolExecutionContext,
+    policies: Array<ToolPolicy | undefined> = []
   ): Promise<ToolResult> {
-    // Check server tools first
-    const serverKey = `server:${name}`;
-    const serverTool = this.serverTools.get(serverKey);
-    if (serverTool) {
+    const { userId } = context;
+    const tool = this.resolveTool(name, userId);
+    if (!tool) {
+      console.warn(`[ToolRegistry] Tool not found: ${name} (user: ${userId})`);
+      return { toolUseId: '', content: `Unknown tool: ${name}`, isError: true };
+    }
+
+    if (!this.isPermitted(tool, policies, name)) {
+      return this.deniedResult(name, userId);
+    }
+
+    const kind = tool.source === 'server' ? 'Server' : 'Delegate';
+    const execution = tool.source === 'server' ? tool.execution : undefined;
+    const attempts = execution?.idempotent ? 1 + (execution.maxRetries ?? 1) : 1;
+
+    for (let attempt = 1; ; attempt++) {
       try {
-        Logger.debug(`[ToolRegistry] Executing server tool: ${name}`);
-        return await serverTool.execute(input);
+        Logger.debug(`[ToolRegistry] Executing ${tool.source} tool: ${name}${tool.delegateId ? ` (delegate: ${tool.delegateId})` : ''}`);
+        return await this.runWithTimeout(tool, input, context, execution?.timeoutMs);
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
-        console.error(`[ToolRegistry] Server tool "${name}" failed:`, errorMsg);
+        if (attempt < attempts && !context.abortSignal?.aborted) {
+          console.warn(`[ToolRegistry] ${kind} tool "${name}" failed (attempt ${attempt}/${attempts}), retrying:`, errorMsg);
+          continue;
+        }
+        console.error(`[ToolRegistry] ${kind} tool "${name}" failed:`, errorMsg);
         return { toolUseId: '', content: `Tool error: ${errorMsg}`, isError: true };
       }
     }
+  }
+
+  private async runWithTimeout(
+    tool: RegisteredTool,
+    input: Record<string, unknown>,
+    context: ToolExecutionContext,
+    timeoutMs: number | undefined
+  ): Promise<ToolResult> {
+    if (!timeoutMs) return tool.execute(input, context);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    try {
+      return await Promise.race([tool.execute(input, context), timedOut]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Check whether a call to the named tool must be approved by a human first.
+   * Unknown tools never require approval (execution will fail on its own).
+   */
+  requiresApproval(name: string, userId: string, policies: Array<ToolPolicy | undefined> = []): boolean {
+    const tool = this.resolveTool(name, userId);
+    if (!tool) return false;
+    if (tool.requiresApproval) return true;
+    return isApprovalRequired(policies, this.toolIdentity(tool, name));
+  }
+
+  /**
+   * Resolve an exposed tool name for a user.
+   */
+  private resolveTool(name: string, userId: string): RegisteredTool | undefined {
+    return this.getExposedTools(userId).get(name);
+  }
+
+  /**
+   * Compute the exposed name of every tool available to a user.
+   * Server tools come first and are never renamed; delegate tools are visited in
+   * the order their delegates first registered, so a delegate that connects later
+   * (or reloads its manifest, or reconnects) never renames an earlier one.
+   */
+  private getExposedTools(userId: string): Map<string, RegisteredTool> {
+    const exposed = new Map<string, RegisteredTool>();
+
+    for (const tool of this.serverTools.values()) {
+      exposed.set(tool.definition.name, tool);
+    }
 
-    // Check user's delegate tools
     const userPrefix = `${userId}:`;
-    for (const [key, tool] of this.delegateTools) {
-      if (key.startsWith(userPrefix) && tool.definition.name === name) {
-        try {
-          Logger.debug(`[ToolRegistry] Executing delegate tool: ${name} (delegate: ${tool.delegateId})`);
-          return await tool.execute(input);
-        } catch (error) {
-          const errorMsg = error instanceof Error ? error.message : String(error);
-          console.error(`[ToolRegistry] Delegate tool "${name}" failed:`, errorMsg);
-          return { toolUseId: '', content: `Tool error: ${errorMsg}`, isError: true };
-        }
+    const order = (tool: RegisteredTool) => this.delegateOrder.get(`${userId}:${tool.delegateId}`) ?? Infinity;
+    const delegateTools = Array.from(this.delegateTools)
+      .filter(([key]) => key.startsWith(userPrefix))
+      .map(([, tool]) => tool)
+      // Stable sort: tools of one delegate keep their manifest order
+      .sort((a, b) => order(a) - order(b));
+
+    for (const tool of delegateTools) {
+      if (this.isDelegateToolDisabled(userId, tool.delegateId!, tool.definition.name)) continue;
+
+      const qualified = this.qualifyToolName(tool.delegateId!, tool.definition.name);
+      let name = tool.namespaced ? qualified : tool.definition.name;
+      if (exposed.has(name) && name !== qualified) {
+        Logger.debug(`[ToolRegistry] Delegate tool "${name}" is already taken, exposing it as "${qualified}"`);
+        name = qualified;
+      }
+      if (exposed.has(name)) {
+        console.warn(`[ToolRegistry] Skipping delegate tool "${name}" from "${tool.delegateId}" (name already taken)`);
+        continue;
       }
+      exposed.set(name, tool);
     }
 
-    // Tool not found
-    console.warn(`[ToolRegistry] Tool not found: ${name} (user: ${userId})`);
-    return { toolUseId: '', content: `Unknown tool: ${name}`, isError: true };
+    return exposed;
+  }
+
+  private toDescriptor(name: string, tool: RegisteredTool): ToolDescriptor {
+    return {
+      name,
+      description: tool.definition.description,
+      source: tool.source,
+      delegateId: tool.delegateId,
+      server: tool.mcpServer,
+      originalName: tool.originalName ?? tool.definition.name,
+    };
+  }
+
+  private qualifyToolName(delegateId: string, toolName: string): string {
+    const namespace = delegateId.replace(/[^a-zA-Z0-9_-]/g, '_');
+    return `${namespace}${TOOL_NAMESPACE_SEPARATOR}${toolName}`;
+  }
+
+  /**
+   * Names a policy pattern can match for a tool: the original tool name,
+   * the name the delegate advertised, and the exposed (possibly qualified) name.
+   */
+  private toolIdentity(tool: RegisteredTool, exposedName: string): ToolIdentity {
+    return {
+      name: tool.originalName ?? tool.definition.name,
+      source: tool.source === 'server' ? 'server' : tool.delegateId!,
+      aliases: [tool.definition.name, exposedName],
+    };
+  }
+
+  /**
+   * Check a registered tool against a chain of tool policies.
+   */
+  private isPermitted(tool: RegisteredTool, policies: Array<ToolPolicy | undefined>, exposedName: string): boolean {
+    if (policies.length === 0) return true;
+    return isToolAllowed(policies, this.toolIdentity(tool, exposedName));
+  }
+
+  private deniedResult(name: string, userId: string): ToolResult {
+    console.warn(`[ToolRegistry] Tool "${name}" denied by tool policy (user: ${userId})`);
+    return { toolUseId: '', content: `Tool "${name}" is not permitted in this conversation.`, isError: true };
   }
 
   /**
    * Get delegate info for a tool (used for routing decisions).
    */
   getDelegateForTool(name: string, userId: string): { delegateId: string; userId: string } | null {
-    const userPrefix = `${userId}:`;
-    for (const [key, tool] of this.delegateTools) {
-      if (key.startsWith(userPrefix) && tool.definition.name === name) {
-        return { delegateId: tool.delegateId!, userId: tool.userId! };
-      }
-    }
-    return null;
+    const tool = this.resolveTool(name, userId);
+    if (!tool || tool.source !== 'delegate') return null;
+    return { delegateId: tool.delegateId!, userId: tool.userId! };
   }
 
   /**
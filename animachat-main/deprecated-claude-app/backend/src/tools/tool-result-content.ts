@@ -0,0 +1,74 @@
+/**
+ * Tool Result Content
+ *
+ * Structured tool results (MCP images and embedded resources) arrive from
+ * delegates with inline base64 data. Before they are streamed, persisted or
+ * logged, the binaries are moved into the BlobStore and replaced by blobId
+ * references, the same way model-generated images are stored.
+ *
+ * When the result is sent to a model, image data is loaded back from the
+ * BlobStore (only for models that accept image input).
+ */
+
+import type { ToolResultContentPart } from '@deprecated-claude/shared';
+import { getBlobStore } from '../database/blob-store.js';
+import type { ToolResultContentPart as DelegateResultPart } from '../delegate/protocol.js';
+import type { ToolResult } from './tool-registry.js';
+
+/**
+ * Replace inline image and binary resource data with BlobStore references.
+ * String results are returned unchanged.
+ */
+export async function storeToolResultBinaries(
+  content: string | DelegateResultPart[]
+): Promise<ToolResult['content']> {
+  if (typeof content === 'string') return content;
+
+  const blobStore = getBlobStore();
+  const stored: ToolResultContentPart[] = [];
+
+  for (const part of content) {
+    try {
+      if (part.type === 'image') {
+        const blobId = await blobStore.saveBlob(part.data, part.mimeType);
+        stored.push({ type: 'image', mimeType: part.mimeType, blobId });
+      } else if (part.type === 'resource' && part.data) {
+        const mimeType = part.mimeType || 'application/octet-stream';
+        const blobId = await blobStore.saveBlob(part.data, mimeType);
+        const size = Buffer.byteLength(part.data, 'base64');
+        stored.push({ type: 'resource', uri: part.uri, mimeType, blobId, size });
+      } else {
+        stored.push(part);
+      }
+    } catch (error) {
+      console.error(`[ToolResultContent] Failed to store ${part.type} in BlobStore:`, error);
+      stored.push({ type: 'text', text: `[${part.type} could not be stored]` });
+    }
+  }
+
+  return stored;
+}
+
+/**
+ * Load image data for BlobStore-backed images so the result can be sent to a model.
+ * With includeImages false, images are left as references (and are described as text).
+ */
+export async function resolveToolResultImages(
+  content: unknown,
+  includeImages: boolean
+): Promise<unknown> {
+  if (!includeImages || !Array.isArray(content)) return content;
+  if (!content.some(part => part?.type === 'image' && part.blobId && !part.data)) return content;
+
+  const blobStore = getBlobStore();
+  return Promise.all(content.map(async (part: any) => {
+    if (part?.type !== 'image' || !part.blobId || part.data) return part;
+    try {
+      const blob = await blobStore.loadBlob(part.blobId);
+      if (blob) return { ...part, data: blob.data.toString('base64') };
+    } catch (error) {
+      console.warn(`[ToolResultContent] Failed to resolve blobId ${part.blobId}:`, error);
+    }
+    return part;
+  }));
+}
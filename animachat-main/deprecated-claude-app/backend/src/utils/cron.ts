@@ -0,0 +1,199 @@
+/**
+ * Cron expressions for trigger schedules, evaluated in an IANA timezone.
+ *
+ * Five fields: minute hour day-of-month month day-of-week. Each field is "*",
+ * a number, a range (1-5), a list (1,15), or "*" or a range with a step (9-17/2).
+ * Months and weekdays accept names (jan, mon); Sunday is 0 or 7. @hourly, @daily,
+ * @weekly, @monthly and @yearly are shorthands.
+ *
+ * As in classic cron, when both day-of-month and day-of-week are restricted,
+ * a day matches if either does.
+ */
+
+export interface CronExpression {
+  source: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month / day-of-week were given (not "*") */
+  daysOfMonthRestricted: boolean;
+  daysOfWeekRestricted: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const MACROS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const WEEKDAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  // Names are matched by position, so months start at index 1
+  { name: 'month', min: 1, max: 12, names: ['', ...MONTH_NAMES] },
+  { name: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES },
+];
+
+const MINUTE_MS = 60 * 1000;
+
+/** Give up looking for a matching time after this long (e.g. "0 0 30 2 *" never matches) */
+const MAX_LOOKAHEAD_MS = 8 * 366 * 24 * 60 * MINUTE_MS;
+
+/**
+ * Parse a cron expression. Throws with a readable message on invalid input.
+ */
+export function parseCron(source: string): CronExpression {
+  const expanded = MACROS[source.trim().toLowerCase()] ?? source;
+  const parts = expanded.trim().split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error(`Cron expression must have ${FIELDS.length} fields (minute hour day month weekday), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+
+  // 7 is another name for Sunday
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    source,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    daysOfMonthRestricted: parts[2] !== '*',
+    daysOfWeekRestricted: parts[4] !== '*',
+  };
+}
+
+function parseField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of text.split(',')) {
+    const [range, stepText] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}" in ${field.name} field`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else {
+      const [from, to] = range.split('-');
+      start = parseValue(from, field);
+      // "5/15" means from 5 to the end of the range
+      end = to !== undefined ? parseValue(to, field) : stepText !== undefined ? field.max : start;
+    }
+    if (start > end) {
+      throw new Error(`Invalid range "${range}" in ${field.name} field`);
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(text: string, field: CronField): number {
+  const named = text ? field.names?.indexOf(text.toLowerCase()) ?? -1 : -1;
+  const value = named >= 0 ? named : Number(text);
+  if (!text || !Number.isInteger(value) || value < field.min || value > field.max) {
+    throw new Error(`Invalid ${field.name} "${text}" (allowed: ${field.min}-${field.max})`);
+  }
+  return value;
+}
+
+/**
+ * Whether a timezone name is known to the runtime (e.g. "Europe/Berlin").
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first minute after `after` matching the expression in the given timezone,
+ * or undefined if none does within the next few years.
+ */
+export function nextCronTime(expression: CronExpression, after: Date, timezone: string): Date | undefined {
+  const formatter = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    month: 'numeric',
+    day: 'numeric',
+    weekday: 'short',
+    hour: 'numeric',
+    minute: 'numeric',
+  });
+
+  let time = Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS;
+  const limit = after.getTime() + MAX_LOOKAHEAD_MS;
+
+  // Skip whole local days and hours that cannot match, then single minutes
+  while (time <= limit) {
+    const local = localTime(formatter, time);
+    if (!expression.months.has(local.month) || !dayMatches(expression, local.day, local.weekday)) {
+      // Jump to 23:00 first and then to midnight: a day an hour short (DST starts)
+      // reaches the next midnight at 23:00, so a fixed day would skip its first hour
+      time += (local.hour < 23 ? (22 - local.hour) * 60 + (60 - local.minute) : 60 - local.minute) * MINUTE_MS;
+    } else if (!expression.hours.has(local.hour)) {
+      time += (60 - local.minute) * MINUTE_MS;
+    } else if (!expression.minutes.has(local.minute)) {
+      time += MINUTE_MS;
+    } else {
+      return new Date(time);
+    }
+  }
+
+  return undefined;
+}
+
+function dayMatches(expression: CronExpression, day: number, weekday: number): boolean {
+  const dayOfMonth = expression.daysOfMonth.has(day);
+  const dayOfWeek = expression.daysOfWeek.has(weekday);
+  if (expression.daysOfMonthRestricted && expression.daysOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/** Wall-clock fields of an instant in the formatter's timezone */
+function localTime(formatter: Intl.DateTimeFormat, time: number) {
+  const parts: Record<string, string> = {};
+  for (const part of formatter.formatToParts(time)) {
+    parts[part.type] = part.value;
+  }
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+  };
+}
@@ -0,0 +1,241 @@
+/**
+ * Token counting by model family.
+ *
+ * Claude and OpenAI models are counted with their BPE tables, loaded offline
+ * from js-tiktoken and @anthropic-ai/tokenizer the first time a family is used.
+ * Anthropic only publishes the tokenizer of its older models, so Claude counts
+ * are close rather than exact. Llama 3 extends cl100k, so it is counted with
+ * cl100k. Other models fall back to the chars/4 heuristic.
+ *
+ * Images are counted from their dimensions with each provider's formula.
+ */
+
+import { createRequire } from 'module';
+import type { Attachment, Model } from '@deprecated-claude/shared';
+import type { Tiktoken, TiktokenBPE } from 'js-tiktoken/lite';
+
+const require = createRequire(import.meta.url);
+
+export type TokenizerFamily = 'claude' | 'o200k' | 'cl100k' | 'heuristic';
+
+export interface Tokenizer {
+  family: TokenizerFamily;
+  countTokens(text: string): number;
+  /** Tokens for an image of this size, or a typical image when unknown */
+  countImageTokens(width?: number, height?: number): number;
+}
+
+/** Counted images of unknown size, as Anthropic bills a ~1.15 megapixel image */
+const DEFAULT_IMAGE_TOKENS = 1500;
+
+/** Texts whose counts are kept per tokenizer; contexts are recounted on every request */
+const COUNT_CACHE_SIZE = 5000;
+
+class HeuristicTokenizer implements Tokenizer {
+  family: TokenizerFamily = 'heuristic';
+
+  countTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+  }
+
+  countImageTokens(width?: number, height?: number): number {
+    // Most models here are Claude, so unknown families use its formula
+    return width && height ? claudeImageTokens(width, height) : DEFAULT_IMAGE_TOKENS;
+  }
+}
+
+class BpeTokenizer implements Tokenizer {
+  private encoder?: Tiktoken;
+  private counts: Map<string, number> = new Map();
+
+  constructor(
+    public family: TokenizerFamily,
+    private loadRanks: () => TiktokenBPE,
+    private imageTokens: (width: number, height: number) => number,
+    private normalize?: (text: string) => string
+  ) {}
+
+  countTokens(text: string): number {
+    if (!text) return 0;
+
+    const cached = this.counts.get(text);
+    if (cached !== undefined) {
+      // Move to the end, so the least recently counted text is evicted first
+      this.counts.delete(text);
+      this.counts.set(text, cached);
+      return cached;
+    }
+
+    const input = this.normalize ? this.normalize(text) : text;
+    // Special tokens in user text are counted like any other text
+    const count = this.getEncoder().encode(input, 'all').length;
+
+    this.counts.set(text, count);
+    if (this.counts.size > COUNT_CACHE_SIZE) {
+      this.counts.delete(this.counts.keys().next().value!);
+    }
+    return count;
+  }
+
+  countImageTokens(width?: number, height?: number): number {
+    return width && height ? this.imageTokens(width, height) : DEFAULT_IMAGE_TOKENS;
+  }
+
+  private getEncoder(): Tiktoken {
+    if (!this.encoder) {
+      const startTime = Date.now();
+      const { Tiktoken } = require('js-tiktoken/lite') as typeof import('js-tiktoken/lite');
+      this.encoder = new Tiktoken(this.loadRanks());
+      console.log(`[Tokenizer] Loaded ${this.family} tokenizer in ${Date.now() - startTime}ms`);
+    }
+    return this.encoder;
+  }
+}
+
+/**
+ * Claude: images are scaled to fit 1568px on the long edge, then cost
+ * width * height / 750 tokens.
+ */
+function claudeImageTokens(width: number, height: number): number {
+  const scale = Math.min(1, 1568 / Math.max(width, height));
+  return Math.ceil((width * scale) * (height * scale) / 750);
+}
+
+/**
+ * OpenAI (high detail): images are scaled to fit 2048x2048, then so the short
+ * side is at most 768px, and cost 85 tokens plus 170 per 512px tile.
+ */
+function openaiImageTokens(width: number, height: number): number {
+  let scale = Math.min(1, 2048 / Math.max(width, height));
+  scale *= Math.min(1, 768 / (Math.min(width, height) * scale));
+  const tiles = Math.ceil(width * scale / 512) * Math.ceil(height * scale / 512);
+  return 85 + 170 * tiles;
+}
+
+const factories: Map<TokenizerFamily, () => Tokenizer> = new Map([
+  ['claude', () => new BpeTokenizer(
+    'claude',
+    () => require('@anthropic-ai/tokenizer/claude.json'),
+    claudeImageTokens,
+    text => text.normalize('NFKC')
+  )],
+  ['o200k', () => new BpeTokenizer('o200k', () => require('js-tiktoken/ranks/o200k_base'), openaiImageTokens)],
+  ['cl100k', () => new BpeTokenizer('cl100k', () => require('js-tiktoken/ranks/cl100k_base'), openaiImageTokens)],
+  ['heuristic', () => new HeuristicTokenizer()],
+]);
+
+const tokenizers: Map<TokenizerFamily, Tokenizer> = new Map();
+
+/**
+ * Replace the tokenizer of a family, e.g. with an exact count from a provider.
+ */
+export function registerTokenizer(family: TokenizerFamily, create: () => Tokenizer): void {
+  factories.set(family, create);
+  tokenizers.delete(family);
+}
+
+/**
+ * Tokenizer family of a model, from its provider model ID (or any model ID).
+ */
+export function getTokenizerFamily(model: Model | string): TokenizerFamily {
+  const id = (typeof model === 'string' ? model : model.providerModelId).toLowerCase();
+
+  if (id.includes('claude') || (typeof model !== 'string' && (model.provider === 'anthropic' || model.provider === 'bedrock'))) {
+    return 'claude';
+  }
+  if (/gpt-4o|gpt-4\.[1-9]|gpt-[5-9]|chatgpt|(^|\/)o[1-9]\b/.test(id)) {
+    return 'o200k';
+  }
+  if (/gpt-4|gpt-3\.5|llama-?3/.test(id)) {
+    return 'cl100k';
+  }
+  return 'heuristic';
+}
+
+/**
+ * Tokenizer for a model (by Model or model ID), or the heuristic one without a model.
+ */
+export function getTokenizer(model?: Model | string): Tokenizer {
+  const family = model ? getTokenizerFamily(model) : 'heuristic';
+
+  let tokenizer = tokenizers.get(family);
+  if (!tokenizer) {
+    try {
+      tokenizer = factories.get(family)!();
+    } catch (error) {
+      console.error(`[Tokenizer] Failed to create ${family} tokenizer, using chars/4:`, error);
+      tokenizer = new HeuristicTokenizer();
+    }
+    tokenizers.set(family, tokenizer);
+  }
+  return tokenizer;
+}
+
+/**
+ * Tokens of an image attachment, from its stored dimensions or its image header.
+ */
+export function countAttachmentImageTokens(tokenizer: Tokenizer, attachment: Attachment): number {
+  const size = attachment.metadata?.width && attachment.metadata?.height
+    ? { width: attachment.metadata.width, height: attachment.metadata.height }
+    : readImageSize(attachment);
+  return tokenizer.countImageTokens(size?.width, size?.height);
+}
+
+/** Image sizes read from base64 attachments, by attachment ID */
+const imageSizes: Map<string, { width: number; height: number } | undefined> = new Map();
+
+function readImageSize(attachment: Attachment): { width: number; height: number } | undefined {
+  if (attachment.encoding === 'url' || !attachment.content) return undefined;
+  if (imageSizes.has(attachment.id)) return imageSizes.get(attachment.id);
+
+  const content = attachment.content.startsWith('data:')
+    ? attachment.content.slice(attachment.content.indexOf(',') + 1)
+    : attachment.content;
+  // The size is near the start of the file; JPEGs with very large EXIF blocks are not read
+  const header = Buffer.from(content.slice(0, 65536), 'base64');
+  const size = parseImageSize(header);
+
+  imageSizes.set(attachment.id, size);
+  if (imageSizes.size > COUNT_CACHE_SIZE) {
+    imageSizes.delete(imageSizes.keys().next().value!);
+  }
+  return size;
+}
+
+function parseImageSize(data: Buffer): { width: number; height: number } | undefined {
+  // PNG: IHDR is the first chunk
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // JPEG: walk the segments to the start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return undefined;
+      const marker = data[offset + 1];
+      if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+    return undefined;
+  }
+
+  // WebP: lossy, lossless and extended formats
+  if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    const format = data.toString('ascii', 12, 16);
+    if (format === 'VP8 ') {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (format === 'VP8L') {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (format === 'VP8X') {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+  }
+
+  return undefined;
+}
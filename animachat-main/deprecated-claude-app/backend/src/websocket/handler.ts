@@ -1,22 +1,34 @@
 import { WebSocket } from 'ws';
 import { IncomingMessage } from 'http';
-import { WsMessageSchema, WsMessage, Message, Participant } from '@deprecated-claude/shared';
+import { WsMessageSchema, WsMessage, Message, Participant, Conversation } from '@deprecated-claude/shared';
 import { Database } from '../database/index.js';
 import { verifyToken } from '../middleware/auth.js';
 import { InferenceService } from '../services/inference.js';
 import { MembraneInferenceService } from '../services/membrane-inference.js';
 import { EnhancedInferenceService, validatePricingAvailable, PricingNotConfiguredError } from '../services/enhanced-inference.js';
 import { ContextManager } from '../services/context-manager.js';
+import { ContextSummarizer } from '../services/context-summarizer.js';
 import { Logger } from '../utils/logger.js';
 import { llmLogger } from '../utils/llmLogger.js';
 import { ModelLoader } from '../config/model-loader.js';
 import { roomManager } from './room-manager.js';
 import { USER_FACING_ERRORS } from '../utils/error-messages.js';
 import { checkContent, type UserContext } from '../services/content-filter.js';
+import { userHasSufficientCredits } from '../services/credits.js';
+import {
+  applyBackroomPromptIfNeeded,
+  buildConversationHistory,
+  filterHiddenFromAiMessages,
+  mergeInferenceSettings,
+  createMessageUnderParent,
+} from '../services/chat-pipeline.js';
 import { toolRegistry } from '../tools/tool-registry.js';
-import type { ToolCall, ToolResult } from '../tools/tool-registry.js';
+import type { ToolCall, ToolResult, ToolExecutionContext, ToolProgress } from '../tools/tool-registry.js';
+import { toolApprovalManager, type ToolApprovalDecision } from '../tools/tool-approvals.js';
+import { recordToolCall, type ToolCallLogScope } from '../tools/tool-call-log.js';
 // Import server tools for side-effect registration
 import '../tools/server-tools.js';
+import '../tools/conversation-tools.js';
 
 interface AuthenticatedWebSocket extends WebSocket {
   userId?: string;
@@ -48,262 +60,48 @@ function endGeneration(userId: string, conversationId: string): void {
   activeGenerations.delete(key);
 }
 
-function abortGeneration(userId: string, conversationId: string): boolean {
-  const key = getGenerationKey(userId, conversationId);
-  const controller = activeGenerations.get(key);
-  if (controller) {
-    controller.abort();
-    activeGenerations.delete(key);
-    return true;
-  }
-  return false;
-}
-
-/**
- * Apply backroom CLI prompt for early group chats.
- * Only applies when:
- * 1. Conversation is in group chat (prefill) format
- * 2. Less than 10 messages in the conversation
- * 3. Model supports prefill
- * 4. Participant's mode is NOT explicitly set to 'messages'
- */
-const BACKROOM_PROMPT = 'The assistant is in CLI simulation mode, and responds to the user\'s CLI commands only with the output of the command.';
-
-interface BackroomPromptParams {
-  conversationFormat: 'standard' | 'prefill';
-  messageCount: number;
-  modelProvider: string;
-  modelSupportsPrefill?: boolean;
-  participantConversationMode?: string;
-  existingSystemPrompt: string;
-  cliModePrompt?: { enabled: boolean; messageThreshold: number };
-}
+// Generations that run alongside chat (e.g. delegate triggers), by the same key;
+// chat generations don't abort them, but stopping the conversation does
+const backgroundGenerations = new Map<string, Set<AbortController>>();
 
-function applyBackroomPromptIfNeeded(params: BackroomPromptParams): string {
-  const {
-    conversationFormat,
-    messageCount,
-    modelProvider,
-    modelSupportsPrefill,
-    participantConversationMode,
-    existingSystemPrompt,
-    cliModePrompt
-  } = params;
-  
-  // Check if CLI mode prompt is disabled by toggle
-  const cliEnabled = cliModePrompt?.enabled ?? true;
-  const threshold = cliModePrompt?.messageThreshold ?? 10;
-  
-  if (!cliEnabled) {
-    return existingSystemPrompt;
-  }
-  
-  // Only for group chats with fewer than threshold messages
-  if (conversationFormat !== 'prefill' || messageCount >= threshold) {
-    return existingSystemPrompt;
-  }
-  
-  // Check if model supports prefill
-  const supportsPrefill = modelProvider === 'anthropic' || modelProvider === 'bedrock' || modelSupportsPrefill === true;
-  if (!supportsPrefill) {
-    return existingSystemPrompt;
-  }
-  
-  // Check if participant wants prefill mode (not explicitly 'messages' or 'completion')
-  const wantsPrefill = !participantConversationMode || 
-                       participantConversationMode === 'auto' || 
-                       participantConversationMode === 'prefill';
-  if (!wantsPrefill) {
-    return existingSystemPrompt;
-  }
-  
-  // CLI mode is enabled and conditions are met - apply the backroom prompt
-  // If there's an existing system prompt, prepend the CLI prompt to it
-  if (existingSystemPrompt) {
-    Logger.websocket(`[WebSocket] Applied backroom prompt + custom prompt (${messageCount} messages, provider: ${modelProvider})`);
-    return `${BACKROOM_PROMPT}\n\n${existingSystemPrompt}`;
-  }
-  
-  Logger.websocket(`[WebSocket] Applied backroom prompt (${messageCount} messages, provider: ${modelProvider})`);
-  return BACKROOM_PROMPT;
-}
-
-/**
- * Apply identity prompt for participants in 'messages' mode.
- * In 'messages' mode, the model only sees alternating user/assistant messages
- * and doesn't know its identity from the conversation format.
- * 
- * This adds a default identity prompt like "You are {name}." which can be
- * overridden by the participant's custom system prompt.
- */
-interface IdentityPromptParams {
-  conversationFormat: 'standard' | 'prefill';
-  participantName: string;
-  participantConversationMode?: string;
-  modelProvider: string;
-  modelSupportsPrefill?: boolean;
-  existingSystemPrompt: string;
-  hasCustomSystemPrompt: boolean; // Whether participant has their own system prompt
-}
-
-function applyIdentityPromptIfNeeded(params: IdentityPromptParams): string {
-  const {
-    conversationFormat,
-    participantName,
-    participantConversationMode,
-    modelProvider,
-    modelSupportsPrefill,
-    existingSystemPrompt,
-    hasCustomSystemPrompt
-  } = params;
-  
-  // Only for group chats (prefill format) - standard conversations use different flow
-  if (conversationFormat !== 'prefill') {
-    return existingSystemPrompt;
-  }
-  
-  // If participant has a custom system prompt, they've already defined their identity
-  if (hasCustomSystemPrompt) {
-    return existingSystemPrompt;
-  }
-  
-  // Check if model supports prefill
-  const supportsPrefill = modelProvider === 'anthropic' || modelProvider === 'bedrock' || modelSupportsPrefill === true;
-  
-  // Determine if we're actually using messages mode
-  // (either explicitly set to 'messages', or 'auto'/undefined with a model that doesn't support prefill)
-  const explicitMessagesMode = participantConversationMode === 'messages' || participantConversationMode === 'completion';
-  const autoFallbackToMessages = (!participantConversationMode || participantConversationMode === 'auto') && !supportsPrefill;
-  
-  const usingMessagesMode = explicitMessagesMode || autoFallbackToMessages;
-  
-  if (!usingMessagesMode) {
-    // Using prefill mode - participant name is in the message format, no identity prompt needed
-    return existingSystemPrompt;
+export function startBackgroundGeneration(userId: string, conversationId: string): AbortController {
+  const key = getGenerationKey(userId, conversationId);
+  const controller = new AbortController();
+  let controllers = backgroundGenerations.get(key);
+  if (!controllers) {
+    controllers = new Set();
+    backgroundGenerations.set(key, controllers);
   }
-  
-  // Build identity prompt
-  const identityPrompt = `You are ${participantName}. You are connected to a multi-participant chat system. Please respond in character.`;
-  
-  Logger.websocket(`[WebSocket] Applied identity prompt for "${participantName}" (messages mode)`);
-  
-  return existingSystemPrompt 
-    ? `${identityPrompt}\n\n${existingSystemPrompt}`
-    : identityPrompt;
+  controllers.add(controller);
+  return controller;
 }
 
-/**
- * Build conversation history by following the active branch path backwards
- * from a given branch ID to the root.
- * 
- * @param allMessages - All messages in the conversation
- * @param fromBranchId - The branch ID to start from (going backwards)
- * @param includeMessage - Optional message to include/replace in the history
- * @returns Array of messages in chronological order (oldest first)
- */
-function buildConversationHistory(
-  allMessages: Message[],
-  fromBranchId: string | undefined,
-  includeMessage?: { messageId: string; message: Message }
-): Message[] {
-  const history: Message[] = [];
-  
-  // Build a map for quick lookup
-  const messagesByBranchId = new Map<string, Message>();
-  for (const msg of allMessages) {
-    for (const branch of msg.branches) {
-      messagesByBranchId.set(branch.id, msg);
-    }
-  }
-  
-  // Start from the specified branch and work backwards
-  let currentBranchId = fromBranchId;
-  
-  while (currentBranchId && currentBranchId !== 'root') {
-    const message = messagesByBranchId.get(currentBranchId);
-    if (!message) {
-      Logger.debug('[buildConversationHistory] Could not find message for branch:', currentBranchId);
-      break;
-    }
-    
-    // Use the provided message if this is the one to replace
-    let messageToAdd = includeMessage && message.id === includeMessage.messageId 
-      ? includeMessage.message 
-      : message;
-    
-    // CRITICAL: Ensure activeBranchId matches the branch we're traversing
-    // Without this, if user switched branches before regenerating, the prefill
-    // would contain content from the wrong branch!
-    if (messageToAdd.activeBranchId !== currentBranchId) {
-      messageToAdd = {
-        ...messageToAdd,
-        activeBranchId: currentBranchId
-      };
-      Logger.debug(`[buildConversationHistory] Fixed activeBranchId mismatch for message ${message.id.substring(0, 8)}`);
-    }
-    
-    // Add to beginning of history (we're building backwards)
-    history.unshift(messageToAdd);
-    
-    // Find the branch and get its parent
-    const branch = messageToAdd.branches.find(b => b.id === currentBranchId);
-    if (!branch) {
-      console.log('[buildConversationHistory] Could not find branch:', currentBranchId);
-      break;
-    }
-    
-    currentBranchId = branch.parentBranchId;
+export function endBackgroundGeneration(userId: string, conversationId: string, controller: AbortController): void {
+  const key = getGenerationKey(userId, conversationId);
+  const controllers = backgroundGenerations.get(key);
+  if (!controllers) return;
+  controllers.delete(controller);
+  if (controllers.size === 0) {
+    backgroundGenerations.delete(key);
   }
-  
-  return history;
 }
 
-/**
- * Filter out messages that are marked as hidden from AI.
- * These messages are visible to humans but should not be included in the AI context.
- * 
- * @param messages - Array of messages to filter
- * @returns Array of messages with hiddenFromAi branches removed
- */
-function filterHiddenFromAiMessages(messages: Message[]): Message[] {
-  return messages
-    .map(msg => {
-      // Get the active branch
-      const activeBranch = msg.branches.find(b => b.id === msg.activeBranchId);
-      
-      // If the active branch is hidden from AI, skip this message entirely
-      if (activeBranch?.hiddenFromAi) {
-        return null;
-      }
-      
-      return msg;
-    })
-    .filter((msg): msg is Message => msg !== null);
-}
-
-async function userHasSufficientCredits(db: Database, userId: string, modelId?: string): Promise<boolean> {
-  // Check if the user has their own API key for the model's provider
-  if (modelId) {
-    const modelLoader = ModelLoader.getInstance();
-    const model = await modelLoader.getModelById(modelId, userId);
-    if (model) {
-      // Check if user has their own API key for this provider
-      const userApiKeys = await db.getUserApiKeys(userId);
-      const hasProviderKey = userApiKeys.some(key => key.provider === model.provider);
-      if (hasProviderKey) {
-        console.log(`[Credits] User ${userId} has custom ${model.provider} API key, skipping credit check`);
-        return true;
-      }
-    }
+function abortGeneration(userId: string, conversationId: string): boolean {
+  const key = getGenerationKey(userId, conversationId);
+  let aborted = false;
+  const controller = activeGenerations.get(key);
+  if (controller) {
+    controller.abort();
+    activeGenerations.delete(key);
+    aborted = true;
   }
-
-  const summary = await db.getUserGrantSummary(userId);
-  const currencies = await db.getApplicableGrantCurrencies(modelId, userId);
-  for (const currency of currencies) {
-    const balance = Number(summary.totals[currency] ?? 0);
-    if (balance > 0) return true;
+  const background = backgroundGenerations.get(key);
+  if (background) {
+    background.forEach(c => c.abort());
+    backgroundGenerations.delete(key);
+    aborted = true;
   }
-  return await db.userHasActiveGrantCapability(userId, 'overspend');
+  return aborted;
 }
 
 function sendInsufficientCreditsError(ws: AuthenticatedWebSocket): void {
@@ -315,15 +113,44 @@ function sendInsufficientCreditsError(ws: AuthenticatedWebSocket): void {
 
 /**
  * Build tool options for inference, including tool definitions and execution callbacks.
- * Streams tool call/result events to the client and broadcasts to room members.
+ * Streams tool call/progress/result events to the client and broadcasts to room members.
+ * Only tools permitted by the conversation and responder tool policies are advertised or executed.
+ * Calls to tools that require approval wait for a tool_approval_response from the room.
+ * Every call (including denied ones) is recorded in the conversation's tool call log.
  */
 function buildToolOptions(
-  userId: string,
+  db: Database,
+  conversation: Conversation,
+  responder: Participant | undefined,
   conversationId: string,
   messageId: string,
-  ws: WebSocket
+  branchId: string,
+  ws: AuthenticatedWebSocket,
+  abortSignal?: AbortSignal
 ) {
-  const tools = toolRegistry.getToolsForUser(userId);
+  const userId = conversation.userId;
+  const logScope: ToolCallLogScope = {
+    conversationId,
+    conversationOwnerUserId: userId,
+    messageId,
+    branchId,
+    participantId: responder?.id,
+    triggeredByUserId: ws.userId,
+  };
+  const toolContext: ToolExecutionContext = {
+    db,
+    userId,
+    conversationId,
+    messageId,
+    branchId,
+    participantId: responder?.id,
+    triggeredByUserId: ws.userId,
+    abortSignal,
+  };
+  // Approval decisions by tool_use id, so the log entry can say who approved the call
+  const approvals = new Map<string, ToolApprovalDecision>();
+  const policies = [conversation.toolPolicy, responder?.toolPolicy];
+  const tools = toolRegistry.getToolsForUser(userId, policies);
   if (tools.length === 0) return undefined;
 
   const wsSend = (data: any) => {
@@ -347,11 +174,36 @@ function buildToolOptions(
       roomManager.broadcastToRoom(conversationId, event, ws as any);
     },
     executeToolCall: async (call: ToolCall): Promise<ToolResult> => {
-      return toolRegistry.executeTool(call.name, call.input, userId);
+      const startedAt = new Date();
+      const onProgress = (progress: ToolProgress) => {
+        const event = { type: 'tool_progress', conversationId, messageId, toolUseId: call.id, ...progress };
+        wsSend(event);
+        roomManager.broadcastToRoom(conversationId, event, ws as any);
+      };
+      const result = await toolRegistry.executeTool(call.name, call.input, { ...toolContext, onProgress }, policies);
+      await recordToolCall(db, logScope, call, result, startedAt, approvals.get(call.id));
+      return result;
+    },
+    requestApproval: async (call: ToolCall): Promise<ToolApprovalDecision> => {
+      if (!toolRegistry.requiresApproval(call.name, userId, policies)) {
+        return { approved: true, input: call.input, edited: false };
+      }
+      const requestedAt = new Date();
+      const decision = await toolApprovalManager.requestApproval(conversationId, messageId, call, (event) => {
+        wsSend(event);
+        roomManager.broadcastToRoom(conversationId, event, ws as any);
+      }, { signal: abortSignal });
+      approvals.set(call.id, decision);
+      if (!decision.approved) {
+        await recordToolCall(db, logScope, call, { toolUseId: call.id, content: decision.reason, isError: true }, requestedAt, decision);
+      }
+      return decision;
     },
   };
 }
 
+type ToolOptions = NonNullable<ReturnType<typeof buildToolOptions>>;
+
 /**
  * Parameters for running parallel branch inference.
  * This shared utility handles creating multiple branches and running inference on them in parallel.
@@ -377,12 +229,7 @@ interface ParallelInferenceParams {
   abortSignal: AbortSignal;
   creationSource: 'inference' | 'regeneration';
   conversationId: string; // For room broadcasts
-  toolOptions?: {
-    tools?: any[];
-    onToolCall?: (call: ToolCall) => void;
-    onToolResult?: (result: ToolResult) => void;
-    executeToolCall?: (call: ToolCall) => Promise<ToolResult>;
-  };
+  getToolOptions?: (branchId: string) => ToolOptions | undefined; // Built per branch so tool calls are attributed to it
 }
 
 /**
@@ -412,7 +259,7 @@ async function runParallelBranchInference(params: ParallelInferenceParams): Prom
     abortSignal,
     creationSource,
     conversationId,
-    toolOptions
+    getToolOptions
   } = params;
 
   // Track branches to generate
@@ -596,7 +443,7 @@ async function runParallelBranchInference(params: ParallelInferenceParams): Prom
       },
       participants,
       abortSignal,
-      toolOptions
+      getToolOptions?.(branchId)
     );
 
     return branchContent;
@@ -641,7 +488,7 @@ export function websocketHandler(ws: AuthenticatedWebSocket, req: IncomingMessag
   });
 
   const baseInferenceService = new MembraneInferenceService(db);
-  const contextManager = new ContextManager();
+  const contextManager = new ContextManager({}, undefined, new ContextSummarizer(db, baseInferenceService), db);
   const inferenceService = new EnhancedInferenceService(baseInferenceService, contextManager);
 
   ws.on('message', async (data) => {
@@ -689,6 +536,10 @@ export function websocketHandler(ws: AuthenticatedWebSocket, req: IncomingMessag
         case 'typing':
           handleTyping(ws, message, db);
           break;
+
+        case 'tool_approval_response':
+          await handleToolApprovalResponse(ws, message, db);
+          break;
           
         default:
           ws.send(JSON.stringify({ type: 'error', error: 'Unknown message type' }));
@@ -755,6 +606,11 @@ function handleJoinRoom(
     activeUsers: roomManager.getActiveUsers(message.conversationId),
     activeAiRequest: roomManager.getActiveAiRequest(message.conversationId)
   }));
+
+  // Replay tool calls still waiting for approval so late joiners can answer them
+  for (const event of toolApprovalManager.getPendingForConversation(message.conversationId)) {
+    ws.send(JSON.stringify(event));
+  }
 }
 
 function handleLeaveRoom(
@@ -771,6 +627,34 @@ function handleLeaveRoom(
   }));
 }
 
+async function handleToolApprovalResponse(
+  ws: AuthenticatedWebSocket,
+  message: Extract<WsMessage, { type: 'tool_approval_response' }>,
+  db: Database
+) {
+  if (!ws.userId) return;
+
+  // Anyone who may chat in the conversation may approve its tool calls
+  const canChat = await db.canUserChatInConversation(message.conversationId, ws.userId);
+  if (!canChat) {
+    ws.send(JSON.stringify({ type: 'error', error: 'You do not have permission to approve tool calls in this conversation' }));
+    return;
+  }
+
+  const user = await db.getUserById(ws.userId);
+  const resolvedBy = user?.email?.split('@')[0] || ws.userId;
+
+  const resolved = toolApprovalManager.resolveApproval(message.approvalId, message.conversationId, {
+    decision: message.decision,
+    input: message.input,
+    reason: message.reason
+  }, resolvedBy);
+
+  if (!resolved) {
+    ws.send(JSON.stringify({ type: 'error', error: 'This tool call is no longer waiting for approval' }));
+  }
+}
+
 async function handleTyping(
   ws: AuthenticatedWebSocket,
   message: { type: 'typing'; conversationId: string; isTyping: boolean },
@@ -849,67 +733,21 @@ async function handleChatMessage(
     Logger.debug('Processing attachments:', attachments.map(a => ({ fileName: a.fileName, size: a.fileSize })));
   }
   
-  // Check if we should add to an existing message or create a new one
-  let userMessage: any;
-  
-  if (message.parentBranchId) {
-    // Check if this parent branch has siblings (i.e., we're branching from within history)
-    const allMessages = await db.getConversationMessages(message.conversationId, conversation.userId);
-    const messageWithSiblings = allMessages.find(msg => 
-      msg.branches.some(b => b.parentBranchId === message.parentBranchId)
-    );
-    
-    if (messageWithSiblings) {
-      // Add as a new branch to the existing message that contains siblings
-      Logger.debug('Adding branch to existing message:', messageWithSiblings.id);
-      userMessage = await db.addMessageBranch(
-        messageWithSiblings.id,
-        messageWithSiblings.conversationId,
-        conversation.userId,
-        message.content,
-        'user',
-        message.parentBranchId,
-        undefined, // model
-        message.participantId,
-        attachments,
-        ws.userId, // sentByUserId - actual user who sent this
-        message.hiddenFromAi, // whether message is hidden from AI
-        false,     // preserveActiveBranch - select this new branch
-        'human_edit' // creationSource - user messages are human-authored
-      );
-    } else {
-      // No siblings exist yet, create a new message
-      Logger.debug('Creating new message (no siblings found)');
-      userMessage = await db.createMessage(
-        message.conversationId,
-        conversation.userId,
-        message.content,
-        'user',
-        undefined, // model
-        message.parentBranchId,
-        message.participantId,
-        attachments,
-        ws.userId, // sentByUserId - actual user who sent this
-        message.hiddenFromAi, // whether message is hidden from AI
-        'human_edit' // creationSource - user messages are human-authored
-      );
-    }
-  } else {
-    // No parent specified, create new message as usual
-    userMessage = await db.createMessage(
-      message.conversationId,
-      conversation.userId,
-      message.content,
-      'user',
-      undefined, // model
-      message.parentBranchId,
-      message.participantId,
-      attachments,
-      ws.userId, // sentByUserId - actual user who sent this
-      message.hiddenFromAi, // whether message is hidden from AI
-      'human_edit' // creationSource - user messages are human-authored
-    );
-  }
+  // Add as a new message, or as a sibling branch when branching from within history
+  const userMessage: any = await createMessageUnderParent(
+    db,
+    message.conversationId,
+    conversation.userId,
+    message.content,
+    'user',
+    undefined, // model
+    message.parentBranchId,
+    message.participantId,
+    attachments,
+    ws.userId, // sentByUserId - actual user who sent this
+    message.hiddenFromAi, // whether message is hidden from AI
+    'human_edit' // creationSource - user messages are human-authored
+  );
   
   Logger.debug('Created/updated user message:', userMessage.id, 'with branch:', userMessage.branches[userMessage.branches.length - 1]?.id);
   Logger.debug('User message has attachments?', userMessage.branches[userMessage.branches.length - 1]?.attachments?.length || 0);
@@ -989,48 +827,21 @@ async function handleChatMessage(
   // Create assistant message placeholder with correct parent
   const userBranch = userMessage.branches[userMessage.branches.length - 1]; // Get the last branch (the one we just added)
   
-  // Check if we should add to an existing message or create a new one
-  let assistantMessage: Message | null;
-  const allMessagesForAssistant = await db.getConversationMessages(message.conversationId, conversation.userId);
-  const messageWithAssistantSiblings = allMessagesForAssistant.find(msg => 
-    msg.branches.some(b => b.parentBranchId === userBranch?.id)
+  const assistantMessage = await createMessageUnderParent(
+    db,
+    message.conversationId,
+    conversation.userId,
+    '',
+    'assistant',
+    responder.model || conversation.model,
+    userBranch?.id,
+    responder.id,
+    undefined, // no attachments for assistant
+    ws.userId, // user who triggered the generation
+    undefined, // hiddenFromAi
+    'inference' // creationSource - AI generated
   );
   
-  if (messageWithAssistantSiblings) {
-    // Add as a new branch to the existing message
-    console.log('Adding assistant branch to existing message:', messageWithAssistantSiblings.id);
-    assistantMessage = await db.addMessageBranch(
-      messageWithAssistantSiblings.id,
-      messageWithAssistantSiblings.conversationId,
-      conversation.userId,
-      '',
-      'assistant',
-      userBranch?.id,
-      responder.model || conversation.model,
-      responder.id,
-      undefined, // no attachments for assistant
-      ws.userId, // user who triggered the generation
-      undefined, // hiddenFromAi
-      false,     // preserveActiveBranch - select this new branch
-      'inference' // creationSource - AI generated
-    );
-  } else {
-    // No siblings exist yet, create a new message
-    assistantMessage = await db.createMessage(
-      message.conversationId,
-      conversation.userId,
-      '',
-      'assistant',
-      responder.model || conversation.model,
-      userBranch?.id,
-      responder.id,
-      undefined, // no attachments for assistant
-      ws.userId, // user who triggered the generation
-      undefined, // hiddenFromAi
-      'inference' // creationSource - AI generated
-    );
-  }
-  
   if (!assistantMessage) {
     console.error('Failed to create assistant message');
     ws.send(JSON.stringify({
@@ -1084,18 +895,7 @@ async function handleChatMessage(
     
     // For standard conversations, always use conversation settings
     // For prefill/group chat, merge participant and conversation settings
-    const inferenceSettings = conversation.format === 'standard' 
-      ? conversation.settings
-      : {
-          temperature: responder.settings?.temperature ?? conversation.settings.temperature,
-          maxTokens: responder.settings?.maxTokens ?? conversation.settings.maxTokens,
-          topP: responder.settings?.topP ?? conversation.settings.topP,
-          topK: responder.settings?.topK ?? conversation.settings.topK,
-          // Always use conversation-level thinking settings
-          thinking: conversation.settings.thinking,
-          // Include model-specific settings (e.g., image resolution)
-          modelSpecific: responder.settings?.modelSpecific ?? conversation.settings.modelSpecific
-        };
+    const inferenceSettings = mergeInferenceSettings(conversation, responder);
     
     // Debug: Log the settings being used
     Logger.websocket('[WebSocket] Conversation settings:', JSON.stringify(conversation.settings, null, 2));
@@ -1175,7 +975,7 @@ async function handleChatMessage(
         abortSignal: abortController.signal,
         creationSource: 'inference',
         conversationId: message.conversationId,
-        toolOptions: buildToolOptions(conversation.userId, message.conversationId, assistantMessage.id, ws)
+        getToolOptions: (branchId) => buildToolOptions(db, conversation, responder, message.conversationId, assistantMessage.id, branchId, ws, abortController.signal)
       });
     
     // DEBUG CAPTURE: Capture debug data for the first branch after completion
@@ -1458,22 +1258,7 @@ async function handleRegenerate(
       responderModel = participant.model || conversation.model;
       responderSystemPrompt = participant.systemPrompt || conversation.systemPrompt;
       
-      // For standard conversations, always use conversation settings
-      // For prefill/group chat, merge participant and conversation settings
-      if (conversation.format === 'standard') {
-        responderSettings = conversation.settings;
-      } else {
-        responderSettings = {
-          temperature: participant.settings?.temperature ?? conversation.settings.temperature,
-          maxTokens: participant.settings?.maxTokens ?? conversation.settings.maxTokens,
-          topP: participant.settings?.topP ?? conversation.settings.topP,
-          topK: participant.settings?.topK ?? conversation.settings.topK,
-          // Always use conversation-level thinking settings
-          thinking: conversation.settings.thinking,
-          // Include model-specific settings (e.g., image resolution)
-          modelSpecific: participant.settings?.modelSpecific ?? conversation.settings.modelSpecific
-        };
-      }
+      responderSettings = mergeInferenceSettings(conversation, participant);
     }
   }
   
@@ -1552,7 +1337,7 @@ async function handleRegenerate(
         abortSignal: abortController.signal,
         creationSource: 'regeneration',
         conversationId: message.conversationId,
-        toolOptions: buildToolOptions(conversation.userId, message.conversationId, updatedMessage.id, ws)
+        getToolOptions: (branchId) => buildToolOptions(db, conversation, responderParticipant, message.conversationId, updatedMessage.id, branchId, ws, abortController.signal)
       });
     } finally {
       endGeneration(conversation.userId, conversation.id);
@@ -1894,22 +1679,7 @@ async function handleEdit(
       if (responderParticipant) {
         responderSystemPrompt = responderParticipant.systemPrompt || conversation.systemPrompt;
         
-        // For standard conversations, always use conversation settings
-        // For prefill/group chat, merge participant and conversation settings
-        if (conversation.format === 'standard') {
-          responderSettings = conversation.settings;
-        } else {
-          responderSettings = {
-            temperature: responderParticipant.settings?.temperature ?? conversation.settings.temperature,
-            maxTokens: responderParticipant.settings?.maxTokens ?? conversation.settings.maxTokens,
-            topP: responderParticipant.settings?.topP ?? conversation.settings.topP,
-            topK: responderParticipant.settings?.topK ?? conversation.settings.topK,
-            // Always use conversation-level thinking settings
-            thinking: conversation.settings.thinking,
-            // Include model-specific settings (e.g., image resolution)
-            modelSpecific: responderParticipant.settings?.modelSpecific ?? conversation.settings.modelSpecific
-          };
-        }
+        responderSettings = mergeInferenceSettings(conversation, responderParticipant);
       }
     }
     
@@ -1989,7 +1759,7 @@ async function handleEdit(
           abortSignal: abortController.signal,
           creationSource: 'inference',
           conversationId: message.conversationId,
-          toolOptions: buildToolOptions(conversation.userId, message.conversationId, targetMessage.id, ws)
+          getToolOptions: (branchId) => buildToolOptions(db, conversation, responderParticipant, message.conversationId, targetMessage.id, branchId, ws, abortController.signal)
         });
       } finally {
         endGeneration(conversation.userId, conversation.id);
@@ -2363,7 +2133,7 @@ async function handleContinue(
         abortSignal: abortController.signal,
         creationSource: 'inference',
         conversationId,
-        toolOptions: buildToolOptions(conversation.userId, conversationId, assistantMessage.id, ws)
+        getToolOptions: (branchId) => buildToolOptions(db, conversation, responder, conversationId, assistantMessage.id, branchId, ws, abortController.signal)
       });
       
       // DEBUG CAPTURE: Capture debug data for the first branch after completion
@@ -0,0 +1,29 @@
+import { parseCron, nextCronTime } from './src/utils/cron.js';
+
+// Run with: npx tsx test-cron.js
+
+const cases = [
+  // Europe/Berlin starts DST on Sun 2026-03-29 (a 23-hour day), so Monday's early hours come right after it
+  { expression: '0 0 * * 1', after: '2026-03-28T12:00:00Z', timezone: 'Europe/Berlin', expected: '2026-03-29T22:00:00.000Z' },
+  { expression: '30 0 * * 1', after: '2026-03-28T12:00:00Z', timezone: 'Europe/Berlin', expected: '2026-03-29T22:30:00.000Z' },
+  // Europe/Berlin ends DST on Sun 2026-10-25 (a 25-hour day)
+  { expression: '0 0 * * 1', after: '2026-10-24T12:00:00Z', timezone: 'Europe/Berlin', expected: '2026-10-25T23:00:00.000Z' },
+  { expression: '0 23 * * 0', after: '2026-10-24T12:00:00Z', timezone: 'Europe/Berlin', expected: '2026-10-25T22:00:00.000Z' },
+  // New York starts DST on Sun 2026-03-08
+  { expression: '15 0 9 3 *', after: '2026-03-07T12:00:00Z', timezone: 'America/New_York', expected: '2026-03-09T04:15:00.000Z' },
+  { expression: '0 9 * * *', after: '2026-01-01T12:00:00Z', timezone: 'UTC', expected: '2026-01-02T09:00:00.000Z' },
+  { expression: '0 0 30 2 *', after: '2026-01-01T00:00:00Z', timezone: 'UTC', expected: undefined },
+];
+
+console.log('\n🧪 Testing cron schedules across DST changes\n');
+
+let failures = 0;
+for (const { expression, after, timezone, expected } of cases) {
+  const next = nextCronTime(parseCron(expression), new Date(after), timezone)?.toISOString();
+  const ok = next === expected;
+  if (!ok) failures++;
+  console.log(`${ok ? '✅' : '❌'} "${expression}" in ${timezone} after ${after}: ${next} ${ok ? '' : `(expected ${expected})`}`);
+}
+
+console.log(`\n${failures === 0 ? 'All cases passed' : `${failures} case(s) failed`}`);
+process.exit(failures === 0 ? 0 : 1);
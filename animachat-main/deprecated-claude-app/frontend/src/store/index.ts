@@ -53,6 +53,39 @@ interface StoreState {
   readBranchIds: Set<string>;  // Branches user has seen in current conversation
   unreadCounts: Map<string, number>;  // conversationId -> unread count for sidebar badges
   readPersistTimeout: ReturnType<typeof setTimeout> | null;  // Debounce timer for persisting reads
+  // Tool calls waiting for human approval (ephemeral), keyed by tool_use id
+  pendingToolApprovals: Map<string, PendingToolApproval>;
+  // Tools available in the current conversation, keyed by the name the model sees
+  conversationTools: Map<string, ConversationTool>;
+  // Latest progress of running tool calls (ephemeral), keyed by tool_use id
+  toolProgress: Map<string, ToolProgress>;
+}
+
+// Maps an exposed (possibly namespaced) tool name back to where the tool lives
+export interface ConversationTool {
+  name: string;
+  description: string;
+  source: 'server' | 'delegate';
+  delegateId?: string;
+  server?: string;  // MCP server on the delegate
+  originalName: string;
+}
+
+// Progress reported by a long-running tool (e.g. a delegate build or crawl)
+export interface ToolProgress {
+  message?: string;
+  percentage?: number;  // 0-100, when the tool knows
+  updatedAt: number;
+}
+
+// A tool call paused by the server until someone in the conversation approves it
+export interface PendingToolApproval {
+  approvalId: string;
+  conversationId: string;
+  messageId?: string;
+  call: { id: string; name: string; input: Record<string, unknown> };
+  requestedAt: string;
+  expiresAt: string;
 }
 
 export interface Store {
@@ -84,6 +117,7 @@ export interface Store {
   continueGeneration(responderId?: string, explicitParentBranchId?: string, samplingBranches?: number): Promise<void>;
   regenerateMessage(messageId: string, branchId: string, parentBranchId?: string, samplingBranches?: number): Promise<void>;
   abortGeneration(): void;
+  respondToToolApproval(approval: PendingToolApproval, decision: 'approve' | 'deny' | 'edit', options?: { input?: Record<string, unknown>; reason?: string }): void;
   editMessage(messageId: string, branchId: string, content: string, responderId?: string, skipRegeneration?: boolean, samplingBranches?: number): Promise<void>;
   switchBranch(messageId: string, branchId: string): void;
   switchBranchesBatch(switches: Array<{ messageId: string; branchId: string }>): void;
@@ -97,6 +131,7 @@ export interface Store {
   markBranchesAsRead(branchIds: string[]): void;
   getUnreadCount(): number;  // Unread in current conversation
   fetchUnreadCounts(): Promise<void>;  // Load counts for all conversations
+  loadConversationTools(conversationId: string): Promise<void>;
 
   loadModels(): Promise<void>;
   loadOpenRouterModels(): Promise<void>;
@@ -246,7 +281,10 @@ export function createStore(): {
     // Read tracking
     readBranchIds: new Set(),
     unreadCounts: new Map(),
-    readPersistTimeout: null
+    readPersistTimeout: null,
+    pendingToolApprovals: new Map(),
+    conversationTools: new Map(),
+    toolProgress: new Map()
   });
 
   const store: Store = {
@@ -385,6 +423,9 @@ export function createStore(): {
 
       // Clear branch notifications when switching conversations
       state.hiddenBranchActivities.clear();
+      // Pending approvals for the new conversation are replayed on join_room
+      state.pendingToolApprovals.clear();
+      state.toolProgress.clear();
       // Note: Don't clear readBranchIds here - we'll set it atomically after loading
       // to avoid a flash of "all unread" while the new read state loads
 
@@ -457,6 +498,9 @@ export function createStore(): {
         const visibleBranchIds = this.getVisibleMessages().map(m => m.activeBranchId);
         this.markBranchesAsRead(visibleBranchIds);
 
+        // Tool name mapping for tool cards (not needed to render, so don't wait)
+        void this.loadConversationTools(id);
+
         // STUBBED: Unread count calculation disabled pending architecture review
         // See .workshop/proposal-realtime-notifications.md
         // The local calculation has migration issues (everything shows as unread for existing users)
@@ -764,6 +808,19 @@ export function createStore(): {
         conversationId: state.currentConversation.id
       });
     },
+
+    respondToToolApproval(approval: PendingToolApproval, decision: 'approve' | 'deny' | 'edit', options: { input?: Record<string, unknown>; reason?: string } = {}) {
+      if (!state.wsService) return;
+
+      state.wsService.sendMessage({
+        type: 'tool_approval_response',
+        conversationId: approval.conversationId,
+        approvalId: approval.approvalId,
+        decision,
+        input: options.input,
+        reason: options.reason
+      });
+    },
     
     async editMessage(messageId: string, branchId: string, content: string, responderId?: string, skipRegeneration?: boolean, samplingBranches?: number) {
       if (!state.currentConversation || !state.wsService) return;
@@ -1192,6 +1249,18 @@ export function createStore(): {
       }
     },
 
+    async loadConversationTools(conversationId: string) {
+      try {
+        const response = await api.get(`/conversations/${conversationId}/tools`);
+        if (state.currentConversation?.id !== conversationId) return;
+        state.conversationTools = new Map(
+          (response.data as ConversationTool[]).map(tool => [tool.name, tool])
+        );
+      } catch (err) {
+        console.warn('Failed to load conversation tools:', err);
+      }
+    },
+
     // Detached branch mode
     setDetachedMode(detached: boolean) {
       if (detached && !state.isDetachedFromMainBranch) {
@@ -1645,6 +1714,35 @@ export function createStore(): {
         invalidateSortCache();
       });
       
+      state.wsService.on('tool_approval_request', (data: any) => {
+        if (data.conversationId !== state.currentConversation?.id) return;
+        state.pendingToolApprovals.set(data.call.id, {
+          approvalId: data.approvalId,
+          conversationId: data.conversationId,
+          messageId: data.messageId,
+          call: data.call,
+          requestedAt: data.requestedAt,
+          expiresAt: data.expiresAt
+        });
+      });
+
+      state.wsService.on('tool_approval_resolved', (data: any) => {
+        state.pendingToolApprovals.delete(data.toolUseId);
+      });
+
+      state.wsService.on('tool_progress', (data: any) => {
+        if (data.conversationId !== state.currentConversation?.id) return;
+        state.toolProgress.set(data.toolUseId, {
+          message: data.message,
+          percentage: data.percentage,
+          updatedAt: Date.now()
+        });
+      });
+
+      state.wsService.on('tool_result', (data: any) => {
+        if (data.result?.toolUseId) state.toolProgress.delete(data.result.toolUseId);
+      });
+      
       state.wsService.on('generation_aborted', (data: any) => {
         console.log('Store handling generation_aborted:', data);
         // The ConversationView will handle resetting isStreaming via the stream event with aborted flag
@@ -345,6 +345,27 @@ export const ContextManagementSchema = z.discriminatedUnion('strategy', [
     strategy: z.literal('rolling'),
     maxTokens: z.number(),
     maxGraceTokens: z.number()
+  }),
+  z.object({
+    strategy: z.literal('static'),
+    maxMessages: z.number().int().min(1).default(200), // Most recent messages kept
+    cacheRatio: z.number().min(0).max(1).default(0.9) // Share of the kept messages cached as a prefix
+  }),
+  z.object({
+    strategy: z.literal('adaptive'),
+    // Messages below the importance threshold roll like the rolling strategy
+    maxTokens: z.number(),
+    maxGraceTokens: z.number(),
+    // Messages scoring at least this are always kept (pinned 1, important 0.8, bookmarked 0.5)
+    importanceThreshold: z.number().min(0.1).max(1).default(0.5)
+  }),
+  z.object({
+    strategy: z.literal('summarize'),
+    // Window sizing as in the rolling strategy; dropped messages are summarized instead of lost
+    maxTokens: z.number(),
+    maxGraceTokens: z.number(),
+    summaryModel: z.string().optional(), // Model that writes the summaries; the responding model when unset
+    summaryMaxTokens: z.number().int().min(256).max(16000).default(2000)
   })
 ]);
 
@@ -355,6 +376,173 @@ export const DEFAULT_CONTEXT_MANAGEMENT: ContextManagement = {
   tokensBeforeCaching: 10000
 };
 
+// Summary written by the summarize strategy for the messages before its window.
+// It is sent in their place until the next rotation extends it, and users can edit it.
+// A summary applies only while the covered messages keep the active branches it was written from.
+export const ContextSummarySchema = z.object({
+  id: z.string().uuid(),
+  conversationId: z.string().uuid(),
+  participantId: z.string().uuid().optional(), // Set when the participant's own context settings produced it
+  content: z.string(),
+  throughMessageId: z.string().uuid(), // Last message covered
+  messageCount: z.number().int(), // Messages covered, from the start of the conversation
+  pathHash: z.string(), // Hash of the covered messages' active branches
+  model: z.string(), // Model that wrote it
+  createdAt: z.string(),
+  editedAt: z.string().optional()
+});
+
+export const UpdateContextSummaryRequestSchema = z.object({
+  content: z.string().min(1).max(100000)
+});
+
+export type ContextSummary = z.infer<typeof ContextSummarySchema>;
+export type UpdateContextSummaryRequest = z.infer<typeof UpdateContextSummaryRequestSchema>;
+
+// Tool policy - restricts which tools are advertised to and executable by the model.
+// Patterns match either the bare tool name ("write_file") or the source-qualified
+// name ("server:echo", "<delegateId>:read_file") and support * wildcards ("laptop:*").
+// Deny rules always win; an empty or missing allow list permits everything not denied.
+// requireApproval uses the same patterns to pick tools that must be confirmed by a
+// human in the conversation before each call is executed.
+export const ToolPolicySchema = z.object({
+  allow: z.array(z.string()).optional(),
+  deny: z.array(z.string()).optional(),
+  requireApproval: z.array(z.string()).optional()
+});
+
+export type ToolPolicy = z.infer<typeof ToolPolicySchema>;
+
+// Tool call audit log - one entry per tool execution (or denied attempt), persisted in the
+// conversation event store independently of message content, branch edits, and hides
+export const ToolCallLogEntrySchema = z.object({
+  id: z.string().uuid(),
+  conversationId: z.string().uuid(),
+  messageId: z.string().uuid().optional(),
+  branchId: z.string().uuid().optional(),
+  participantId: z.string().uuid().optional(), // Assistant participant that made the call
+  toolUseId: z.string(),
+  toolName: z.string(), // Name the model called (may be namespaced)
+  originalName: z.string().optional(), // Tool's own name on its server
+  source: z.enum(['server', 'delegate', 'unknown']),
+  delegateId: z.string().optional(),
+  server: z.string().optional(), // MCP server on the delegate
+  input: z.record(z.unknown()),
+  resultSize: z.number(), // Characters of result content
+  isError: z.boolean(),
+  denied: z.boolean().optional(), // Never executed (approval denied)
+  approval: z.object({
+    decision: z.enum(['approve', 'deny', 'edit']),
+    resolvedBy: z.string().optional(),
+    reason: z.string().optional()
+  }).optional(),
+  durationMs: z.number(),
+  triggeredByUserId: z.string().uuid().optional(), // User whose action started the generation
+  triggerSource: z.string().optional(), // Set for generations started by a delegate trigger
+  startedAt: z.string(),
+  completedAt: z.string()
+});
+
+export type ToolCallLogEntry = z.infer<typeof ToolCallLogEntrySchema>;
+
+// Scratchpad note - appended by the append_scratchpad server tool; persists across turns
+// and branches so the model can keep notes for itself over a long conversation
+export const ScratchpadNoteSchema = z.object({
+  id: z.string().uuid(),
+  conversationId: z.string().uuid(),
+  text: z.string(),
+  participantId: z.string().uuid().optional(), // Assistant participant that wrote the note
+  messageId: z.string().uuid().optional(), // Message being generated when the note was written
+  createdAt: z.string()
+});
+
+export type ScratchpadNote = z.infer<typeof ScratchpadNoteSchema>;
+
+// A connected delegate session as shown in the Delegates settings tab (GET /api/delegates)
+export const DelegateToolInfoSchema = z.object({
+  name: z.string(), // Name as advertised by the delegate
+  description: z.string(),
+  server: z.string().optional(), // MCP server on the delegate
+  requiresApproval: z.boolean().optional(),
+  enabled: z.boolean() // False when the user switched the tool off
+});
+
+export const DelegateSessionInfoSchema = z.object({
+  sessionId: z.string(),
+  delegateId: z.string(),
+  connectedAt: z.string(),
+  lastSeenAt: z.string(), // Last message or heartbeat from the delegate
+  capabilities: z.array(z.string()),
+  pendingCalls: z.number(), // Tool calls waiting for this session's answer
+  tools: z.array(DelegateToolInfoSchema)
+});
+
+export type DelegateToolInfo = z.infer<typeof DelegateToolInfoSchema>;
+export type DelegateSessionInfo = z.infer<typeof DelegateSessionInfoSchema>;
+
+// Long-lived token a delegate authenticates with (instead of the user's login JWT).
+// Only a hash of the secret is stored; the secret is shown once, when the token is created.
+export const DelegateTokenSchema = z.object({
+  id: z.string().uuid(),
+  name: z.string(),
+  delegateId: z.string().optional(), // Only this delegate id may connect with the token
+  createdAt: z.string(),
+  expiresAt: z.string().optional(), // Never expires when absent
+  lastUsedAt: z.string().optional(),
+  revokedAt: z.string().optional()
+});
+
+export const CreateDelegateTokenRequestSchema = z.object({
+  name: z.string().min(1).max(100),
+  delegateId: z.string().min(1).max(100).optional(),
+  expiresInDays: z.number().int().min(1).max(3650).optional()
+});
+
+export type DelegateToken = z.infer<typeof DelegateTokenSchema>;
+export type CreateDelegateTokenRequest = z.infer<typeof CreateDelegateTokenRequestSchema>;
+
+// Server-side schedule that fires a trigger into a conversation (the same flow as delegate webhooks).
+// Runs on a 5-field cron expression evaluated in `timezone`, or every `intervalMinutes`.
+export const TriggerScheduleSchema = z.object({
+  id: z.string().uuid(),
+  conversationId: z.string().uuid(),
+  participantId: z.string().uuid().optional(), // Responder; the first assistant when absent
+  name: z.string(),
+  prompt: z.string(), // Sent as the trigger message
+  cron: z.string().optional(),
+  intervalMinutes: z.number().int().optional(),
+  timezone: z.string().default('UTC'),
+  enabled: z.boolean().default(true),
+  createdAt: z.string(),
+  lastRunAt: z.string().optional(),
+  lastError: z.string().optional(), // Error of the last run, cleared when a run succeeds
+  nextRunAt: z.string().optional() // Computed; absent when disabled
+});
+
+const TriggerScheduleFieldsSchema = z.object({
+  name: z.string().min(1).max(100),
+  prompt: z.string().min(1).max(10000),
+  participantId: z.string().uuid().optional(),
+  cron: z.string().min(1).max(100).optional(),
+  intervalMinutes: z.number().int().min(5).max(525600).optional(),
+  timezone: z.string().min(1).max(100).default('UTC'),
+  enabled: z.boolean().default(true)
+});
+
+export const CreateTriggerScheduleRequestSchema = TriggerScheduleFieldsSchema.refine(
+  request => !!request.cron !== !!request.intervalMinutes,
+  { message: 'Set either cron or intervalMinutes' }
+);
+
+// Setting cron clears intervalMinutes and vice versa
+export const UpdateTriggerScheduleRequestSchema = TriggerScheduleFieldsSchema.partial().extend({
+  participantId: z.string().uuid().nullable().optional() // null goes back to the first assistant
+});
+
+export type TriggerSchedule = z.infer<typeof TriggerScheduleSchema>;
+export type CreateTriggerScheduleRequest = z.infer<typeof CreateTriggerScheduleRequestSchema>;
+export type UpdateTriggerScheduleRequest = z.infer<typeof UpdateTriggerScheduleRequestSchema>;
+
 // Participant types
 export const ParticipantSchema = z.object({
   id: z.string().uuid(),
@@ -367,6 +555,7 @@ export const ParticipantSchema = z.object({
   settings: ModelSettingsSchema.optional(), // Only for assistant participants
   contextManagement: ContextManagementSchema.optional(), // Only for assistant participants
   conversationMode: ConversationModeEnum.optional(), // Per-participant format override (auto, prefill, messages, completion)
+  toolPolicy: ToolPolicySchema.optional(), // Per-participant tool restrictions (applied on top of the conversation policy)
   isActive: z.boolean().default(true),
 
   // Persona system fields
@@ -383,6 +572,7 @@ export const UpdateParticipantSchema = z.object({
   settings: ModelSettingsSchema.optional(),
   contextManagement: ContextManagementSchema.optional(),
   conversationMode: ConversationModeEnum.optional(), // Per-participant format override
+  toolPolicy: ToolPolicySchema.optional(),
   isActive: z.boolean().optional(),
   // Persona system fields
   personaId: z.string().uuid().optional(),
@@ -480,6 +670,27 @@ export const ToolUseContentBlockSchema = z.object({
   input: z.record(z.unknown()),
 });
 
+// Embedded resource returned by a tool (MCP "resource" content).
+// Text resources are kept inline; binary resources are stored in the BlobStore.
+export const ToolResultResourcePartSchema = z.object({
+  type: z.literal('resource'),
+  uri: z.string(),
+  mimeType: z.string().optional(),
+  text: z.string().optional(),
+  blobId: z.string().optional(),
+  size: z.number().optional() // Bytes, for binary resources
+});
+
+// Parts of a structured tool result: text, images (stored in the BlobStore), resources
+export const ToolResultContentPartSchema = z.discriminatedUnion('type', [
+  TextContentBlockSchema,
+  ImageContentBlockSchema,
+  ToolResultResourcePartSchema
+]);
+
+export type ToolResultResourcePart = z.infer<typeof ToolResultResourcePartSchema>;
+export type ToolResultContentPart = z.infer<typeof ToolResultContentPartSchema>;
+
 // Tool result content block - the result of a tool call
 export const ToolResultContentBlockSchema = z.object({
   type: z.literal('tool_result'),
@@ -559,6 +770,8 @@ export const MessageBranchSchema = z.object({
   attachments: z.array(AttachmentSchema).optional(), // Attachments for this branch
   bookmark: BookmarkSchema.optional(), // Optional bookmark for this branch
   hiddenFromAi: z.boolean().optional(), // If true, this message is visible to humans but excluded from AI context
+  pinned: z.boolean().optional(), // Always kept in context by the adaptive strategy (e.g. setup messages)
+  important: z.boolean().optional(), // Flagged by a user as important; raises the message's score in the adaptive strategy
   debugRequest: z.any().optional(), // Raw LLM request for debugging (researchers/admins only)
   debugResponse: z.any().optional(), // Raw LLM response for debugging (researchers/admins only)
   // Post-hoc operation - if present, this message is an operation that affects a previous message
@@ -616,6 +829,7 @@ export const ConversationSchema = z.object({
     messageThreshold: z.number().default(10) // Apply CLI prompt for conversations under this many messages
   }).optional(),
   combineConsecutiveMessages: z.boolean().default(true).optional(), // Combine consecutive same-role messages when building context (default: true)
+  toolPolicy: ToolPolicySchema.optional(), // Which tools the model may use in this conversation
   totalBranchCount: z.number().default(0).optional() // Cached count of non-system branches (calculated during event replay)
 });
 
@@ -706,6 +920,15 @@ export const WsMessageSchema = z.discriminatedUnion('type', [
     type: z.literal('typing'),
     conversationId: z.string().uuid(),
     isTyping: z.boolean()
+  }),
+  // Human-in-the-loop reply to a tool_approval_request
+  z.object({
+    type: z.literal('tool_approval_response'),
+    conversationId: z.string().uuid(),
+    approvalId: z.string(),
+    decision: z.enum(['approve', 'deny', 'edit']),
+    input: z.record(z.unknown()).optional(), // Replacement arguments when decision is 'edit'
+    reason: z.string().optional() // Shown to the model when decision is 'deny'
   })
 ]);
 